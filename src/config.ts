@@ -1,37 +1,116 @@
+import { readFileSync } from 'fs';
+import { SCRIPTED_STRATEGY_NAMES, ScriptedStrategyName } from './llm/scripted-adapter';
+import { STRATEGY_PROFILE_IDS, DEFAULT_STRATEGIES } from './llm/prompt-builder';
+import { SinkSpec, parseSinkSpec, writesToStdout } from './display/sinks';
+import { readSnapshot } from './snapshot';
+import { AuctionRules, RuleSet } from './engine/types';
+import { AUCTION_MODES, BANKRUPTCY_SALES, DEFAULT_AUCTION_RULES, DEFAULT_RULES } from './engine/game-engine';
+
+/** 'llm' seats call the model API, 'human' seats are played from the Ink UI; the rest are offline rule-based players */
+export type PlayerType = 'llm' | 'human' | ScriptedStrategyName;
+
+export type Provider = 'anthropic' | 'openai';
+
+export const DEFAULT_MODELS: Record<Provider, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o-mini',
+};
+
+/** Everything that distinguishes one seat from another in a head-to-head eval */
+export interface SeatConfig {
+  name: string;
+  type: PlayerType;
+  provider: Provider;
+  model: string;
+  baseUrl: string | null;
+  temperature: number | undefined;
+  strategy: string;
+}
+
+/** JSON match config (--match-config). Every field is optional; CLI flags win. */
+export interface MatchConfig {
+  players?: Partial<SeatConfig>[];
+  maxTurns?: number;
+  seed?: number;
+  scenarioFile?: string;
+  auction?: Partial<AuctionRules>;
+  tradeWindow?: boolean;
+  rules?: Partial<RuleSet>;
+}
+
 export interface GameConfig {
   players: number;
-  model: string;
+  seats: SeatConfig[];
   maxTurns: number;
   turnDelay: number;
   logFile: string | null;
   seed: number | undefined;
   verbose: boolean;
   scenarioFile: string | null;
+  headless: boolean;
+  sinks: SinkSpec[];
+  /** Write a save file every N turns (0 = never) */
+  autosaveEvery: number;
+  saveFile: string;
+  resumeFile: string | null;
+  auction: AuctionRules;
+  /** Between turns, ask every player in seat order for an optional trade offer */
+  tradeWindow: boolean;
+  rules: RuleSet;
 }
 
+const PLAYER_NAMES = ['Alice', 'Bob', 'Charlie', 'Diana'];
+
+// Per-seat flags take one value for every seat or a comma list per seat
+type SeatFlag = 'name' | 'type' | 'provider' | 'model' | 'baseUrl' | 'temperature' | 'strategy';
+
+const SEAT_FLAGS: Record<string, SeatFlag> = {
+  '--name': 'name',
+  '--player-type': 'type',
+  '--provider': 'provider',
+  '--model': 'model',
+  '--base-url': 'baseUrl',
+  '--temperature': 'temperature',
+  '--strategy': 'strategy',
+};
+
 export function parseArgs(argv: string[]): GameConfig {
   const config: GameConfig = {
     players: 2,
-    model: 'claude-sonnet-4-20250514',
+    seats: [],
     maxTurns: 500,
     turnDelay: 500,
     logFile: null,
     seed: undefined,
     verbose: false,
     scenarioFile: null,
+    headless: false,
+    sinks: [],
+    autosaveEvery: 10,
+    saveFile: 'monopoly-autosave.json',
+    resumeFile: null,
+    auction: { ...DEFAULT_AUCTION_RULES },
+    tradeWindow: false,
+    rules: { ...DEFAULT_RULES },
   };
 
+  let match: MatchConfig = {};
+  let houseRules: Partial<RuleSet> = {};
+  let playersFlag: number | null = null;
+  const seatFlags: Partial<Record<SeatFlag, string[]>> = {};
+
   for (let i = 2; i < argv.length; i++) {
+    if (argv[i] in SEAT_FLAGS) {
+      seatFlags[SEAT_FLAGS[argv[i]]] = argv[++i].split(',').map(v => v.trim());
+      continue;
+    }
+
     switch (argv[i]) {
       case '--players':
-        config.players = parseInt(argv[++i], 10);
-        if (config.players < 2 || config.players > 4) {
-          console.error('Players must be between 2 and 4');
-          process.exit(1);
-        }
+        playersFlag = parseInt(argv[++i], 10);
         break;
-      case '--model':
-        config.model = argv[++i];
+      case '--match-config':
+        match = JSON.parse(readFileSync(argv[++i], 'utf-8'));
         break;
       case '--max-turns':
         config.maxTurns = parseInt(argv[++i], 10);
@@ -51,6 +130,41 @@ export function parseArgs(argv: string[]): GameConfig {
       case '--scenario-file':
         config.scenarioFile = argv[++i];
         break;
+      case '--headless':
+        config.headless = true;
+        break;
+      case '--sink':
+        try {
+          config.sinks.push(parseSinkSpec(argv[++i]));
+        } catch (error) {
+          console.error(error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+        break;
+      case '--autosave':
+        config.autosaveEvery = parseInt(argv[++i], 10);
+        break;
+      case '--save-file':
+        config.saveFile = argv[++i];
+        break;
+      case '--resume':
+        config.resumeFile = argv[++i];
+        break;
+      case '--auction':
+        config.auction.mode = argv[++i] as AuctionRules['mode'];
+        break;
+      case '--min-increment':
+        config.auction.minIncrement = parseInt(argv[++i], 10);
+        break;
+      case '--bankruptcy-sales':
+        config.auction.bankruptcySales = argv[++i] as AuctionRules['bankruptcySales'];
+        break;
+      case '--trade-window':
+        config.tradeWindow = true;
+        break;
+      case '--house-rules':
+        houseRules = JSON.parse(readFileSync(argv[++i], 'utf-8'));
+        break;
       case '--help':
         printHelp();
         process.exit(0);
@@ -61,9 +175,157 @@ export function parseArgs(argv: string[]): GameConfig {
     }
   }
 
+  // Nobody is watching a headless game
+  if (config.headless) config.turnDelay = 0;
+
+  if (!config.headless && config.sinks.some(writesToStdout)) {
+    console.error('The console and stdout jsonl sinks need --headless (the Ink UI owns the terminal)');
+    process.exit(1);
+  }
+
+  // Match config fills in whatever the command line left unset
+  if (match.maxTurns !== undefined && !argv.includes('--max-turns')) config.maxTurns = match.maxTurns;
+  if (match.seed !== undefined && config.seed === undefined) config.seed = match.seed;
+  if (match.scenarioFile && !config.scenarioFile) config.scenarioFile = match.scenarioFile;
+  if (match.auction?.mode && !argv.includes('--auction')) config.auction.mode = match.auction.mode;
+  if (match.auction?.minIncrement !== undefined && !argv.includes('--min-increment')) {
+    config.auction.minIncrement = match.auction.minIncrement;
+  }
+  if (match.auction?.bankruptcySales && !argv.includes('--bankruptcy-sales')) {
+    config.auction.bankruptcySales = match.auction.bankruptcySales;
+  }
+  if (match.tradeWindow !== undefined && !argv.includes('--trade-window')) config.tradeWindow = match.tradeWindow;
+
+  if (!AUCTION_MODES.includes(config.auction.mode)) {
+    console.error(`Unknown auction mode: ${config.auction.mode} (expected one of ${AUCTION_MODES.join(', ')})`);
+    process.exit(1);
+  }
+  if (!(config.auction.minIncrement >= 1)) {
+    console.error('--min-increment must be at least 1');
+    process.exit(1);
+  }
+  if (!BANKRUPTCY_SALES.includes(config.auction.bankruptcySales)) {
+    console.error(`Unknown bankruptcy sales rule: ${config.auction.bankruptcySales} (expected one of ${BANKRUPTCY_SALES.join(', ')})`);
+    process.exit(1);
+  }
+
+  try {
+    // The --house-rules file wins over the match config, rule by rule
+    config.rules = applyHouseRules(applyHouseRules(config.rules, match.rules ?? {}), houseRules);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  config.players = playersFlag ?? match.players?.length ?? 2;
+  if (config.players < 2 || config.players > 4) {
+    console.error('Players must be between 2 and 4');
+    process.exit(1);
+  }
+
+  try {
+    config.seats = resolveSeats(config.players, seatFlags, match.players ?? []);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  // A resumed game keeps its original seats and seed, and by default keeps saving to the same file
+  if (config.resumeFile) {
+    try {
+      const snapshot = readSnapshot(config.resumeFile);
+      config.seats = snapshot.seats;
+      config.players = snapshot.seats.length;
+      config.seed = snapshot.seed;
+      config.auction = snapshot.auction;
+      config.tradeWindow = snapshot.tradeWindow;
+      config.rules = snapshot.rules;
+      if (!argv.includes('--save-file')) config.saveFile = config.resumeFile;
+    } catch (error) {
+      console.error(`Cannot resume from ${config.resumeFile}: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  if (config.headless && config.seats.some(seat => seat.type === 'human')) {
+    console.error('Human seats need the Ink UI and cannot be used with --headless');
+    process.exit(1);
+  }
+
   return config;
 }
 
+/** `rules` with `overrides` applied, after checking each override is a known rule with a sensible value */
+export function applyHouseRules(rules: RuleSet, overrides: Partial<RuleSet>): RuleSet {
+  for (const [name, value] of Object.entries(overrides)) {
+    if (!(name in DEFAULT_RULES)) {
+      throw new Error(`Unknown house rule: ${name} (expected one of ${Object.keys(DEFAULT_RULES).join(', ')})`);
+    }
+    const expected = typeof DEFAULT_RULES[name as keyof RuleSet];
+    if (typeof value !== expected) {
+      throw new Error(`House rule ${name} must be a ${expected}`);
+    }
+    if (expected === 'number' && !(Number.isInteger(value) && (value as number) >= (name === 'maxJailTurns' ? 1 : 0))) {
+      throw new Error(`House rule ${name} must be a whole number${name === 'maxJailTurns' ? ' of at least 1' : ', not negative'}`);
+    }
+  }
+  return { ...rules, ...overrides };
+}
+
+/**
+ * Build each seat from, in priority order: per-seat CLI values, the match
+ * config entry for that seat, then defaults (seat name, first strategy
+ * profile in seat order, and the provider's default model).
+ */
+export function resolveSeats(
+  count: number,
+  flags: Partial<Record<SeatFlag, string[]>>,
+  matchSeats: Partial<SeatConfig>[],
+): SeatConfig[] {
+  const flagValue = (flag: SeatFlag, seat: number): string | undefined => {
+    const values = flags[flag];
+    if (!values) return undefined;
+    return values.length === 1 ? values[0] : values[seat];
+  };
+
+  const seats: SeatConfig[] = [];
+  for (let i = 0; i < count; i++) {
+    const preset = matchSeats[i] ?? {};
+    const temperatureFlag = flagValue('temperature', i);
+
+    const type = (flagValue('type', i) ?? preset.type ?? 'llm') as PlayerType;
+    if (type !== 'llm' && type !== 'human' && !SCRIPTED_STRATEGY_NAMES.includes(type)) {
+      throw new Error(`Unknown player type: ${type}`);
+    }
+
+    const provider = (flagValue('provider', i) ?? preset.provider ?? 'anthropic') as Provider;
+    if (!(provider in DEFAULT_MODELS)) {
+      throw new Error(`Unknown provider: ${provider}`);
+    }
+
+    const strategy = flagValue('strategy', i) ?? preset.strategy ?? DEFAULT_STRATEGIES[i % DEFAULT_STRATEGIES.length];
+    if (!STRATEGY_PROFILE_IDS.includes(strategy)) {
+      throw new Error(`Unknown strategy profile: ${strategy} (expected one of ${STRATEGY_PROFILE_IDS.join(', ')})`);
+    }
+
+    const temperature = temperatureFlag !== undefined ? parseFloat(temperatureFlag) : preset.temperature;
+    if (temperature !== undefined && !(Number.isFinite(temperature) && temperature >= 0 && temperature <= 2)) {
+      throw new Error(`Invalid temperature: ${temperatureFlag ?? temperature} (expected a number from 0 to 2)`);
+    }
+
+    seats.push({
+      name: flagValue('name', i) ?? preset.name ?? PLAYER_NAMES[i],
+      type,
+      provider,
+      model: flagValue('model', i) ?? preset.model ?? DEFAULT_MODELS[provider],
+      baseUrl: flagValue('baseUrl', i) ?? preset.baseUrl ?? null,
+      temperature,
+      strategy,
+    });
+  }
+  return seats;
+}
+
 function printHelp(): void {
   console.log(`
 Monopoly Eval — LLM vs LLM Monopoly Simulation
@@ -72,19 +334,57 @@ Usage: npx tsx src/index.ts [options]
 
 Options:
   --players <n>        Number of players (2-4, default: 2)
-  --model <model>      Anthropic model to use (default: claude-sonnet-4-20250514)
+  --match-config <p>   Load per-seat players and game settings from JSON file
   --max-turns <n>      Maximum turns before game ends (default: 500)
   --turn-delay <ms>    Delay between actions in ms (default: 500)
   --log-file <path>    Write game log to JSON file
   --seed <n>           Random seed for reproducible games
   --verbose            Show detailed LLM interactions
   --scenario-file <p>  Load initial game state from JSON file
+  --headless           No UI or delays; JSON-lines progress on stdout. Exit code:
+                       0 winner, 2 turn limit reached, 1 error
+  --autosave <n>       Save the game every n turns (default: 10, 0 = off)
+  --save-file <path>   Where autosaves go (default: monopoly-autosave.json)
+  --resume <path>      Continue a saved game (seats, seed, auction rules, house rules
+                       and trade window setting come from the save)
+  --auction <mode>     Auction format (default: ascending): ascending (open rounds of
+                       raises), sealed (hidden bids, winner pays own bid), vickrey
+                       (hidden bids, winner pays second-highest), dutch (price falls
+                       until someone takes it)
+  --min-increment <n>  Smallest raise in an ascending auction, smallest Dutch price
+                       step and Vickrey reserve (default: 10)
+  --bankruptcy-sales <r>
+                       What the bank does with a bankrupt player's properties:
+                       auction (default, sold off one by one) or unowned (left on
+                       the board unsold)
+  --trade-window       After each turn, give every player in seat order the chance
+                       to propose one trade (costs an extra model call per player)
+  --house-rules <p>    JSON file of house rules to play by, any of: freeParkingJackpot,
+                       doubleGoSalary, noRentInJail, mandatoryAuctions, evenBuild,
+                       speedDie (true/false), startingCash, salary, maxJailTurns
+                       (numbers)
+  --sink <s>           Extra output, repeatable: console, jsonl, jsonl:<path>, ws:<port>.
+                       With --headless, replaces the default stdout JSON lines
   --help               Show this help message
 
+Per-seat options (one value for every seat, or a comma list per seat):
+  --player-type <t>    llm, human, random, greedy, conservative, build-three (default: llm)
+  --provider <p>       LLM provider: anthropic or openai (default: anthropic)
+  --model <model>      Model to use (default: claude-sonnet-4-20250514, gpt-4o-mini for openai)
+  --base-url <url>     Base URL for an OpenAI-compatible server (e.g. http://localhost:8080/v1)
+  --temperature <t>    Sampling temperature, 0 to 2 (default: provider default)
+  --strategy <s>       Strategy profile: aggressive, railroad, trader, conservative
+                       (default: in seat order)
+  --name <name>        Display name (default: Alice, Bob, Charlie, Diana)
+
 Environment:
-  ANTHROPIC_API_KEY    Required. Your Anthropic API key.
+  ANTHROPIC_API_KEY    Required when any seat is an llm player on the anthropic provider.
+  OPENAI_API_KEY       Required for the openai provider unless --base-url points at a local server.
+  OPENAI_BASE_URL      Default for --base-url.
 
 Example:
   npx tsx src/index.ts --players 3 --model claude-sonnet-4-20250514 --seed 42
+  npx tsx src/index.ts --players 4 --player-type greedy,conservative,random,build-three --seed 7
+  npx tsx src/index.ts --model claude-sonnet-4-20250514,claude-haiku-4-5-20251001 --name Sonnet,Haiku
 `);
 }
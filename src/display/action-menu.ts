@@ -0,0 +1,162 @@
+import { AvailableAction, GameState, ParameterSchema } from '../engine/types';
+import { getSpace } from '../engine/board-data';
+import { describeImmunity } from '../engine/game-engine';
+import { DecisionContext } from '../llm/types';
+
+export interface MenuOption {
+  label: string;
+  value: string | number;
+}
+
+/**
+ * One parameter still to fill in for the chosen action. Inside a list of
+ * items the name is a path, e.g. `rent_immunities.0.count`; a count is how
+ * many items the list gets.
+ */
+export type ParamPrompt =
+  | { kind: 'select'; name: string; label: string; options: MenuOption[] }
+  | { kind: 'multiselect'; name: string; label: string; options: MenuOption[] }
+  | { kind: 'number'; name: string; label: string }
+  | { kind: 'count'; name: string; label: string };
+
+export function actionOptions(actions: AvailableAction[]): MenuOption[] {
+  return actions.map(a => ({ label: a.description, value: a.action }));
+}
+
+/**
+ * The next parameter of `action` not yet in `args`, or null once the call is
+ * complete. A parameter that stands in for others, like the sides of a
+ * multi-party deal, comes first and once given the others are not asked;
+ * then the required parameters, then the optional ones that leave something
+ * to choose. A list of items, such as rent waivers, is asked as a count and
+ * then field by field for each item. Positions and player ids
+ * are offered by name; properties to ask for in a trade are the chosen
+ * partner's unimproved ones.
+ */
+export function nextParamPrompt(
+  action: AvailableAction,
+  args: Record<string, unknown>,
+  state: GameState,
+): ParamPrompt | null {
+  const replaced = Object.entries(action.parameters ?? {})
+    .flatMap(([name, schema]) => (Array.isArray(args[name]) && args[name].length > 0 ? schema.replaces ?? [] : []));
+  const params = Object.entries(action.parameters ?? {}).filter(([name]) => !replaced.includes(name));
+  const isRequired = (name: string) => action.required?.includes(name) ?? false;
+  const standIns = params.filter(([, schema]) => schema.replaces);
+  const required = params.filter(([name, schema]) => !schema.replaces && isRequired(name));
+  const optional = params.filter(([name, schema]) => !schema.replaces && !isRequired(name) && (!schema.enum || schema.enum.length > 1));
+
+  for (const [name, schema] of [...standIns, ...required, ...optional]) {
+    const prompt = name in args ? itemPrompt(name, schema, args[name], state) : promptFor(name, schema, args, state);
+    if (prompt) return prompt;
+  }
+  return null;
+}
+
+/** `args` with the answer to `prompt` filled in; a count starts that many empty items */
+export function withAnswer(args: Record<string, unknown>, prompt: ParamPrompt, value: unknown): Record<string, unknown> {
+  const answer = prompt.kind === 'count' ? Array.from({ length: Number(value) }, () => ({})) : value;
+  const [name, index, field] = prompt.name.split('.');
+  if (field === undefined) return { ...args, [name]: answer };
+
+  const items = [...(args[name] as Record<string, unknown>[])];
+  items[Number(index)] = { ...items[Number(index)], [field]: answer };
+  return { ...args, [name]: items };
+}
+
+function promptFor(name: string, schema: ParameterSchema, args: Record<string, unknown>, state: GameState): ParamPrompt {
+  const label = schema.description;
+  if (schema.type === 'array' && schema.items?.type === 'object') {
+    return { kind: 'count', name, label: `${label} How many?` };
+  }
+  if (schema.type === 'array') {
+    const values = schema.items?.enum ?? partnerProperties(state, args.target_player_id);
+    return { kind: 'multiselect', name, label, options: optionsFor(state, values, schema.items?.enumLabels) };
+  }
+  if (schema.enum) {
+    return { kind: 'select', name, label, options: optionsFor(state, schema.enum, schema.enumLabels) };
+  }
+  return { kind: 'number', name, label };
+}
+
+/** The first field still empty on an item of a list already counted */
+function itemPrompt(name: string, schema: ParameterSchema, value: unknown, state: GameState): ParamPrompt | null {
+  const item = schema.items;
+  if (!item?.properties || !Array.isArray(value)) return null;
+  for (const [index, fields] of (value as Record<string, unknown>[]).entries()) {
+    for (const [field, fieldSchema] of Object.entries(item.properties)) {
+      if (field in fields) continue;
+      const prompt = promptFor(`${name}.${index}.${field}`, fieldSchema, fields, state);
+      return { ...prompt, label: `${item.description} ${index + 1}: ${prompt.label}` };
+    }
+  }
+  return null;
+}
+
+function partnerProperties(state: GameState, playerId: unknown): number[] {
+  const partner = state.players.find(p => p.id === playerId);
+  if (!partner) return [];
+  return Array.from(partner.properties.entries())
+    .filter(([, ps]) => ps.houses === 0)
+    .map(([pos]) => pos);
+}
+
+function optionsFor(state: GameState, values: (string | number)[], labels?: string[]): MenuOption[] {
+  return values.map((value, i) => (labels ? { label: labels[i], value } : optionFor(state, value)));
+}
+
+function optionFor(state: GameState, value: string | number): MenuOption {
+  if (typeof value === 'string') {
+    const player = state.players.find(p => p.id === value);
+    return { label: player ? player.name : value, value };
+  }
+  // A numeric choice without enum labels is a board position
+  return { label: `${getSpace(value).name} (${value})`, value };
+}
+
+/** The line above the menu: what is being decided, in words */
+export function describeDecision(playerName: string, context: DecisionContext): string {
+  const { state } = context;
+  const me = state.players.find(p => p.id === context.playerId)!;
+  const nameOf = (id: string) => state.players.find(p => p.id === id)?.name ?? id;
+  const places = (positions: number[]) => positions.map(p => getSpace(p).name);
+
+  switch (context.kind) {
+    case 'auction': {
+      const space = getSpace(context.auctionPosition ?? me.position);
+      const price = 'price' in space ? ` (list price $${space.price})` : '';
+      return `${playerName}, bid for ${space.name}${price} — you have $${me.balance}`;
+    }
+    case 'trade_response': {
+      const trade = state.activeTrade!;
+      if (trade.participants) {
+        const mine = trade.participants.find(p => p.playerId === context.playerId);
+        const gives = [...places(mine?.givesProperties ?? []), ...(mine?.givesMoney ? [`$${mine.givesMoney}`] : [])];
+        const gets = [...places(mine?.receivesProperties ?? []), ...(mine?.receivesMoney ? [`$${mine.receivesMoney}`] : [])];
+        return `${playerName}, ${nameOf(trade.fromPlayerId)}'s ${trade.participants.length}-way deal: you give ${gives.join(', ') || 'nothing'} and get ${gets.join(', ') || 'nothing'}`;
+      }
+      const cards = (n = 0) => (n > 0 ? [`${n} Get Out of Jail Free card${n === 1 ? '' : 's'}`] : []);
+      const gives = [...places(trade.offeredProperties), ...(trade.offeredMoney > 0 ? [`$${trade.offeredMoney}`] : []), ...cards(trade.offeredJailCards)];
+      const wants = [...places(trade.requestedProperties), ...(trade.requestedMoney > 0 ? [`$${trade.requestedMoney}`] : []), ...cards(trade.requestedJailCards)];
+      const terms = (trade.immunities ?? []).map(term => `; ${describeImmunity(state, term)}`).join('');
+      return `${playerName}, ${nameOf(trade.fromPlayerId)} offers ${gives.join(', ') || 'nothing'} for ${wants.join(', ') || 'nothing'}${terms}`;
+    }
+    case 'trade_window':
+      return `${playerName}, any trade to propose before the next turn?`;
+    case 'mortgage_decision': {
+      const { position } = state.mortgageTransfers!.pending[0];
+      return `${playerName}, you received ${getSpace(position).name} mortgaged — lift the mortgage now or keep it? You have $${me.balance}`;
+    }
+    case 'building_auction': {
+      const auction = state.buildingAuction!;
+      return `${playerName}, the bank is short — bid for its next ${auction.building} (high bid $${auction.highBid} by ${nameOf(auction.highBidderId)}) — you have $${me.balance}`;
+    }
+    case 'debt': {
+      const owed = state.pendingDebts!.queue.filter(d => d.debtorId === context.playerId);
+      const creditors = owed.map(d => `$${d.amount} to ${d.creditor === 'bank' ? 'the Bank' : nameOf(d.creditor)}`);
+      return `${playerName}, you owe ${creditors.join(', ')} — raise it or declare bankruptcy`;
+    }
+    case 'turn':
+      return `${playerName}'s move — $${me.balance}, on ${getSpace(me.position).name}`;
+  }
+}
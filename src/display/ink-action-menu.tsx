@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { AvailableAction } from '../engine/types';
+import { DecisionContext } from '../llm/types';
+import { HumanChoice } from '../llm/human-adapter';
+import { MenuOption, actionOptions, nextParamPrompt, withAnswer, describeDecision } from './action-menu';
+
+interface ActionMenuProps {
+  playerName: string;
+  context: DecisionContext;
+  onSubmit: (choice: HumanChoice) => void;
+}
+
+/** Pick one of the engine's available actions, then fill in its parameters one prompt at a time */
+export function ActionMenu({ playerName, context, onSubmit }: ActionMenuProps) {
+  const [action, setAction] = useState<AvailableAction | null>(null);
+  const [args, setArgs] = useState<Record<string, unknown>>({});
+  const [cursor, setCursor] = useState(0);
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  const [numberText, setNumberText] = useState('');
+
+  const prompt = action ? nextParamPrompt(action, args, context.state) : null;
+  const options: MenuOption[] = !action
+    ? actionOptions(context.actions)
+    : prompt && 'options' in prompt ? prompt.options : [];
+
+  const resetInput = () => {
+    setCursor(0);
+    setPicked(new Set());
+    setNumberText('');
+  };
+
+  // Record a value, then either move on to the next parameter or submit the call
+  const advance = (chosen: AvailableAction, nextArgs: Record<string, unknown>) => {
+    if (!nextParamPrompt(chosen, nextArgs, context.state)) {
+      onSubmit({ name: chosen.action, args: nextArgs });
+      return;
+    }
+    setAction(chosen);
+    setArgs(nextArgs);
+    resetInput();
+  };
+
+  useInput((input, key) => {
+    if (key.escape && action) {
+      setAction(null);
+      setArgs({});
+      resetInput();
+      return;
+    }
+    if (key.upArrow) setCursor(c => Math.max(0, c - 1));
+    if (key.downArrow) setCursor(c => Math.min(options.length - 1, c + 1));
+
+    if (!action) {
+      if (key.return && options.length > 0) advance(context.actions[cursor], {});
+      return;
+    }
+    if (!prompt) return;
+
+    if (prompt.kind === 'number' || prompt.kind === 'count') {
+      if (/^\d+$/.test(input)) setNumberText(t => t + input);
+      else if (key.backspace || key.delete) setNumberText(t => t.slice(0, -1));
+      else if (key.return) advance(action, withAnswer(args, prompt, parseInt(numberText || '0', 10)));
+    } else if (prompt.kind === 'multiselect') {
+      if (input === ' ' && options.length > 0) {
+        const next = new Set(picked);
+        if (next.has(cursor)) next.delete(cursor); else next.add(cursor);
+        setPicked(next);
+      } else if (key.return) {
+        const values = options.filter((_, i) => picked.has(i)).map(o => o.value);
+        advance(action, withAnswer(args, prompt, values));
+      }
+    } else if (key.return && options.length > 0) {
+      advance(action, withAnswer(args, prompt, options[cursor].value));
+    }
+  });
+
+  const heading = !action ? 'Choose an action' : prompt?.label ?? '';
+  const hint = !action
+    ? '↑/↓ move  Enter choose'
+    : prompt?.kind === 'number' || prompt?.kind === 'count'
+      ? 'type a number  Enter confirm  Esc back'
+      : prompt?.kind === 'multiselect'
+        ? '↑/↓ move  Space toggle  Enter confirm  Esc back'
+        : '↑/↓ move  Enter choose  Esc back';
+
+  return (
+    <Box flexDirection="column" marginTop={1} borderStyle="round" borderColor="green" paddingX={1}>
+      <Text bold color="green">{describeDecision(playerName, context)}</Text>
+      {action && <Text dimColor>{action.action}</Text>}
+      <Text>{heading}</Text>
+      {prompt?.kind === 'number' || prompt?.kind === 'count' ? (
+        <Text>{prompt.kind === 'number' ? '$ ' : ''}{numberText}<Text dimColor>_</Text></Text>
+      ) : prompt?.kind === 'multiselect' && options.length === 0 ? (
+        <Text dimColor>(nothing to choose — Enter to continue)</Text>
+      ) : (
+        options.map((option, i) => (
+          <Text key={String(option.value)} color={i === cursor ? 'cyan' : undefined}>
+            {i === cursor ? '› ' : '  '}
+            {prompt?.kind === 'multiselect' ? (picked.has(i) ? '[x] ' : '[ ] ') : ''}
+            {option.label}
+          </Text>
+        ))
+      )}
+      <Text dimColor>{hint}</Text>
+    </Box>
+  );
+}
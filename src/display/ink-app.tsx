@@ -4,6 +4,7 @@ import { Board } from './ink-board';
 import { PlayerPanel } from './ink-player-panel';
 import { EventLog } from './ink-event-log';
 import { StatsBar } from './ink-stats-bar';
+import { ActionMenu } from './ink-action-menu';
 import { InkRenderer, DisplayState } from './ink-renderer';
 
 interface AppProps {
@@ -43,6 +44,15 @@ export function App({ renderer }: AppProps) {
         state={displayState.gameState}
         thinkingPlayer={displayState.thinkingPlayer}
       />
+      {/* Human seat's turn: the menu replaces the thinking spinner */}
+      {displayState.humanPrompt && (
+        <ActionMenu
+          key={displayState.humanPrompt.id}
+          playerName={displayState.humanPrompt.playerName}
+          context={displayState.humanPrompt.context}
+          onSubmit={displayState.humanPrompt.submit}
+        />
+      )}
     </Box>
   );
 }
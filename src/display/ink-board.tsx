@@ -2,6 +2,7 @@ import React from 'react';
 import { Box, Text } from 'ink';
 import { GameState, PlayerState, PropertyState } from '../engine/types';
 import { BOARD_SPACES, getSpace, COLOR_GROUP_MEMBERS } from '../engine/board-data';
+import { speedDieLabel } from '../engine/dice';
 
 // Board cell layout positions:
 // Top row:    positions 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20
@@ -169,6 +170,20 @@ function Cell({ pos, state, width = CELL_W }: CellProps) {
   );
 }
 
+/** The last roll: the two white dice, plus the speed die when the variant is on */
+function Dice({ state }: { state: GameState }) {
+  if (!state.lastDiceRoll) return null;
+  const [die1, die2] = state.lastDiceRoll;
+  return (
+    <Box justifyContent="center" width={CELL_W * 9}>
+      <Text>
+        <Text bold>[{die1}] [{die2}]</Text>
+        {state.lastSpeedDie && <Text bold color="red"> [{speedDieLabel(state.lastSpeedDie)}]</Text>}
+      </Text>
+    </Box>
+  );
+}
+
 interface BoardProps {
   state: GameState;
 }
@@ -198,6 +213,7 @@ export function Board({ state }: BoardProps) {
                   <Text bold color="white">     M O N O P O L Y</Text>
                 </Box>
               )}
+              {i === 2 && <Dice state={state} />}
             </Box>
             <Cell pos={rightPos} state={state} />
           </Box>
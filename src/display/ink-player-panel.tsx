@@ -70,13 +70,13 @@ export function PlayerPanel({ state, thinkingPlayer }: PlayerPanelProps) {
               {player.inJail && (
                 <Box>
                   <Text>  </Text>
-                  <Text color="red">JAIL ({player.jailTurns + 1}/3)</Text>
+                  <Text color="red">JAIL (turn {player.jailTurns + 1})</Text>
                 </Box>
               )}
               <Box>
                 <Text>  </Text>
                 <Text dimColor>{player.properties.size} props</Text>
-                {player.getOutOfJailCards > 0 && <Text dimColor> | {player.getOutOfJailCards} GOOJF</Text>}
+                {player.jailCards.length > 0 && <Text dimColor> | {player.jailCards.length} GOOJF</Text>}
               </Box>
             </Box>
           );
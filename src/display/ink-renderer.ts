@@ -1,12 +1,19 @@
 import { GameState, GameEvent } from '../engine/types';
 import { getSpace } from '../engine/board-data';
+import { speedDieLabel } from '../engine/dice';
+import { GameObserver, UsageStats } from './observer';
+import { DecisionContext } from '../llm/types';
+import { HumanChoice, HumanPrompter } from '../llm/human-adapter';
 
-export interface UsageStats {
-  apiCalls: number;
-  inputTokens: number;
-  outputTokens: number;
-  cacheRead: number;
-  cacheWrite: number;
+export type { UsageStats } from './observer';
+
+/** A human seat waiting on the menu; `submit` hands the choice back to the game loop */
+export interface HumanPrompt {
+  /** Distinguishes consecutive prompts so the menu starts fresh each time */
+  id: number;
+  playerName: string;
+  context: DecisionContext;
+  submit: (choice: HumanChoice) => void;
 }
 
 export interface DisplayState {
@@ -17,12 +24,13 @@ export interface DisplayState {
   gameOver: boolean;
   gameOverSummary: string[];
   usage: UsageStats;
+  humanPrompt: HumanPrompt | null;
 }
 
 type Listener = () => void;
 
 /** Bridge between the imperative game loop and the reactive Ink UI */
-export class InkRenderer {
+export class InkRenderer implements GameObserver, HumanPrompter {
   private state: DisplayState = {
     gameState: null,
     eventLog: [],
@@ -31,9 +39,11 @@ export class InkRenderer {
     gameOver: false,
     gameOverSummary: [],
     usage: { apiCalls: 0, inputTokens: 0, outputTokens: 0, cacheRead: 0, cacheWrite: 0 },
+    humanPrompt: null,
   };
 
   private listeners: Set<Listener> = new Set();
+  private promptCount = 0;
 
   getState(): DisplayState {
     return this.state;
@@ -118,6 +128,18 @@ export class InkRenderer {
     this.notify();
   }
 
+  promptHuman(playerName: string, context: DecisionContext): Promise<HumanChoice> {
+    return new Promise(resolve => {
+      const submit = (choice: HumanChoice) => {
+        this.state = { ...this.state, humanPrompt: null };
+        this.notify();
+        resolve(choice);
+      };
+      this.state = { ...this.state, thinkingPlayer: null, humanPrompt: { id: ++this.promptCount, playerName, context, submit } };
+      this.notify();
+    });
+  }
+
   renderGameOver(state: GameState): void {
     this.state = { ...this.state, gameState: state, gameOver: true };
 
@@ -171,15 +193,23 @@ export class InkRenderer {
 
     switch (event.type) {
       case 'roll_dice':
-        return `🎲 ${pn(event.playerId)} rolled [${event.dice[0]}][${event.dice[1]}] = ${event.dice[0] + event.dice[1]}${event.doubles ? ' DOUBLES!' : ''}`;
+        return `🎲 ${pn(event.playerId)} rolled [${event.dice[0]}][${event.dice[1]}] = ${event.dice[0] + event.dice[1]}${event.speedDie ? ` + ${speedDieLabel(event.speedDie)}` : ''}${event.doubles ? ' DOUBLES!' : ''}`;
+      case 'mr_monopoly':
+        return event.property
+          ? `🎩 Mr. Monopoly → ${pn(event.playerId)} to ${event.property}`
+          : `🎩 Mr. Monopoly: nowhere for ${pn(event.playerId)} to go`;
       case 'move':
         return null;
       case 'land':
         return `📍 Landed on ${event.spaceName}`;
       case 'pass_go':
-        return `💰 Passed Go! +$200`;
+        return `💰 Passed Go! +$${event.collected}`;
       case 'pay_rent':
         return `💸 ${pn(event.payerId)} paid $${event.amount} rent to ${pn(event.ownerId)} (${event.property})`;
+      case 'rent_waived':
+        return `🛡️ ${pn(event.payerId)} pays ${pn(event.ownerId)} no rent (${event.property}, immunity: ${event.remaining} ${event.limit} left)`;
+      case 'rent_waived_in_jail':
+        return `🔒 ${pn(event.payerId)} pays ${pn(event.ownerId)} no rent (${event.property}, owner in jail)`;
       case 'buy_property':
         return `🏠 ${pn(event.playerId)} bought ${event.property} for $${event.price}`;
       case 'auction_start':
@@ -188,8 +218,18 @@ export class InkRenderer {
         return null;
       case 'auction_won':
         return `🔨 ${pn(event.playerId)} won ${event.property} at $${event.price}`;
+      case 'building_auction_start':
+        return `🏗️ Shortage: ${pn(event.playerId)}'s ${event.building} to auction (${event.bankSupply} left)`;
+      case 'building_bid':
+        return event.amount > 0 ? `  ${pn(event.playerId)} bids $${event.amount}` : `  ${pn(event.playerId)} drops out`;
+      case 'building_auction_won':
+        return `🏗️ ${pn(event.playerId)} won the ${event.building} for $${event.price} on ${event.property}`;
       case 'auction_no_bids':
         return `🔨 No bids on ${event.property}`;
+      case 'property_declined':
+        return `🚫 ${pn(event.playerId)} passed on ${event.property}`;
+      case 'auction_price':
+        return `🔨 ${event.property} now $${event.price}`;
       case 'build_house':
         return `🏗️ ${pn(event.playerId)} built on ${event.property} (${event.houses}H)`;
       case 'build_hotel':
@@ -208,10 +248,22 @@ export class InkRenderer {
         return `📋 ${pn(event.playerId)} mortgaged ${event.property} +$${event.received}`;
       case 'unmortgage':
         return `📋 ${pn(event.playerId)} unmortgaged ${event.property} -$${event.cost}`;
+      case 'mortgage_interest':
+        return `📋 ${pn(event.playerId)} kept ${event.property} mortgaged -$${event.amount}`;
       case 'trade_completed':
         return `🤝 Trade: ${event.fromPlayer} ↔ ${event.toPlayer}`;
       case 'trade_rejected':
         return `❌ ${event.toPlayer} rejected trade`;
+      case 'player_message':
+        return `💬 ${pn(event.fromPlayerId)} → ${event.toPlayerId ? pn(event.toPlayerId) : 'all'}: "${event.text}"`;
+      case 'trade_countered':
+        return `🔁 ${event.fromPlayer} countered: ${event.description}`;
+      case 'trade_agreed':
+        return `🤝 ${event.player} agreed, waiting on ${event.waitingOn}`;
+      case 'trade_failed':
+        return `❌ Trade fell through: ${event.reason}`;
+      case 'debt_paid':
+        return `💸 ${pn(event.debtorId)} paid off $${event.amount} to ${event.creditor === 'bank' ? 'Bank' : pn(event.creditor)}`;
       case 'bankruptcy':
         return `💀 ${pn(event.playerId)} BANKRUPT!`;
       case 'game_over':
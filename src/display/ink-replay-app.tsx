@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Box, Text, useApp, useInput } from 'ink';
+import { Board } from './ink-board';
+import { PlayerPanel } from './ink-player-panel';
+import { EventLog } from './ink-event-log';
+import {
+  ReplayTimeline, nextTurnFrame, prevTurnFrame, frameForTurn, describeFrame,
+} from '../replay/timeline';
+
+interface ReplayAppProps {
+  timeline: ReplayTimeline;
+  title: string;
+}
+
+const KEYS_HELP = '←/→ action  ↑/↓ turn  g jump to turn  Home/End start/end  q quit';
+
+export function ReplayApp({ timeline, title }: ReplayAppProps) {
+  const { exit } = useApp();
+  const { frames } = timeline;
+  const last = frames.length - 1;
+  const [index, setIndex] = useState(0);
+  // Digits typed after "g", or null when not entering a turn number
+  const [turnInput, setTurnInput] = useState<string | null>(null);
+
+  useInput((input, key) => {
+    if (turnInput !== null) {
+      if (key.return) {
+        const turn = parseInt(turnInput, 10);
+        if (!isNaN(turn)) setIndex(frameForTurn(frames, turn));
+        setTurnInput(null);
+      } else if (key.escape) {
+        setTurnInput(null);
+      } else if (key.backspace || key.delete) {
+        setTurnInput(turnInput.slice(0, -1));
+      } else if (/^\d+$/.test(input)) {
+        setTurnInput(turnInput + input);
+      }
+      return;
+    }
+
+    if (input === 'q' || key.escape) exit();
+    else if (key.rightArrow || input === 'l') setIndex(i => Math.min(i + 1, last));
+    else if (key.leftArrow || input === 'h') setIndex(i => Math.max(i - 1, 0));
+    else if (key.downArrow || input === 'j') setIndex(i => nextTurnFrame(frames, i));
+    else if (key.upArrow || input === 'k') setIndex(i => prevTurnFrame(frames, i));
+    else if (key.home) setIndex(0);
+    else if (key.end) setIndex(last);
+    else if (input === 'g') setTurnInput('');
+  });
+
+  const frame = frames[index];
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text bold color="white">REPLAY </Text>
+        <Text>{title}</Text>
+        <Text dimColor>  step {index}/{last}  turn {frame.turnNumber}  </Text>
+        <Text color="cyan">{describeFrame(frame)}</Text>
+      </Box>
+      {timeline.divergence && (
+        <Text color="yellow">
+          ⚠ Engine diverges from the log at entry {timeline.divergence.entryIndex} ({timeline.divergence.message}) — replay stops there
+        </Text>
+      )}
+      <Box>
+        <Board state={frame.state} />
+        <Box flexDirection="column" paddingLeft={2} width={40}>
+          <EventLog events={timeline.eventLog.slice(0, frame.logLength)} />
+        </Box>
+      </Box>
+      <PlayerPanel state={frame.state} thinkingPlayer={null} />
+      <Box flexDirection="column" marginTop={1}>
+        <Text bold color="white">Reasoning</Text>
+        {frame.reasoning.length > 0
+          ? frame.reasoning.map((text, i) => <Text key={i} wrap="wrap">{text}</Text>)
+          : <Text dimColor>(none recorded)</Text>}
+      </Box>
+      <Box marginTop={1}>
+        {turnInput !== null
+          ? <Text>Jump to turn: {turnInput}<Text dimColor>_  (Enter to go, Esc to cancel)</Text></Text>
+          : <Text dimColor>{KEYS_HELP}</Text>}
+      </Box>
+    </Box>
+  );
+}
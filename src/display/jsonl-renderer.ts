@@ -0,0 +1,105 @@
+import { GameState, GameEvent } from '../engine/types';
+import { getSpace } from '../engine/board-data';
+import { GameObserver, UsageStats } from './observer';
+
+/**
+ * Headless renderer: one JSON object per line, for scripts and CI to follow a
+ * game as it runs. Every record has a `type`; most carry the turn number.
+ */
+export class JsonlRenderer implements GameObserver {
+  private write: (line: string) => void;
+  private usage: UsageStats | null = null;
+  private turnNumber = 0;
+
+  constructor(write: (line: string) => void = line => process.stdout.write(line + '\n')) {
+    this.write = write;
+  }
+
+  private emit(record: Record<string, unknown>): void {
+    this.writeLine(JSON.stringify(record));
+  }
+
+  /** Where each line goes. Subclasses can send lines somewhere other than a write function. */
+  protected writeLine(line: string): void {
+    this.write(line);
+  }
+
+  renderGameStart(state: GameState): void {
+    this.turnNumber = state.turnNumber;
+    this.emit({
+      type: 'game_start',
+      players: state.players.map(p => ({ id: p.id, name: p.name, balance: p.balance })),
+    });
+  }
+
+  renderTurnStart(state: GameState): void {
+    this.turnNumber = state.turnNumber;
+    const player = state.players[state.currentPlayerIndex];
+    this.emit({
+      type: 'turn_start',
+      turn: state.turnNumber,
+      playerId: player.id,
+      player: player.name,
+      position: player.position,
+      space: getSpace(player.position).name,
+      balance: player.balance,
+      inJail: player.inJail,
+    });
+  }
+
+  renderEvents(events: GameEvent[], state: GameState): void {
+    for (const event of events) {
+      this.emit({ type: 'event', turn: state.turnNumber, event });
+    }
+  }
+
+  renderPlayerStatus(state: GameState): void {
+    this.emit({ type: 'player_status', turn: state.turnNumber, players: summarizePlayers(state) });
+  }
+
+  renderAction(playerName: string, actionName: string, args?: Record<string, unknown>): void {
+    this.emit({ type: 'action', turn: this.turnNumber, player: playerName, action: actionName, args: args ?? {} });
+  }
+
+  renderActionError(error: string): void {
+    this.emit({ type: 'message', turn: this.turnNumber, text: error });
+  }
+
+  // Thinking spinners mean nothing off-screen, so renderLLMThinking/renderLLMDone are left out
+
+  renderAuctionStart(propertyName: string): void {
+    this.emit({ type: 'auction_start', turn: this.turnNumber, property: propertyName });
+  }
+
+  renderBid(playerName: string, amount: number): void {
+    this.emit({ type: 'bid', turn: this.turnNumber, player: playerName, amount });
+  }
+
+  renderUsage(usage: UsageStats): void {
+    this.usage = usage;
+  }
+
+  renderGameOver(state: GameState): void {
+    const winner = state.winner ? state.players.find(p => p.id === state.winner) : null;
+    this.emit({
+      type: 'game_over',
+      turns: state.turnNumber,
+      winnerId: winner?.id ?? null,
+      winner: winner?.name ?? null,
+      reason: winner ? 'winner' : 'turn_limit',
+      players: summarizePlayers(state),
+      usage: this.usage,
+    });
+  }
+}
+
+function summarizePlayers(state: GameState) {
+  return state.players.map(p => ({
+    id: p.id,
+    name: p.name,
+    balance: p.balance,
+    position: p.position,
+    properties: [...p.properties.keys()],
+    bankrupt: p.isBankrupt,
+  }));
+}
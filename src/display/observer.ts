@@ -0,0 +1,125 @@
+import { GameState, GameEvent } from '../engine/types';
+
+export interface UsageStats {
+  apiCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * Everything the game loop reports while it runs. Every hook is optional so a
+ * sink only implements what it cares about; the console `Renderer`, the Ink
+ * bridge and the JSON-lines renderer implement all of them.
+ */
+export interface GameObserver {
+  renderGameStart?(state: GameState): void;
+  renderTurnStart?(state: GameState): void;
+  renderAction?(playerName: string, actionName: string, args?: Record<string, unknown>): void;
+  renderActionError?(error: string): void;
+  renderEvents?(events: GameEvent[], state: GameState): void;
+  renderPlayerStatus?(state: GameState): void;
+  renderLLMThinking?(playerName: string): void;
+  renderLLMDone?(): void;
+  renderAuctionStart?(propertyName: string): void;
+  renderBid?(playerName: string, amount: number): void;
+  renderUsage?(usage: UsageStats): void;
+  renderGameOver?(state: GameState): void;
+  /** Release files, sockets, etc. once the game is over */
+  close?(): void | Promise<void>;
+}
+
+type Hook = Exclude<keyof GameObserver, 'close'>;
+
+/**
+ * Fans every hook out to any number of attached observers. A sink that
+ * throws is reported once on stderr and detached, so a dropped socket or
+ * full disk can't stop the game.
+ */
+export class ObserverBus implements Required<GameObserver> {
+  private observers: GameObserver[] = [];
+
+  constructor(observers: GameObserver[] = []) {
+    for (const observer of observers) this.attach(observer);
+  }
+
+  attach(observer: GameObserver): () => void {
+    this.observers.push(observer);
+    return () => this.detach(observer);
+  }
+
+  detach(observer: GameObserver): void {
+    this.observers = this.observers.filter(o => o !== observer);
+  }
+
+  get size(): number {
+    return this.observers.length;
+  }
+
+  private emit<K extends Hook>(hook: K, ...args: Parameters<NonNullable<GameObserver[K]>>): void {
+    for (const observer of [...this.observers]) {
+      const fn = observer[hook] as ((...a: unknown[]) => void) | undefined;
+      if (!fn) continue;
+      try {
+        fn.apply(observer, args);
+      } catch (error) {
+        this.detach(observer);
+        const msg = error instanceof Error ? error.message : String(error);
+        console.error(`Observer ${observer.constructor.name} failed in ${hook} and was detached: ${msg}`);
+      }
+    }
+  }
+
+  renderGameStart(state: GameState): void {
+    this.emit('renderGameStart', state);
+  }
+
+  renderTurnStart(state: GameState): void {
+    this.emit('renderTurnStart', state);
+  }
+
+  renderAction(playerName: string, actionName: string, args?: Record<string, unknown>): void {
+    this.emit('renderAction', playerName, actionName, args);
+  }
+
+  renderActionError(error: string): void {
+    this.emit('renderActionError', error);
+  }
+
+  renderEvents(events: GameEvent[], state: GameState): void {
+    this.emit('renderEvents', events, state);
+  }
+
+  renderPlayerStatus(state: GameState): void {
+    this.emit('renderPlayerStatus', state);
+  }
+
+  renderLLMThinking(playerName: string): void {
+    this.emit('renderLLMThinking', playerName);
+  }
+
+  renderLLMDone(): void {
+    this.emit('renderLLMDone');
+  }
+
+  renderAuctionStart(propertyName: string): void {
+    this.emit('renderAuctionStart', propertyName);
+  }
+
+  renderBid(playerName: string, amount: number): void {
+    this.emit('renderBid', playerName, amount);
+  }
+
+  renderUsage(usage: UsageStats): void {
+    this.emit('renderUsage', usage);
+  }
+
+  renderGameOver(state: GameState): void {
+    this.emit('renderGameOver', state);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.observers.map(o => o.close?.()));
+  }
+}
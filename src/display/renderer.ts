@@ -1,11 +1,13 @@
 import chalk from 'chalk';
 import { GameState, GameEvent, PlayerState } from '../engine/types';
 import { getSpace, BOARD_SPACES, COLOR_GROUP_MEMBERS } from '../engine/board-data';
+import { speedDieLabel } from '../engine/dice';
 import { PLAYER_COLORS, COLOR_MAP, BOLD, MONEY, DANGER, DIM } from './colors';
+import { GameObserver } from './observer';
 
 const DIVIDER = chalk.dim('─'.repeat(80));
 
-export class Renderer {
+export class Renderer implements GameObserver {
   private verbose: boolean;
 
   constructor(verbose: boolean = false) {
@@ -40,7 +42,7 @@ export class Renderer {
     console.log(BOLD(color(`━━━ TURN ${state.turnNumber}: ${player.name}'s turn ━━━`)));
     console.log(`  Position: ${space.name} (${player.position}) | Balance: ${MONEY(`$${player.balance}`)} | Properties: ${player.properties.size}`);
     if (player.inJail) {
-      console.log(DANGER(`  🔒 IN JAIL (attempt ${player.jailTurns + 1}/3)`));
+      console.log(DANGER(`  🔒 IN JAIL (attempt ${player.jailTurns + 1})`));
     }
   }
 
@@ -172,15 +174,23 @@ export class Renderer {
 
     switch (event.type) {
       case 'roll_dice':
-        return `🎲 ${pn(event.playerId)} rolled [${event.dice[0]}][${event.dice[1]}] = ${event.dice[0] + event.dice[1]}${event.doubles ? BOLD(' DOUBLES!') : ''}`;
+        return `🎲 ${pn(event.playerId)} rolled [${event.dice[0]}][${event.dice[1]}] = ${event.dice[0] + event.dice[1]}${event.speedDie ? ` + speed die ${BOLD(speedDieLabel(event.speedDie))}` : ''}${event.doubles ? BOLD(' DOUBLES!') : ''}`;
+      case 'mr_monopoly':
+        return event.property
+          ? `🎩 Mr. Monopoly sends ${pn(event.playerId)} on to ${BOLD(event.property)}`
+          : `🎩 Mr. Monopoly has nowhere to send ${pn(event.playerId)}`;
       case 'move':
         return null; // Suppress move events (land event is more useful)
       case 'land':
         return `📍 Landed on ${BOLD(event.spaceName)}`;
       case 'pass_go':
-        return `💰 Passed Go! Collected ${MONEY('$200')}`;
+        return `💰 Passed Go! Collected ${MONEY(`$${event.collected}`)}`;
       case 'pay_rent':
         return `💸 ${pn(event.payerId)} paid ${DANGER(`$${event.amount}`)} rent to ${pn(event.ownerId)} for ${event.property}`;
+      case 'rent_waived':
+        return `🛡️  ${pn(event.payerId)} owes ${pn(event.ownerId)} no rent for ${event.property} ${DIM(`(traded immunity, ${event.remaining} ${event.limit} left)`)}`;
+      case 'rent_waived_in_jail':
+        return `🔒 ${pn(event.payerId)} owes ${pn(event.ownerId)} no rent for ${event.property} ${DIM('(owner in jail)')}`;
       case 'buy_property':
         return `🏠 ${pn(event.playerId)} bought ${BOLD(event.property)} for ${MONEY(`$${event.price}`)}`;
       case 'auction_start':
@@ -189,8 +199,18 @@ export class Renderer {
         return null; // Handled by renderBid
       case 'auction_won':
         return `🔨 ${pn(event.playerId)} won auction for ${BOLD(event.property)} at ${MONEY(`$${event.price}`)}`;
+      case 'building_auction_start':
+        return `🏗️  Housing shortage — ${pn(event.playerId)}'s ${event.building} goes to auction (${event.bankSupply} left in the bank)`;
+      case 'building_bid':
+        return event.amount > 0 ? `   ${pn(event.playerId)} bids ${MONEY(`$${event.amount}`)}` : `   ${pn(event.playerId)} drops out`;
+      case 'building_auction_won':
+        return `🏗️  ${pn(event.playerId)} won the ${event.building} for ${MONEY(`$${event.price}`)} and built on ${BOLD(event.property)}`;
       case 'auction_no_bids':
         return `🔨 No bids on ${event.property} — remains unowned`;
+      case 'property_declined':
+        return `🚫 ${pn(event.playerId)} declined ${event.property} — remains unowned`;
+      case 'auction_price':
+        return `🔨 Asking price for ${event.property} drops to ${MONEY(`$${event.price}`)}`;
       case 'build_house':
         return `🏗️  ${pn(event.playerId)} built house on ${event.property} (${event.houses} houses)`;
       case 'build_hotel':
@@ -209,10 +229,22 @@ export class Renderer {
         return `📋 ${pn(event.playerId)} mortgaged ${event.property} for ${MONEY(`$${event.received}`)}`;
       case 'unmortgage':
         return `📋 ${pn(event.playerId)} unmortgaged ${event.property} for ${DANGER(`$${event.cost}`)}`;
+      case 'mortgage_interest':
+        return `📋 ${pn(event.playerId)} kept ${event.property} mortgaged, paying ${DANGER(`$${event.amount}`)} interest`;
       case 'trade_completed':
         return `🤝 Trade completed: ${event.fromPlayer} ↔ ${event.toPlayer}: ${event.description}`;
       case 'trade_rejected':
         return `❌ ${event.toPlayer} rejected trade from ${event.fromPlayer}`;
+      case 'player_message':
+        return `💬 ${pn(event.fromPlayerId)} → ${event.toPlayerId ? pn(event.toPlayerId) : 'everyone'}: ${DIM(`"${event.text}"`)}`;
+      case 'trade_countered':
+        return `🔁 ${event.fromPlayer} countered ${event.toPlayer}: ${event.description}`;
+      case 'trade_agreed':
+        return `🤝 ${event.player} agreed — waiting on ${event.waitingOn}`;
+      case 'trade_failed':
+        return `❌ Trade from ${event.fromPlayer} fell through: ${event.reason}`;
+      case 'debt_paid':
+        return `💸 ${pn(event.debtorId)} paid off ${DANGER(`$${event.amount}`)} owed to ${event.creditor === 'bank' ? 'the Bank' : pn(event.creditor)}: ${event.reason}`;
       case 'bankruptcy':
         return DANGER(`💀 ${pn(event.playerId)} declared BANKRUPTCY!`);
       case 'game_over':
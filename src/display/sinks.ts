@@ -0,0 +1,58 @@
+import { appendFileSync, writeFileSync } from 'fs';
+import { GameObserver } from './observer';
+import { Renderer } from './renderer';
+import { JsonlRenderer } from './jsonl-renderer';
+import { WebSocketSink } from './websocket-sink';
+
+/**
+ * --sink values:
+ *   console        plain-text console output
+ *   jsonl          JSON lines on stdout
+ *   jsonl:<path>   JSON lines appended to a file (truncated at start)
+ *   ws:<port>      JSON lines over a WebSocket server
+ */
+export type SinkSpec =
+  | { kind: 'console' }
+  | { kind: 'jsonl'; path: string | null }
+  | { kind: 'ws'; port: number };
+
+export function parseSinkSpec(spec: string): SinkSpec {
+  const [kind, ...rest] = spec.split(':');
+  const arg = rest.join(':');
+
+  switch (kind) {
+    case 'console':
+      return { kind: 'console' };
+    case 'jsonl':
+      return { kind: 'jsonl', path: arg && arg !== '-' ? arg : null };
+    case 'ws': {
+      const port = parseInt(arg, 10);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid WebSocket port in sink "${spec}"`);
+      }
+      return { kind: 'ws', port };
+    }
+    default:
+      throw new Error(`Unknown sink "${spec}" (expected console, jsonl[:<path>] or ws:<port>)`);
+  }
+}
+
+/** True when the sink prints to stdout and would fight with the Ink UI */
+export function writesToStdout(spec: SinkSpec): boolean {
+  return spec.kind === 'console' || (spec.kind === 'jsonl' && spec.path === null);
+}
+
+export function createSink(spec: SinkSpec, verbose = false): GameObserver {
+  switch (spec.kind) {
+    case 'console':
+      return new Renderer(verbose);
+    case 'jsonl': {
+      const path = spec.path;
+      if (!path) return new JsonlRenderer();
+      writeFileSync(path, '');
+      return new JsonlRenderer(line => appendFileSync(path, line + '\n'));
+    }
+    case 'ws':
+      return new WebSocketSink(spec.port);
+  }
+}
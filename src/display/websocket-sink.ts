@@ -0,0 +1,45 @@
+import type { Server } from 'bun';
+import { JsonlRenderer } from './jsonl-renderer';
+
+const TOPIC = 'game';
+
+/**
+ * Serves the JSON-lines records over a WebSocket, one record per message.
+ * Clients that connect mid-game are sent everything so far first, so a
+ * dashboard can attach at any time and rebuild the full picture.
+ */
+export class WebSocketSink extends JsonlRenderer {
+  private server: Server<undefined>;
+  private backlog: string[] = [];
+
+  constructor(port: number) {
+    super();
+    this.server = Bun.serve({
+      port,
+      fetch(req, server) {
+        if (server.upgrade(req)) return undefined;
+        return new Response('Monopoly Eval event stream: connect with a WebSocket client', { status: 426 });
+      },
+      websocket: {
+        open: ws => {
+          for (const line of this.backlog) ws.send(line);
+          ws.subscribe(TOPIC);
+        },
+        message() {},
+      },
+    });
+  }
+
+  get port(): number {
+    return this.server.port ?? 0;
+  }
+
+  protected writeLine(line: string): void {
+    this.backlog.push(line);
+    this.server.publish(TOPIC, line);
+  }
+
+  close(): void {
+    this.server.stop(true);
+  }
+}
@@ -122,6 +122,7 @@ export function cloneState(state: GameState): GameState {
       properties: new Map(
         Array.from(p.properties.entries()).map(([k, v]) => [k, { ...v }]),
       ),
+      jailCards: p.jailCards.map(c => ({ ...c })),
     })),
     lastDiceRoll: state.lastDiceRoll ? [...state.lastDiceRoll] : null,
     chanceDeck: [...state.chanceDeck],
@@ -129,7 +130,25 @@ export function cloneState(state: GameState): GameState {
     chanceDiscardPile: [...state.chanceDiscardPile],
     communityChestDiscardPile: [...state.communityChestDiscardPile],
     activeTrade: state.activeTrade ? { ...state.activeTrade } : null,
-    pendingDebt: state.pendingDebt ? { ...state.pendingDebt } : null,
+    negotiation: state.negotiation
+      ? { thread: [...state.negotiation.thread], acceptedBy: [...state.negotiation.acceptedBy] }
+      : null,
+    rentImmunities: state.rentImmunities.map(i => ({ ...i })),
+    tradeWindow: state.tradeWindow ? { proposers: [...state.tradeWindow.proposers] } : null,
+    mortgageTransfers: state.mortgageTransfers
+      ? { ...state.mortgageTransfers, pending: state.mortgageTransfers.pending.map(m => ({ ...m })) }
+      : null,
+    bankAuctions: state.bankAuctions ? { ...state.bankAuctions, positions: [...state.bankAuctions.positions] } : null,
+    buildingAuction: state.buildingAuction
+      ? { ...state.buildingAuction, bidders: [...state.buildingAuction.bidders], placements: { ...state.buildingAuction.placements } }
+      : null,
+    messagesThisTurn: { ...state.messagesThisTurn },
+    pendingDebts: state.pendingDebts
+      ? { ...state.pendingDebts, queue: state.pendingDebts.queue.map(d => ({ ...d })) }
+      : null,
+    auction: state.auction
+      ? { ...state.auction, bidders: [...state.auction.bidders], sealedBids: { ...state.auction.sealedBids } }
+      : null,
     gameLog: [...state.gameLog],
   };
 }
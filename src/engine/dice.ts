@@ -1,29 +1,148 @@
+/**
+ * Speed die faces: 1-3 add to the white dice, Mr. Monopoly sends the player
+ * on to the next unowned property after the first landing, and the bus lets
+ * them move by either white die or both. The die has two Mr. Monopoly faces.
+ */
+export type SpeedDieFace = 1 | 2 | 3 | 'mr_monopoly' | 'bus';
+
+const SPEED_DIE_FACES: SpeedDieFace[] = [1, 2, 3, 'mr_monopoly', 'mr_monopoly', 'bus'];
+
+/** "2", "Mr. Monopoly" or "Bus" */
+export function speedDieLabel(face: SpeedDieFace): string {
+  if (face === 'mr_monopoly') return 'Mr. Monopoly';
+  if (face === 'bus') return 'Bus';
+  return String(face);
+}
+
 export interface DiceRoll {
+  /** The two white dice; doubles and utility rent go by these alone */
   dice: [number, number];
   sum: number;
   isDoubles: boolean;
+  /** Only rolled under the speed die rule */
+  speedDie?: SpeedDieFace;
+}
+
+/** Independent random streams, so e.g. an extra shuffle never shifts the dice */
+export type RngStream = 'dice' | 'chance' | 'community_chest' | 'tiebreak';
+
+export const RNG_STREAMS: RngStream[] = ['dice', 'chance', 'community_chest', 'tiebreak'];
+
+/** Serializable RNG position: the seed plus each stream's mulberry32 state */
+export interface RngState {
+  seed: number;
+  streams: Record<RngStream, number>;
+}
+
+/** Anything that can supply randomness: a GameRng, or a bare function (tests) shared by every stream */
+export type RngSource = GameRng | (() => number);
+
+// One mulberry32 step: returns the next internal state and the output in [0, 1)
+function mulberry32(s: number): [number, number] {
+  const next = (s + 0x6d2b79f5) | 0;
+  let t = Math.imul(next ^ (next >>> 15), 1 | next);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return [next, ((t ^ (t >>> 14)) >>> 0) / 4294967296];
 }
 
+// FNV-1a, to give each stream its own starting state from one seed
+function hashName(name: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    h = Math.imul(h ^ name.charCodeAt(i), 0x01000193);
+  }
+  return h | 0;
+}
+
+/**
+ * Seeded game RNG with one mulberry32 generator per named stream. The whole
+ * position can be read with getState() and restored with setState(), so a
+ * saved or replayed game continues bit-for-bit.
+ */
+export class GameRng {
+  private seed: number;
+  private streams: Record<RngStream, number>;
+
+  constructor(seed: number) {
+    this.seed = seed | 0;
+    this.streams = {} as Record<RngStream, number>;
+    for (const name of RNG_STREAMS) {
+      this.streams[name] = (this.seed ^ hashName(name)) | 0;
+    }
+  }
+
+  static fromState(state: RngState): GameRng {
+    const rng = new GameRng(state.seed);
+    rng.setState(state);
+    return rng;
+  }
+
+  next(stream: RngStream): number {
+    const [state, value] = mulberry32(this.streams[stream]);
+    this.streams[stream] = state;
+    return value;
+  }
+
+  /** A `() => number` view of one stream, for helpers like rollDice and createShuffledDeck */
+  stream(name: RngStream): () => number {
+    return () => this.next(name);
+  }
+
+  getState(): RngState {
+    return { seed: this.seed, streams: { ...this.streams } };
+  }
+
+  setState(state: RngState): void {
+    this.seed = state.seed;
+    this.streams = { ...state.streams };
+  }
+}
+
+export function streamOf(source: RngSource, name: RngStream): () => number {
+  return typeof source === 'function' ? source : source.stream(name);
+}
+
+/** Single-stream seeded RNG whose position can be saved, e.g. a scripted player's */
+export class SeededRng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed | 0;
+  }
+
+  next(): number {
+    const [state, value] = mulberry32(this.state);
+    this.state = state;
+    return value;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state;
+  }
+}
+
+/** Single-stream closure RNG, for code that doesn't need to save its position */
 export function createRng(seed?: number): () => number {
   if (seed === undefined) {
     return Math.random;
   }
-  // Simple seeded PRNG (mulberry32)
-  let s = seed | 0;
-  return () => {
-    s = (s + 0x6d2b79f5) | 0;
-    let t = Math.imul(s ^ (s >>> 15), 1 | s);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
+  const rng = new SeededRng(seed);
+  return () => rng.next();
 }
 
-export function rollDice(rng: () => number): DiceRoll {
+/** Roll the two white dice, and the speed die after them when `speedDie` is set */
+export function rollDice(rng: () => number, speedDie = false): DiceRoll {
   const die1 = Math.floor(rng() * 6) + 1;
   const die2 = Math.floor(rng() * 6) + 1;
-  return {
+  const roll: DiceRoll = {
     dice: [die1, die2],
     sum: die1 + die2,
     isDoubles: die1 === die2,
   };
+  if (speedDie) roll.speedDie = SPEED_DIE_FACES[Math.floor(rng() * 6)];
+  return roll;
 }
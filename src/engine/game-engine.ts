@@ -1,7 +1,7 @@
 import {
   GameState, GameAction, ActionResult, GameEvent, AvailableAction,
-  TurnPhase, PlayerState, PropertySpace, TradeOffer, PendingDebt,
-  OwnableSpace, CardEffect,
+  BankruptcySales, TurnPhase, PlayerState, PropertyState, PropertySpace, TradeOffer, TradeParticipant, ImmunityTerm, RentImmunity, Debt, BuildingAuction, ReceivedMortgage,
+  OwnableSpace, Card, JailCard, AuctionMode, AuctionRules, AuctionState, ParameterSchema, RuleSet,
 } from './types';
 import {
   BOARD_SPACES, COLOR_GROUP_MEMBERS, RAILROAD_POSITIONS, UTILITY_POSITIONS,
@@ -14,14 +14,176 @@ import {
   playerOwnsColorGroup, countHousesAndHotels, getActivePlayers,
 } from './bank';
 import { calculateRent } from './rent-calculator';
-import { rollDice, DiceRoll } from './dice';
+import { rollDice, DiceRoll, RngSource, RngStream, streamOf } from './dice';
 import { CHANCE_CARDS, COMMUNITY_CHEST_CARDS, drawCard } from './cards';
 
-export class GameEngine {
-  private rng: () => number;
+export const AUCTION_MODES: AuctionMode[] = ['ascending', 'sealed', 'vickrey', 'dutch'];
+
+export const BANKRUPTCY_SALES: BankruptcySales[] = ['auction', 'unowned'];
+
+export const DEFAULT_AUCTION_RULES: AuctionRules = { mode: 'ascending', minIncrement: 10, bankruptcySales: 'auction' };
+
+/** The official rules */
+export const DEFAULT_RULES: RuleSet = {
+  freeParkingJackpot: false,
+  doubleGoSalary: false,
+  noRentInJail: false,
+  mandatoryAuctions: true,
+  startingCash: 1500,
+  salary: 200,
+  evenBuild: true,
+  maxJailTurns: 3,
+  speedDie: false,
+};
+
+/** Counter-offers allowed on one deal before the last version must be accepted or rejected */
+export const MAX_COUNTER_OFFERS = 3;
+
+/** Longest rent immunity a trade can grant, in landings or turns */
+export const MAX_IMMUNITY_COUNT = 10;
+
+/**
+ * Optional trade terms beyond properties and cash, shared by offers and
+ * counter-offers: up to as many Get Out of Jail Free cards as each side
+ * holds, and rent waivers on any of `properties`
+ */
+function tradeExtraParameters(offerableCards: number, requestableCards: number, properties: number[]): Record<string, ParameterSchema> {
+  const upTo = (max: number) => Array.from({ length: max + 1 }, (_, n) => n);
+  const cardLabels = (max: number) => upTo(max).map(n => (n === 0 ? 'None' : `${n} card${n === 1 ? '' : 's'}`));
+  return {
+    offered_jail_cards: {
+      type: 'number',
+      description: 'Get Out of Jail Free cards you are offering (optional).',
+      enum: upTo(offerableCards),
+      enumLabels: cardLabels(offerableCards),
+    },
+    requested_jail_cards: {
+      type: 'number',
+      description: 'Get Out of Jail Free cards you are requesting (optional).',
+      enum: upTo(requestableCards),
+      enumLabels: cardLabels(requestableCards),
+    },
+    rent_immunities: {
+      type: 'array',
+      description: 'Optional rent waivers on properties the other side owns after the trade.',
+      items: {
+        type: 'object',
+        description: 'Rent waiver',
+        properties: {
+          property_position: { type: 'number', description: 'Board position of the property', enum: properties },
+          beneficiary: { type: 'string', description: 'Who pays no rent there', enum: ['me', 'them'] },
+          limit: { type: 'string', description: 'What the count measures', enum: ['landings', 'turns'] },
+          count: { type: 'number', description: `How many landings or turns (1-${MAX_IMMUNITY_COUNT})` },
+        },
+        required: ['property_position', 'beneficiary', 'limit', 'count'],
+      },
+    },
+  };
+}
+
+/** Table talk: messages each player may send per turn, and how long each may be */
+export const MAX_MESSAGES_PER_TURN = 2;
+export const MAX_MESSAGE_LENGTH = 500;
+
+/** "Player1 pays no rent on Boardwalk for 3 landings" */
+export function describeImmunity(state: GameState, term: ImmunityTerm): string {
+  const beneficiary = state.players.find(p => p.id === term.beneficiaryId)?.name ?? term.beneficiaryId;
+  const unit = term.limit === 'landings' ? 'landing' : 'turn';
+  return `${beneficiary} pays no rent on ${getSpace(term.position).name} for ${term.count} ${unit}${term.count === 1 ? '' : 's'}`;
+}
+
+/** 1st, 2nd, 3rd, 4th... */
+function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+/** Speed die bus: the distances on offer — either white die, or both */
+function busChoices([die1, die2]: [number, number]): number[] {
+  return [...new Set([die1, die2, die1 + die2])];
+}
+
+/** How far a Dutch auction's asking price falls each time everyone passes */
+export function dutchPriceStep(listPrice: number, minIncrement: number): number {
+  return Math.max(minIncrement, Math.round(listPrice / 10));
+}
+
+function isSealedBid(mode: AuctionMode): boolean {
+  return mode === 'sealed' || mode === 'vickrey';
+}
 
-  constructor(rng: () => number) {
+/** The 10% a player pays on taking over a mortgaged property, whether or not they lift the mortgage */
+function mortgageInterest(position: number): number {
+  return Math.floor((getSpace(position) as OwnableSpace).mortgageValue / 10);
+}
+
+/** What a property is worth to whoever inherits it from a bankrupt player: its equity plus its buildings */
+function estateValue(position: number, propState: PropertyState): number {
+  const space = getSpace(position) as OwnableSpace;
+  const buildings = space.type === 'property' ? propState.houses * space.houseCost : 0;
+  return (propState.mortgaged ? space.price - space.mortgageValue : space.price) + buildings;
+}
+
+/** The part of a bankrupt player's estate one creditor inherits */
+interface EstateShare {
+  properties: number[];
+  jailCards: JailCard[];
+  value: number;
+}
+
+/**
+ * Share a bankrupt player's estate among the players they still owe, in
+ * proportion to what each is owed. Properties and Get Out of Jail Free cards
+ * (worth $50) go out one at a time, most valuable first, each to whichever
+ * creditor it leaves with the least received per dollar owed.
+ */
+function divideEstate(player: PlayerState, unpaid: Map<string, number>): Map<string, EstateShare> {
+  const shares = new Map<string, EstateShare>();
+  for (const id of unpaid.keys()) shares.set(id, { properties: [], jailCards: [], value: 0 });
+  const shareFor = (value: number) => {
+    const cover = ([id, share]: [string, EstateShare]) => (share.value + value) / unpaid.get(id)!;
+    const [, share] = [...shares.entries()].reduce((best, entry) => (cover(entry) < cover(best) ? entry : best));
+    share.value += value;
+    return share;
+  };
+
+  const properties = [...player.properties.entries()]
+    .map(([pos, propState]) => ({ pos, value: estateValue(pos, propState) }))
+    .sort((a, b) => b.value - a.value || a.pos - b.pos);
+  for (const { pos, value } of properties) shareFor(value).properties.push(pos);
+  for (const card of player.jailCards) shareFor(50).jailCards.push(card);
+  return shares;
+}
+
+/** Interest due on whichever of `positions` are mortgaged, were they to change hands */
+function interestOnMortgaged(state: GameState, positions: number[]): number {
+  return positions
+    .filter(pos => getPropertyOwner(state, pos)?.properties.get(pos)?.mortgaged)
+    .reduce((sum, pos) => sum + mortgageInterest(pos), 0);
+}
+
+export class GameEngine {
+  private rng: RngSource;
+  private auctionRules: AuctionRules;
+  /** Open a trade window between turns */
+  private tradeWindows: boolean;
+  private rules: RuleSet;
+
+  constructor(
+    rng: RngSource,
+    auctionRules: AuctionRules = DEFAULT_AUCTION_RULES,
+    tradeWindows = false,
+    rules: RuleSet = DEFAULT_RULES,
+  ) {
     this.rng = rng;
+    this.auctionRules = auctionRules;
+    this.tradeWindows = tradeWindows;
+    this.rules = rules;
+  }
+
+  private random(stream: RngStream): () => number {
+    return streamOf(this.rng, stream);
   }
 
   getAvailableActions(state: GameState): AvailableAction[] {
@@ -35,19 +197,75 @@ export class GameEngine {
         return this.getAwaitingRollActions(state, player);
       case 'purchase_decision':
         return this.getPurchaseDecisionActions(state, player);
-      case 'auction':
-        return this.getAuctionActions(state, player);
+      case 'auction': {
+        const bidderId = this.getAuctionBidder(state);
+        return bidderId ? this.getAuctionActions(state, getPlayerById(state, bidderId)) : [];
+      }
       case 'paying_debt':
-        return this.getPayingDebtActions(state, player);
+        return this.getPayingDebtActions(state, this.actingPlayer(state));
       case 'trading':
         return this.getTradingActions(state);
       case 'post_action':
         return this.getPostActionActions(state, player);
+      case 'trade_window': {
+        const proposerId = this.getTradeWindowProposer(state);
+        return proposerId ? this.getTradeWindowActions(state, getPlayerById(state, proposerId)) : [];
+      }
+      case 'mortgage_decision': {
+        const deciderId = this.getMortgageDecider(state);
+        return deciderId ? this.getMortgageDecisionActions(state, getPlayerById(state, deciderId)) : [];
+      }
+      case 'building_auction': {
+        const bidderId = this.getBuildingBidder(state);
+        return bidderId ? this.getBuildingBidActions(state, getPlayerById(state, bidderId)) : [];
+      }
+      case 'bus_choice':
+        return this.getBusActions(state);
       default:
         return [];
     }
   }
 
+  /** Player the open trade window is waiting on for an offer */
+  getTradeWindowProposer(state: GameState): string | null {
+    return state.turnPhase === 'trade_window' ? state.tradeWindow?.proposers[0] ?? null : null;
+  }
+
+  /** Player who must settle the mortgaged property they were just handed */
+  getMortgageDecider(state: GameState): string | null {
+    return state.turnPhase === 'mortgage_decision' ? state.mortgageTransfers?.pending[0]?.playerId ?? null : null;
+  }
+
+  /** Player being asked to raise the money for the oldest unpaid debt — not always the one whose turn it is */
+  getDebtor(state: GameState): string | null {
+    return state.turnPhase === 'paying_debt' ? state.pendingDebts?.queue[0]?.debtorId ?? null : null;
+  }
+
+  /** Player whose bid the housing-shortage auction is waiting on */
+  getBuildingBidder(state: GameState): string | null {
+    const auction = state.buildingAuction;
+    return state.turnPhase === 'building_auction' && auction ? auction.bidders[auction.nextBidder] ?? null : null;
+  }
+
+  /** Player whose bid the running auction is waiting on */
+  getAuctionBidder(state: GameState): string | null {
+    const auction = state.auction;
+    return auction ? auction.bidders[auction.nextBidder] ?? null : null;
+  }
+
+  /** Lowest bid that counts: a raise in ascending, the asking price in Dutch, anything in sealed-bid modes */
+  getMinimumBid(state: GameState): number {
+    const auction = state.auction;
+    if (!auction || isSealedBid(auction.mode)) return 0;
+    if (auction.mode === 'dutch') return auction.askingPrice;
+    return auction.highBid + auction.minIncrement;
+  }
+
+  /** Auction actions for any bidder — every solvent player bids, not just the one whose turn it is */
+  getBidActions(state: GameState, playerId: string): AvailableAction[] {
+    return this.getAuctionActions(state, getPlayerById(state, playerId));
+  }
+
   applyAction(state: GameState, action: GameAction): ActionResult {
     const events: GameEvent[] = [];
     let newState = cloneState(state);
@@ -56,6 +274,8 @@ export class GameEngine {
       switch (action.action) {
         case 'roll_dice':
           return this.handleRollDice(newState, events);
+        case 'take_bus':
+          return this.handleTakeBus(newState, action.spaces, events);
         case 'buy_property':
           return this.handleBuyProperty(newState, events);
         case 'auction_property':
@@ -76,6 +296,16 @@ export class GameEngine {
           return this.handleAcceptTrade(newState, events);
         case 'reject_trade':
           return this.handleRejectTrade(newState, events);
+        case 'skip_trade':
+          return this.handleSkipTrade(newState, events);
+        case 'lift_mortgage':
+          return this.handleReceivedMortgage(newState, true, events);
+        case 'keep_mortgage':
+          return this.handleReceivedMortgage(newState, false, events);
+        case 'counter_offer':
+          return this.handleCounterOffer(newState, action.offer, events);
+        case 'send_message':
+          return this.handleSendMessage(newState, action.toPlayerId, action.text, events);
         case 'end_turn':
           return this.handleEndTurn(newState, events);
         case 'declare_bankruptcy':
@@ -86,6 +316,8 @@ export class GameEngine {
           return this.handlePayJailFine(newState, events);
         case 'submit_bid':
           return this.handleSubmitBid(newState, action.amount, events);
+        case 'bid_building':
+          return this.handleBuildingBid(newState, action.amount, action.propertyPosition, events);
         default:
           return { success: false, newState: state, events: [], error: 'Unknown action' };
       }
@@ -116,25 +348,28 @@ export class GameEngine {
     switch (space.type) {
       case 'go':
       case 'jail':
-      case 'free_parking':
         // Nothing happens
         newState.turnPhase = 'post_action';
         break;
 
+      case 'free_parking':
+        if (this.rules.freeParkingJackpot && newState.freeParkingPot > 0) {
+          player.balance += newState.freeParkingPot;
+          events.push({ type: 'collect', playerId: player.id, amount: newState.freeParkingPot, reason: 'Free Parking jackpot' });
+          newState.freeParkingPot = 0;
+        }
+        newState.turnPhase = 'post_action';
+        break;
+
       case 'go_to_jail':
         this.sendToJail(newState, player, events, 'Landed on Go To Jail');
         newState.turnPhase = 'post_action';
         break;
 
       case 'tax':
-        player.balance -= space.amount;
+        this.charge(newState, player, 'bank', space.amount, space.name);
         events.push({ type: 'pay_tax', playerId: player.id, amount: space.amount, taxName: space.name });
-        if (player.balance < 0) {
-          newState.pendingDebt = { creditor: 'bank', amount: -player.balance, reason: space.name };
-          newState.turnPhase = 'paying_debt';
-        } else {
-          newState.turnPhase = 'post_action';
-        }
+        newState.turnPhase = 'post_action';
         break;
 
       case 'chance':
@@ -149,10 +384,13 @@ export class GameEngine {
         } else {
           const owner = getPropertyOwner(newState, player.position)!;
           if (owner.id !== player.id && !owner.properties.get(player.position)!.mortgaged) {
+            if (this.waiveRent(newState, player, owner, player.position, events)) {
+              newState.turnPhase = 'post_action';
+              break;
+            }
             const rent = calculateRent(newState, player.position, newState.lastDiceRoll!);
             if (rent > 0) {
-              player.balance -= rent;
-              owner.balance += rent;
+              this.charge(newState, player, owner.id, rent, `Rent on ${space.name}`);
               events.push({
                 type: 'pay_rent',
                 payerId: player.id,
@@ -160,19 +398,8 @@ export class GameEngine {
                 amount: rent,
                 property: space.name,
               });
-              if (player.balance < 0) {
-                newState.pendingDebt = {
-                  creditor: owner.id,
-                  amount: -player.balance,
-                  reason: `Rent on ${space.name}`,
-                };
-                newState.turnPhase = 'paying_debt';
-              } else {
-                newState.turnPhase = 'post_action';
-              }
-            } else {
-              newState.turnPhase = 'post_action';
             }
+            newState.turnPhase = 'post_action';
           } else {
             newState.turnPhase = 'post_action';
           }
@@ -183,6 +410,7 @@ export class GameEngine {
         newState.turnPhase = 'post_action';
     }
 
+    this.collectDebts(newState);
     newState.gameLog.push(...events);
     return { success: true, newState, events };
   }
@@ -193,9 +421,10 @@ export class GameEngine {
     const player = state.players[state.currentPlayerIndex];
 
     if (player.inJail) {
-      // In jail: roll for doubles
-      const roll = rollDice(this.rng);
+      // In jail: roll for doubles, with the white dice only
+      const roll = rollDice(this.random('dice'));
       state.lastDiceRoll = roll.dice;
+      state.lastSpeedDie = null;
       events.push({
         type: 'roll_dice',
         playerId: player.id,
@@ -211,32 +440,33 @@ export class GameEngine {
         state.turnPhase = 'post_roll_land';
       } else {
         player.jailTurns++;
-        if (player.jailTurns >= 3) {
-          // Must pay fine and move
-          player.balance -= 50;
+        if (player.jailTurns >= this.rules.maxJailTurns) {
+          // Must pay fine and move; a player who can't pay raises the money before landing
+          const turn = ordinal(player.jailTurns);
+          this.charge(state, player, 'bank', 50, 'Jail fine');
           player.inJail = false;
           player.jailTurns = 0;
-          events.push({ type: 'get_out_of_jail', playerId: player.id, method: 'paid $50 (3rd turn)' });
-          events.push({ type: 'pay', playerId: player.id, amount: 50, reason: 'Jail fine (3rd turn)' });
+          events.push({ type: 'get_out_of_jail', playerId: player.id, method: `paid $50 (${turn} turn)` });
+          events.push({ type: 'pay', playerId: player.id, amount: 50, reason: `Jail fine (${turn} turn)` });
           this.movePlayer(state, player, roll.sum, events);
           state.turnPhase = 'post_roll_land';
-          if (player.balance < 0) {
-            state.pendingDebt = { creditor: 'bank', amount: -player.balance, reason: 'Jail fine' };
-            state.turnPhase = 'paying_debt';
-          }
+          this.collectDebts(state);
         } else {
           state.turnPhase = 'post_action';
         }
       }
     } else {
       // Normal roll
-      const roll = rollDice(this.rng);
+      const roll = rollDice(this.random('dice'), this.rules.speedDie);
       state.lastDiceRoll = roll.dice;
+      state.lastSpeedDie = roll.speedDie ?? null;
+      state.mrMonopolyPending = false;
       events.push({
         type: 'roll_dice',
         playerId: player.id,
         dice: roll.dice,
         doubles: roll.isDoubles,
+        ...(roll.speedDie !== undefined && { speedDie: roll.speedDie }),
       });
 
       if (roll.isDoubles) {
@@ -250,14 +480,77 @@ export class GameEngine {
         }
       }
 
-      this.movePlayer(state, player, roll.sum, events);
-      state.turnPhase = 'post_roll_land';
+      if (roll.speedDie === 'bus') {
+        state.turnPhase = 'bus_choice';
+      } else {
+        state.mrMonopolyPending = roll.speedDie === 'mr_monopoly';
+        const extra = typeof roll.speedDie === 'number' ? roll.speedDie : 0;
+        this.movePlayer(state, player, roll.sum + extra, events);
+        state.turnPhase = 'post_roll_land';
+      }
+    }
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Speed die bus: move by either white die or by both */
+  private handleTakeBus(state: GameState, spaces: number, events: GameEvent[]): ActionResult {
+    const player = state.players[state.currentPlayerIndex];
+
+    if (state.turnPhase !== 'bus_choice' || !state.lastDiceRoll) {
+      return { success: false, newState: state, events: [], error: 'No bus ride to take' };
+    }
+    const choices = busChoices(state.lastDiceRoll);
+    if (!choices.includes(spaces)) {
+      return { success: false, newState: state, events: [], error: `The bus goes ${choices.join(', ')} spaces, not ${spaces}` };
     }
 
+    this.movePlayer(state, player, spaces, events);
+    state.turnPhase = 'post_roll_land';
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
   }
 
+  /** Speed die rule: true once a Mr. Monopoly roll's first landing is dealt with and his move is due */
+  hasMrMonopolyMove(state: GameState): boolean {
+    return state.mrMonopolyPending && state.turnPhase === 'post_action';
+  }
+
+  /**
+   * Mr. Monopoly's move: on to the next unowned property, or if every one is
+   * owned, the next property where the player owes rent. The landing is then
+   * resolved as usual; with nowhere to go the player stays put.
+   */
+  moveMrMonopoly(state: GameState): ActionResult {
+    const newState = cloneState(state);
+    const events: GameEvent[] = [];
+    const player = newState.players[newState.currentPlayerIndex];
+    newState.mrMonopolyPending = false;
+
+    const target = this.mrMonopolyTarget(newState, player);
+    events.push({ type: 'mr_monopoly', playerId: player.id, property: target === null ? null : getSpace(target).name });
+    if (target !== null) {
+      this.movePlayer(newState, player, (target - player.position + 40) % 40, events);
+      newState.turnPhase = 'post_roll_land';
+    }
+
+    newState.gameLog.push(...events);
+    return { success: true, newState, events };
+  }
+
+  private mrMonopolyTarget(state: GameState, player: PlayerState): number | null {
+    const ahead = Array.from({ length: 39 }, (_, i) => (player.position + 1 + i) % 40)
+      .filter(pos => isOwnableSpace(getSpace(pos)));
+    const unowned = ahead.find(pos => !isPropertyOwned(state, pos));
+    if (unowned !== undefined) return unowned;
+    return ahead.find(pos => {
+      const owner = getPropertyOwner(state, pos)!;
+      if (owner.id === player.id || owner.properties.get(pos)!.mortgaged) return false;
+      return !this.rentWaiver(state, player, owner, pos);
+    }) ?? null;
+  }
+
   private handleBuyProperty(state: GameState, events: GameEvent[]): ActionResult {
     const player = state.players[state.currentPlayerIndex];
     const space = getSpace(player.position);
@@ -295,31 +588,212 @@ export class GameEngine {
       return { success: false, newState: state, events: [], error: 'Not a purchasable space' };
     }
 
-    events.push({ type: 'auction_start', property: space.name, position: player.position });
-    state.turnPhase = 'auction';
+    if (this.rules.mandatoryAuctions) {
+      this.startAuction(state, player.position, events);
+    } else {
+      // Left on the board for whoever lands on it next
+      events.push({ type: 'property_declined', playerId: player.id, property: space.name });
+      state.turnPhase = 'post_action';
+    }
+
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
   }
 
+  /** Open bidding on `position`; everyone still in the game bids, starting with the current player */
+  private startAuction(state: GameState, position: number, events: GameEvent[]): void {
+    const space = getSpace(position) as OwnableSpace;
+    events.push({ type: 'auction_start', property: space.name, position });
+    state.turnPhase = 'auction';
+
+    const bidders: string[] = [];
+    for (let i = 0; i < state.players.length; i++) {
+      const p = state.players[(state.currentPlayerIndex + i) % state.players.length];
+      if (!p.isBankrupt) bidders.push(p.id);
+    }
+    state.auction = {
+      position,
+      mode: this.auctionRules.mode,
+      minIncrement: this.auctionRules.minIncrement,
+      bidders,
+      nextBidder: 0,
+      highBid: 0,
+      highBidderId: null,
+      sealedBids: {},
+      askingPrice: this.auctionRules.mode === 'dutch' ? space.price : 0,
+    };
+    if (state.auction.mode === 'dutch') {
+      this.offerDutchPrice(state, state.auction, events);
+    } else {
+      this.dropPriceOuts(state, state.auction, events);
+      // Nobody can afford an opening bid
+      if (state.auction.bidders.length === 0) this.awardAuction(state, null, 0, position, events);
+    }
+  }
+
+  /** Put the next of a bankrupt player's properties up for auction, or resume play once all are sold */
+  private nextBankAuction(state: GameState, events: GameEvent[]): void {
+    const sales = state.bankAuctions!;
+    const [position, ...rest] = sales.positions;
+    if (position === undefined) {
+      state.bankAuctions = null;
+      state.turnPhase = sales.resumePhase;
+      return;
+    }
+    state.bankAuctions = { ...sales, positions: rest };
+    this.startAuction(state, position, events);
+  }
+
   private handleSubmitBid(state: GameState, amount: number, events: GameEvent[]): ActionResult {
-    // This is called during the auction phase.
-    // The game loop handles collecting bids from all players.
-    // For simplicity, the engine just records the bid.
-    const player = state.players[state.currentPlayerIndex];
+    const auction = state.auction;
+    const bidderId = this.getAuctionBidder(state);
+    if (state.turnPhase !== 'auction' || !auction || !bidderId) {
+      return { success: false, newState: state, events: [], error: 'No auction in progress' };
+    }
+    const bidder = getPlayerById(state, bidderId);
+    amount = Math.floor(amount);
 
     if (amount < 0) {
       return { success: false, newState: state, events: [], error: 'Bid must be non-negative' };
     }
-    if (amount > player.balance) {
+    if (amount > 0 && amount > bidder.balance) {
       return { success: false, newState: state, events: [], error: 'Bid exceeds balance' };
     }
 
-    events.push({ type: 'auction_bid', playerId: player.id, amount });
+    if (auction.mode === 'dutch') {
+      return this.handleDutchBid(state, auction, bidderId, amount, events);
+    }
+
+    if (isSealedBid(auction.mode)) {
+      // Hidden until everyone has bid; resolveAuction announces them all
+      auction.sealedBids[bidderId] = amount;
+      auction.nextBidder++;
+      if (auction.nextBidder >= auction.bidders.length) {
+        const result = this.resolveAuction(state, new Map(Object.entries(auction.sealedBids)), auction.position);
+        return { success: true, newState: result.newState, events: result.events };
+      }
+      return { success: true, newState: state, events };
+    }
+
+    const minimum = this.getMinimumBid(state);
+    if (amount > 0 && amount < minimum) {
+      return { success: false, newState: state, events: [], error: `Bid must be at least $${minimum} (or 0 to drop out)` };
+    }
+
+    events.push({ type: 'auction_bid', playerId: bidderId, amount });
+    if (amount === 0) {
+      auction.bidders.splice(auction.nextBidder, 1);
+    } else {
+      auction.highBid = amount;
+      auction.highBidderId = bidderId;
+      auction.nextBidder++;
+    }
+    if (auction.bidders.length > 0) auction.nextBidder %= auction.bidders.length;
+    this.dropPriceOuts(state, auction, events);
+
+    // Over once nobody is left to outbid the high bidder
+    const remaining = auction.bidders;
+    if (remaining.length === 0 || (remaining.length === 1 && remaining[0] === auction.highBidderId)) {
+      this.awardAuction(state, auction.highBidderId, auction.highBid, auction.position, events);
+    }
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Any bid at or above the asking price takes the property at that price; 0 passes for this round */
+  private handleDutchBid(
+    state: GameState,
+    auction: AuctionState,
+    bidderId: string,
+    amount: number,
+    events: GameEvent[],
+  ): ActionResult {
+    const price = auction.askingPrice;
+    if (amount > 0 && amount < price) {
+      return { success: false, newState: state, events: [], error: `Bid the asking price of $${price} to take it (or 0 to pass)` };
+    }
+
+    events.push({ type: 'auction_bid', playerId: bidderId, amount: amount > 0 ? price : 0 });
+    if (amount > 0) {
+      this.awardAuction(state, bidderId, price, auction.position, events);
+    } else {
+      auction.nextBidder++;
+      this.offerDutchPrice(state, auction, events);
+    }
+
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
   }
 
-  // Called by game loop after all bids are collected
+  /**
+   * Move a Dutch auction on to the next player who can afford the asking
+   * price (the rest pass automatically). Once everyone has passed the price
+   * drops a step; when it would fall below one step, nobody gets the property.
+   */
+  private offerDutchPrice(state: GameState, auction: AuctionState, events: GameEvent[]): void {
+    const space = getSpace(auction.position) as OwnableSpace;
+    const step = dutchPriceStep(space.price, auction.minIncrement);
+    for (;;) {
+      while (auction.nextBidder < auction.bidders.length) {
+        const id = auction.bidders[auction.nextBidder];
+        if (getPlayerById(state, id).balance >= auction.askingPrice) return;
+        events.push({ type: 'auction_bid', playerId: id, amount: 0 });
+        auction.nextBidder++;
+      }
+      if (auction.askingPrice - step < step) {
+        this.awardAuction(state, null, 0, auction.position, events);
+        return;
+      }
+      auction.askingPrice -= step;
+      auction.nextBidder = 0;
+      events.push({ type: 'auction_price', property: space.name, price: auction.askingPrice });
+    }
+  }
+
+  /** Ascending auctions: players who can't cover the next minimum bid drop out automatically */
+  private dropPriceOuts(state: GameState, auction: AuctionState, events: GameEvent[]): void {
+    if (auction.mode !== 'ascending') return;
+    const minimum = auction.highBid + auction.minIncrement;
+    while (auction.bidders.length > 0) {
+      const id = auction.bidders[auction.nextBidder];
+      if (id === auction.highBidderId || getPlayerById(state, id).balance >= minimum) return;
+      events.push({ type: 'auction_bid', playerId: id, amount: 0 });
+      auction.bidders.splice(auction.nextBidder, 1);
+      if (auction.bidders.length > 0) auction.nextBidder %= auction.bidders.length;
+    }
+  }
+
+  private awardAuction(
+    state: GameState,
+    winnerId: string | null,
+    price: number,
+    position: number,
+    events: GameEvent[],
+  ): void {
+    const space = getSpace(position);
+    if (winnerId && price > 0) {
+      const winner = getPlayerById(state, winnerId);
+      winner.balance -= price;
+      winner.properties.set(position, { houses: 0, mortgaged: false });
+      events.push({ type: 'auction_won', playerId: winnerId, property: space.name, price });
+    } else {
+      events.push({ type: 'auction_no_bids', property: space.name });
+    }
+    state.auction = null;
+    if (state.bankAuctions) {
+      this.nextBankAuction(state, events);
+    } else {
+      state.turnPhase = 'post_action';
+    }
+  }
+
+  /**
+   * Settles a sealed-bid auction once every bid is in: the bids are revealed
+   * and the highest wins. First-price winners pay their own bid; in a Vickrey
+   * auction the winner pays the second-highest bid, or the minimum increment
+   * when nobody else bid.
+   */
   resolveAuction(
     state: GameState,
     bids: Map<string, number>,
@@ -327,36 +801,36 @@ export class GameEngine {
   ): ActionResult {
     const newState = cloneState(state);
     const events: GameEvent[] = [];
-    const space = getSpace(position);
+    const rules = newState.auction ?? this.auctionRules;
 
     let highestBid = 0;
-    let winnerId: string | null = null;
+    let secondBid = 0;
+    let leaders: string[] = [];
 
-    // Determine winner (highest bid; first bidder wins ties in turn order)
+    // Determine winner (highest bid; ties are broken on the tiebreak stream)
     for (const player of newState.players) {
       if (player.isBankrupt) continue;
       const bid = bids.get(player.id) ?? 0;
+      events.push({ type: 'auction_bid', playerId: player.id, amount: bid });
       if (bid > highestBid) {
+        secondBid = highestBid;
         highestBid = bid;
-        winnerId = player.id;
+        leaders = [player.id];
+      } else if (bid === highestBid && bid > 0) {
+        secondBid = bid;
+        leaders.push(player.id);
+      } else if (bid > secondBid) {
+        secondBid = bid;
       }
     }
+    const winnerId = leaders.length > 1
+      ? leaders[Math.floor(this.random('tiebreak')() * leaders.length)]
+      : leaders[0] ?? null;
+    const price = rules.mode === 'vickrey'
+      ? Math.min(highestBid, Math.max(secondBid, rules.minIncrement))
+      : highestBid;
 
-    if (winnerId && highestBid > 0) {
-      const winner = getPlayerById(newState, winnerId);
-      winner.balance -= highestBid;
-      winner.properties.set(position, { houses: 0, mortgaged: false });
-      events.push({
-        type: 'auction_won',
-        playerId: winnerId,
-        property: space.name,
-        price: highestBid,
-      });
-    } else {
-      events.push({ type: 'auction_no_bids', property: space.name });
-    }
-
-    newState.turnPhase = 'post_action';
+    this.awardAuction(newState, winnerId, price, position, events);
     newState.gameLog.push(...events);
     return { success: true, newState, events };
   }
@@ -395,7 +869,7 @@ export class GameEngine {
 
     // Even building rule
     const minHouses = Math.min(...groupPositions.map(p => player.properties.get(p)!.houses));
-    if (propState.houses > minHouses) {
+    if (this.rules.evenBuild && propState.houses > minHouses) {
       return { success: false, newState: state, events: [], error: 'Must build evenly. Build on properties with fewer houses first.' };
     }
 
@@ -407,6 +881,11 @@ export class GameEngine {
       return { success: false, newState: state, events: [], error: `Insufficient funds. Houses cost $${space.houseCost}` };
     }
 
+    if (this.startBuildingAuction(state, player, 'house', position, events)) {
+      state.gameLog.push(...events);
+      return { success: true, newState: state, events };
+    }
+
     player.balance -= space.houseCost;
     propState.houses++;
     state.bankHouses--;
@@ -446,6 +925,11 @@ export class GameEngine {
       return { success: false, newState: state, events: [], error: `Insufficient funds. Hotel costs $${(space as PropertySpace).houseCost}` };
     }
 
+    if (this.startBuildingAuction(state, player, 'hotel', position, events)) {
+      state.gameLog.push(...events);
+      return { success: true, newState: state, events };
+    }
+
     player.balance -= (space as PropertySpace).houseCost;
     propState.houses = 5; // 5 = hotel
     state.bankHotels--;
@@ -462,8 +946,121 @@ export class GameEngine {
     return { success: true, newState: state, events };
   }
 
+  /**
+   * Under a housing shortage — fewer houses (or hotels) in the bank than
+   * players able to build one — the building `player` asked for goes up for
+   * auction instead, with `player` opening at its house cost. Returns false
+   * when there are enough to go round and the build goes ahead.
+   */
+  private startBuildingAuction(
+    state: GameState,
+    player: PlayerState,
+    building: 'house' | 'hotel',
+    position: number,
+    events: GameEvent[],
+  ): boolean {
+    const supply = building === 'house' ? state.bankHouses : state.bankHotels;
+    const count = state.players.length;
+    const rivals = state.players
+      .map((_, i) => state.players[(state.currentPlayerIndex + 1 + i) % count])
+      .filter(p => p.id !== player.id && !p.isBankrupt && this.buildSites(state, p, building).length > 0)
+      .map(p => p.id);
+    if (rivals.length < supply) return false;
+
+    const { houseCost } = getSpace(position) as PropertySpace;
+    state.buildingAuction = {
+      building,
+      bidders: [...rivals, player.id],
+      nextBidder: 0,
+      highBid: houseCost,
+      highBidderId: player.id,
+      placements: { [player.id]: position },
+      resumePhase: state.turnPhase,
+    };
+    state.turnPhase = 'building_auction';
+    events.push({ type: 'building_auction_start', building, playerId: player.id, bankSupply: supply });
+    events.push({ type: 'building_bid', playerId: player.id, amount: houseCost });
+    return true;
+  }
+
+  /** Ascending bids for a scarce building; a bid names the property it would go on */
+  private handleBuildingBid(state: GameState, amount: number, position: number | undefined, events: GameEvent[]): ActionResult {
+    const auction = state.buildingAuction;
+    const bidderId = this.getBuildingBidder(state);
+    if (!auction || !bidderId) {
+      return { success: false, newState: state, events: [], error: 'No building auction in progress' };
+    }
+    const bidder = getPlayerById(state, bidderId);
+    amount = Math.floor(amount);
+
+    if (amount < 0) {
+      return { success: false, newState: state, events: [], error: 'Bid must be non-negative' };
+    }
+    if (amount > 0) {
+      const minimum = auction.highBid + this.auctionRules.minIncrement;
+      if (amount < minimum) {
+        return { success: false, newState: state, events: [], error: `Bid must be at least $${minimum} (or 0 to drop out)` };
+      }
+      if (amount > bidder.balance) {
+        return { success: false, newState: state, events: [], error: 'Bid exceeds balance' };
+      }
+      if (position === undefined || !this.buildSites(state, bidder, auction.building).includes(position)) {
+        return { success: false, newState: state, events: [], error: `Name a property you could put the ${auction.building} on` };
+      }
+      const { houseCost } = getSpace(position) as PropertySpace;
+      if (amount < houseCost) {
+        return { success: false, newState: state, events: [], error: `A ${auction.building} on ${getSpace(position).name} costs at least $${houseCost}` };
+      }
+      auction.highBid = amount;
+      auction.highBidderId = bidderId;
+      auction.placements[bidderId] = position;
+      auction.nextBidder++;
+    } else {
+      auction.bidders.splice(auction.nextBidder, 1);
+    }
+    events.push({ type: 'building_bid', playerId: bidderId, amount });
+    if (auction.bidders.length > 0) auction.nextBidder %= auction.bidders.length;
+
+    // Over once nobody is left to outbid the high bidder
+    const remaining = auction.bidders;
+    if (remaining.length === 0 || (remaining.length === 1 && remaining[0] === auction.highBidderId)) {
+      this.awardBuilding(state, auction, events);
+    }
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** The high bidder pays their bid to the bank and builds where they said; then the builder's turn goes on where it was */
+  private awardBuilding(state: GameState, auction: BuildingAuction, events: GameEvent[]): void {
+    const winner = getPlayerById(state, auction.highBidderId);
+    const position = auction.placements[winner.id];
+    const propState = winner.properties.get(position)!;
+
+    winner.balance -= auction.highBid;
+    if (auction.building === 'house') {
+      propState.houses++;
+      state.bankHouses--;
+    } else {
+      propState.houses = 5;
+      state.bankHotels--;
+      state.bankHouses += 4;
+    }
+    events.push({
+      type: 'building_auction_won',
+      playerId: winner.id,
+      building: auction.building,
+      property: getSpace(position).name,
+      position,
+      price: auction.highBid,
+    });
+
+    state.buildingAuction = null;
+    state.turnPhase = auction.resumePhase;
+  }
+
   private handleSellHouse(state: GameState, position: number, events: GameEvent[]): ActionResult {
-    const player = state.players[state.currentPlayerIndex];
+    const player = this.actingPlayer(state);
     const space = getSpace(position);
 
     if (space.type !== 'property') {
@@ -482,20 +1079,22 @@ export class GameEngine {
     const groupPositions = COLOR_GROUP_MEMBERS[space.colorGroup];
 
     if (propState.houses === 5) {
-      // Selling hotel: need 4 houses available or must sell all
-      if (state.bankHouses >= 4) {
-        propState.houses = 4;
-        state.bankHotels++;
-        state.bankHouses -= 4;
-      } else {
-        // Not enough houses to downgrade — sell entire hotel
-        propState.houses = 0;
-        state.bankHotels++;
+      // A hotel breaks back down into 4 houses, which the bank must have
+      if (state.bankHouses < 4) {
+        return {
+          success: false,
+          newState: state,
+          events: [],
+          error: `The bank has ${state.bankHouses} house${state.bankHouses === 1 ? '' : 's'} left, not the 4 needed to break the hotel down`,
+        };
       }
+      propState.houses = 4;
+      state.bankHotels++;
+      state.bankHouses -= 4;
     } else {
       // Even selling rule
       const maxHouses = Math.max(...groupPositions.map(p => player.properties.get(p)!.houses));
-      if (propState.houses < maxHouses) {
+      if (this.rules.evenBuild && propState.houses < maxHouses) {
         return { success: false, newState: state, events: [], error: 'Must sell evenly. Sell from properties with more houses first.' };
       }
       propState.houses--;
@@ -512,13 +1111,14 @@ export class GameEngine {
       position,
       houses: propState.houses,
     });
+    this.settleDebts(state, events);
 
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
   }
 
   private handleMortgage(state: GameState, position: number, events: GameEvent[]): ActionResult {
-    const player = state.players[state.currentPlayerIndex];
+    const player = this.actingPlayer(state);
     const space = getSpace(position);
 
     if (!isOwnableSpace(space)) {
@@ -554,12 +1154,7 @@ export class GameEngine {
       position,
       received: space.mortgageValue,
     });
-
-    // Check if pending debt can now be resolved
-    if (state.pendingDebt && player.balance >= 0) {
-      state.pendingDebt = null;
-      state.turnPhase = 'post_action';
-    }
+    this.settleDebts(state, events);
 
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
@@ -601,54 +1196,312 @@ export class GameEngine {
     return { success: true, newState: state, events };
   }
 
+  /**
+   * Offers come from the current player during their turn, from the proposer
+   * the trade window is waiting on, or from a debtor raising money off-turn.
+   */
   private handleTradeOffer(state: GameState, offer: TradeOffer, events: GameEvent[]): ActionResult {
-    const player = state.players[state.currentPlayerIndex];
-
-    if (offer.fromPlayerId !== player.id) {
+    const proposerId = this.getTradeWindowProposer(state) ?? this.getDebtor(state);
+    if (proposerId && offer.fromPlayerId !== proposerId) {
+      return { success: false, newState: state, events: [], error: 'Trade must be from the player the game is waiting on' };
+    }
+    if (!proposerId && offer.fromPlayerId !== state.players[state.currentPlayerIndex].id) {
       return { success: false, newState: state, events: [], error: 'Trade must be from the current player' };
     }
 
+    const error = this.validateTradeOffer(state, offer);
+    if (error) {
+      return { success: false, newState: state, events: [], error };
+    }
+
+    state.activeTrade = offer;
+    state.negotiation = { thread: [offer], acceptedBy: [] };
+    state.turnPhase = 'trading';
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Replace the offer on the table with the responder's own terms; the other side then responds */
+  private handleCounterOffer(state: GameState, offer: TradeOffer, events: GameEvent[]): ActionResult {
+    const current = state.activeTrade;
+    if (!current) {
+      return { success: false, newState: state, events: [], error: 'No active trade' };
+    }
+    if (current.participants || offer.participants) {
+      return { success: false, newState: state, events: [], error: 'Multi-party trades can only be accepted or rejected' };
+    }
+    if (offer.fromPlayerId !== current.toPlayerId || offer.toPlayerId !== current.fromPlayerId) {
+      return { success: false, newState: state, events: [], error: 'A counter-offer goes back to the player who made the offer' };
+    }
+    const thread = state.negotiation?.thread ?? [current];
+    if (thread.length > MAX_COUNTER_OFFERS) {
+      return { success: false, newState: state, events: [], error: `No counter-offers left (limit ${MAX_COUNTER_OFFERS}). Accept or reject.` };
+    }
+
+    const error = this.validateTradeOffer(state, offer);
+    if (error) {
+      return { success: false, newState: state, events: [], error };
+    }
+
+    state.activeTrade = offer;
+    state.negotiation = { thread: [...thread, offer], acceptedBy: [] };
+    events.push({
+      type: 'trade_countered',
+      fromPlayer: getPlayerById(state, offer.fromPlayerId).name,
+      toPlayer: getPlayerById(state, offer.toPlayerId).name,
+      description: this.describeTradeOffer(state, offer),
+      round: thread.length,
+    });
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /**
+   * Table talk from whoever the engine is waiting on — the trade responder
+   * during a negotiation, the proposer in a trade window, the new owner of a
+   * mortgaged property, a debtor raising money or a bidder for a scarce
+   * building, otherwise the current player. Changes nothing but the per-turn
+   * message count, so the player still owes their decision.
+   */
+  private handleSendMessage(state: GameState, toPlayerId: string | null, text: string, events: GameEvent[]): ActionResult {
+    const proposerId = this.getTradeWindowProposer(state)
+      ?? this.getMortgageDecider(state)
+      ?? this.getDebtor(state)
+      ?? this.getBuildingBidder(state);
+    const sender = state.turnPhase === 'trading' && state.activeTrade
+      ? getPlayerById(state, state.activeTrade.toPlayerId)
+      : proposerId ? getPlayerById(state, proposerId) : state.players[state.currentPlayerIndex];
+
+    if (toPlayerId !== null) {
+      const recipient = state.players.find(p => p.id === toPlayerId);
+      if (!recipient || recipient.isBankrupt || recipient.id === sender.id) {
+        return { success: false, newState: state, events: [], error: 'Invalid message recipient' };
+      }
+    }
+    const body = text.trim();
+    if (body.length === 0) {
+      return { success: false, newState: state, events: [], error: 'Message is empty' };
+    }
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      return { success: false, newState: state, events: [], error: `Message is too long (max ${MAX_MESSAGE_LENGTH} characters)` };
+    }
+    const sent = state.messagesThisTurn[sender.id] ?? 0;
+    if (sent >= MAX_MESSAGES_PER_TURN) {
+      return { success: false, newState: state, events: [], error: `You have already sent ${MAX_MESSAGES_PER_TURN} messages this turn` };
+    }
+
+    state.messagesThisTurn[sender.id] = sent + 1;
+    events.push({ type: 'player_message', fromPlayerId: sender.id, toPlayerId, text: body });
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Why `offer` can't be made right now, or null if both sides can deliver their half */
+  private validateTradeOffer(state: GameState, offer: TradeOffer): string | null {
+    if (offer.participants) {
+      return this.validateMultiPartyTrade(state, offer, offer.participants);
+    }
+    const player = getPlayerById(state, offer.fromPlayerId);
     const target = state.players.find(p => p.id === offer.toPlayerId);
     if (!target || target.isBankrupt) {
-      return { success: false, newState: state, events: [], error: 'Invalid trade target' };
+      return 'Invalid trade target';
     }
 
     // Validate offered properties
     for (const pos of offer.offeredProperties) {
       if (!player.properties.has(pos)) {
-        return { success: false, newState: state, events: [], error: `You don't own property at position ${pos}` };
+        return `You don't own property at position ${pos}`;
       }
       const ps = player.properties.get(pos)!;
       if (ps.houses > 0) {
-        return { success: false, newState: state, events: [], error: 'Must sell houses before trading a property' };
+        return 'Must sell houses before trading a property';
       }
     }
 
     // Validate requested properties
     for (const pos of offer.requestedProperties) {
       if (!target.properties.has(pos)) {
-        return { success: false, newState: state, events: [], error: `${target.name} doesn't own property at position ${pos}` };
+        return `${target.name} doesn't own property at position ${pos}`;
       }
       const ps = target.properties.get(pos)!;
       if (ps.houses > 0) {
-        return { success: false, newState: state, events: [], error: `${target.name} must sell houses before trading that property` };
+        return `${target.name} must sell houses before trading that property`;
       }
     }
 
+    if (offer.offeredMoney < 0 || offer.requestedMoney < 0) {
+      return 'Trade amounts cannot be negative';
+    }
     if (offer.offeredMoney > player.balance) {
-      return { success: false, newState: state, events: [], error: 'Insufficient funds for offered money' };
+      return 'Insufficient funds for offered money';
     }
     if (offer.requestedMoney > target.balance) {
-      return { success: false, newState: state, events: [], error: `${target.name} has insufficient funds` };
+      return `${target.name} has insufficient funds`;
     }
 
-    state.activeTrade = offer;
-    state.turnPhase = 'trading';
+    // Whoever takes a mortgaged property pays 10% interest on it straight away
+    const interestDue = interestOnMortgaged(state, offer.requestedProperties);
+    if (player.balance - offer.offeredMoney + offer.requestedMoney < interestDue) {
+      return `You can't cover the $${interestDue} interest due on the mortgaged properties you'd receive`;
+    }
+    const targetInterestDue = interestOnMortgaged(state, offer.offeredProperties);
+    if (target.balance - offer.requestedMoney + offer.offeredMoney < targetInterestDue) {
+      return `${target.name} can't cover the $${targetInterestDue} interest due on the mortgaged properties they'd receive`;
+    }
 
-    state.gameLog.push(...events);
-    return { success: true, newState: state, events };
+    const offeredCards = offer.offeredJailCards ?? 0;
+    const requestedCards = offer.requestedJailCards ?? 0;
+    if (!Number.isInteger(offeredCards) || offeredCards < 0 || offeredCards > player.jailCards.length) {
+      return `You don't have ${offeredCards} Get Out of Jail Free card(s) to offer`;
+    }
+    if (!Number.isInteger(requestedCards) || requestedCards < 0 || requestedCards > target.jailCards.length) {
+      return `${target.name} doesn't have ${requestedCards} Get Out of Jail Free card(s)`;
+    }
+
+    for (const term of offer.immunities ?? []) {
+      const error = this.validateImmunityTerm(state, offer, term);
+      if (error) return error;
+    }
+
+    return null;
+  }
+
+  /**
+   * Every participant must be able to hand over what they give, and what is
+   * given must be exactly what is received: each property moves to one other
+   * participant and the money in equals the money out.
+   */
+  private validateMultiPartyTrade(state: GameState, offer: TradeOffer, participants: TradeParticipant[]): string | null {
+    const ids = participants.map(p => p.playerId);
+    if (participants.length < 3) {
+      return 'A multi-party trade needs at least three participants';
+    }
+    if (new Set(ids).size !== ids.length) {
+      return 'Each player can appear only once in a trade';
+    }
+    if (!ids.includes(offer.fromPlayerId)) {
+      return 'The proposer must take part in the trade';
+    }
+    if (offer.toPlayerId === offer.fromPlayerId || !ids.includes(offer.toPlayerId)) {
+      return 'Invalid trade target';
+    }
+    if (offer.offeredJailCards || offer.requestedJailCards || offer.immunities?.length) {
+      return 'Multi-party trades exchange properties and money only';
+    }
+
+    for (const side of participants) {
+      const player = state.players.find(p => p.id === side.playerId);
+      if (!player || player.isBankrupt) {
+        return `Invalid trade participant ${side.playerId}`;
+      }
+      for (const pos of side.givesProperties) {
+        const ps = player.properties.get(pos);
+        if (!ps) {
+          return `${player.name} doesn't own property at position ${pos}`;
+        }
+        if (ps.houses > 0) {
+          return `${player.name} must sell houses before trading ${getSpace(pos).name}`;
+        }
+      }
+      if (side.receivesProperties.some(pos => side.givesProperties.includes(pos))) {
+        return `${player.name} can't receive a property they are giving`;
+      }
+      if (side.givesMoney < 0 || side.receivesMoney < 0) {
+        return 'Trade amounts cannot be negative';
+      }
+      if (side.givesMoney > player.balance) {
+        return `${player.name} has insufficient funds`;
+      }
+    }
+
+    const sorted = (positions: number[]) => [...positions].sort((a, b) => a - b).join(',');
+    const given = participants.flatMap(p => p.givesProperties);
+    if (new Set(given).size !== given.length || sorted(given) !== sorted(participants.flatMap(p => p.receivesProperties))) {
+      return 'Every property given must be received by exactly one other participant';
+    }
+    const moneyIn = participants.reduce((sum, p) => sum + p.givesMoney, 0);
+    const moneyOut = participants.reduce((sum, p) => sum + p.receivesMoney, 0);
+    if (moneyIn !== moneyOut) {
+      return `Money given ($${moneyIn}) must equal money received ($${moneyOut})`;
+    }
+    for (const side of participants) {
+      const player = getPlayerById(state, side.playerId);
+      const interestDue = interestOnMortgaged(state, side.receivesProperties);
+      if (player.balance - side.givesMoney + side.receivesMoney < interestDue) {
+        return `${player.name} can't cover the $${interestDue} interest due on the mortgaged properties they'd receive`;
+      }
+    }
+    return null;
+  }
+
+  /** A rent waiver must favour one side on a property the other side will own after the trade */
+  private validateImmunityTerm(state: GameState, offer: TradeOffer, term: ImmunityTerm): string | null {
+    if (term.beneficiaryId !== offer.fromPlayerId && term.beneficiaryId !== offer.toPlayerId) {
+      return 'Rent immunity must go to one of the two trading players';
+    }
+    if (term.limit !== 'landings' && term.limit !== 'turns') {
+      return `Rent immunity must be limited by landings or turns, not ${term.limit}`;
+    }
+    if (!Number.isInteger(term.count) || term.count < 1 || term.count > MAX_IMMUNITY_COUNT) {
+      return `Rent immunity must last between 1 and ${MAX_IMMUNITY_COUNT} ${term.limit}`;
+    }
+    const space = BOARD_SPACES[term.position];
+    if (!space || !isOwnableSpace(space)) {
+      return `Position ${term.position} is not a property`;
+    }
+
+    let ownerAfter = getPropertyOwner(state, term.position)?.id;
+    if (offer.offeredProperties.includes(term.position)) ownerAfter = offer.toPlayerId;
+    if (offer.requestedProperties.includes(term.position)) ownerAfter = offer.fromPlayerId;
+    const grantorId = term.beneficiaryId === offer.fromPlayerId ? offer.toPlayerId : offer.fromPlayerId;
+    if (ownerAfter !== grantorId) {
+      return `${getPlayerById(state, grantorId).name} won't own ${space.name} after this trade, so can't waive its rent`;
+    }
+    return null;
+  }
+
+  /**
+   * Why `payer` would owe no rent on `position`: the owner is in jail under
+   * the no-rent-in-jail rule, or a traded rent waiver is in force. Null when
+   * rent is due.
+   */
+  private rentWaiver(state: GameState, payer: PlayerState, owner: PlayerState, position: number): 'jail' | RentImmunity | null {
+    if (this.rules.noRentInJail && owner.inJail) return 'jail';
+    return state.rentImmunities.find(i =>
+      i.position === position && i.beneficiaryId === payer.id && i.grantorId === owner.id) ?? null;
+  }
+
+  /** True when `payer` owes no rent on `position`; a landing on a waiver limited by landings is used up */
+  private waiveRent(state: GameState, payer: PlayerState, owner: PlayerState, position: number, events: GameEvent[]): boolean {
+    const immunity = this.rentWaiver(state, payer, owner, position);
+    if (immunity === 'jail') {
+      events.push({ type: 'rent_waived_in_jail', payerId: payer.id, ownerId: owner.id, property: getSpace(position).name });
+      return true;
+    }
+    if (!immunity) return false;
+
+    if (immunity.limit === 'landings') immunity.remaining--;
+    events.push({
+      type: 'rent_waived',
+      payerId: payer.id,
+      ownerId: owner.id,
+      property: getSpace(position).name,
+      remaining: immunity.remaining,
+      limit: immunity.limit,
+    });
+    state.rentImmunities = state.rentImmunities.filter(i => i.remaining > 0);
+    return true;
   }
 
+  /**
+   * Accept the trade on the table. In a multi-party trade each acceptance is
+   * recorded and the next participant is asked; once everyone has agreed the
+   * trade is checked again and executed all at once, or called off if any
+   * asset has gone. New owners of mortgaged properties then settle them.
+   */
   private handleAcceptTrade(state: GameState, events: GameEvent[]): ActionResult {
     if (!state.activeTrade) {
       return { success: false, newState: state, events: [], error: 'No active trade' };
@@ -656,18 +1509,65 @@ export class GameEngine {
 
     const trade = state.activeTrade;
     const from = getPlayerById(state, trade.fromPlayerId);
+
+    if (trade.participants) {
+      const acceptedBy = [...(state.negotiation?.acceptedBy ?? []), trade.toPlayerId];
+      const waitingOn = trade.participants.find(p => p.playerId !== trade.fromPlayerId && !acceptedBy.includes(p.playerId));
+      if (waitingOn) {
+        events.push({
+          type: 'trade_agreed',
+          player: getPlayerById(state, trade.toPlayerId).name,
+          waitingOn: getPlayerById(state, waitingOn.playerId).name,
+        });
+        state.activeTrade = { ...trade, toPlayerId: waitingOn.playerId };
+        state.negotiation = { thread: state.negotiation?.thread ?? [trade], acceptedBy };
+        state.gameLog.push(...events);
+        return { success: true, newState: state, events };
+      }
+    }
+
+    const error = this.validateTradeOffer(state, trade);
+    let received: ReceivedMortgage[] = [];
+    if (error) {
+      events.push({ type: 'trade_failed', fromPlayer: from.name, reason: error });
+    } else {
+      received = trade.participants
+        ? this.executeMultiPartyTrade(state, trade.participants)
+        : this.executeTrade(state, trade);
+      const others = trade.participants
+        ? trade.participants.filter(p => p.playerId !== from.id).map(p => getPlayerById(state, p.playerId).name).join(' & ')
+        : getPlayerById(state, trade.toPlayerId).name;
+      events.push({ type: 'trade_completed', fromPlayer: from.name, toPlayer: others, description: this.describeTradeOffer(state, trade) });
+    }
+
+    state.activeTrade = null;
+    state.negotiation = null;
+    this.resumeAfterTrade(state);
+    this.settleDebts(state, events);
+    this.queueReceivedMortgages(state, received);
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Carry out a two-player trade; returns the mortgaged properties that changed hands */
+  private executeTrade(state: GameState, trade: TradeOffer): ReceivedMortgage[] {
+    const from = getPlayerById(state, trade.fromPlayerId);
     const to = getPlayerById(state, trade.toPlayerId);
+    const received: ReceivedMortgage[] = [];
 
     // Transfer properties
     for (const pos of trade.offeredProperties) {
       const propState = from.properties.get(pos)!;
       from.properties.delete(pos);
       to.properties.set(pos, { ...propState });
+      if (propState.mortgaged) received.push({ playerId: to.id, position: pos });
     }
     for (const pos of trade.requestedProperties) {
       const propState = to.properties.get(pos)!;
       to.properties.delete(pos);
       from.properties.set(pos, { ...propState });
+      if (propState.mortgaged) received.push({ playerId: from.id, position: pos });
     }
 
     // Transfer money
@@ -680,19 +1580,47 @@ export class GameEngine {
       from.balance += trade.requestedMoney;
     }
 
-    const desc = this.describeTradeOffer(trade);
-    events.push({ type: 'trade_completed', fromPlayer: from.name, toPlayer: to.name, description: desc });
-
-    state.activeTrade = null;
-    // Return to the phase we were in before trading
-    if (state.pendingDebt) {
-      state.turnPhase = 'paying_debt';
-    } else {
-      state.turnPhase = 'post_action';
+    // Transfer Get Out of Jail Free cards, longest-held first
+    const offeredCards = from.jailCards.splice(0, trade.offeredJailCards ?? 0);
+    const requestedCards = to.jailCards.splice(0, trade.requestedJailCards ?? 0);
+    from.jailCards.push(...requestedCards);
+    to.jailCards.push(...offeredCards);
+
+    // Rent waivers are granted by whichever side now owns the property
+    for (const term of trade.immunities ?? []) {
+      state.rentImmunities.push({
+        position: term.position,
+        grantorId: term.beneficiaryId === from.id ? to.id : from.id,
+        beneficiaryId: term.beneficiaryId,
+        limit: term.limit,
+        remaining: term.count,
+      });
     }
+    return received;
+  }
 
-    state.gameLog.push(...events);
-    return { success: true, newState: state, events };
+  /** Everyone hands over what they give, then everyone takes what they receive */
+  private executeMultiPartyTrade(state: GameState, participants: TradeParticipant[]): ReceivedMortgage[] {
+    const received: ReceivedMortgage[] = [];
+    const pool = new Map<number, PropertyState>();
+    for (const side of participants) {
+      const player = getPlayerById(state, side.playerId);
+      for (const pos of side.givesProperties) {
+        pool.set(pos, player.properties.get(pos)!);
+        player.properties.delete(pos);
+      }
+      player.balance -= side.givesMoney;
+    }
+    for (const side of participants) {
+      const player = getPlayerById(state, side.playerId);
+      for (const pos of side.receivesProperties) {
+        const propState = pool.get(pos)!;
+        player.properties.set(pos, { ...propState });
+        if (propState.mortgaged) received.push({ playerId: player.id, position: pos });
+      }
+      player.balance += side.receivesMoney;
+    }
+    return received;
   }
 
   private handleRejectTrade(state: GameState, events: GameEvent[]): ActionResult {
@@ -708,16 +1636,157 @@ export class GameEngine {
     });
 
     state.activeTrade = null;
-    if (state.pendingDebt) {
+    state.negotiation = null;
+    this.resumeAfterTrade(state);
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Return to the phase we were in before trading; a trade window moves on to its next proposer */
+  private resumeAfterTrade(state: GameState): void {
+    if (state.tradeWindow) {
+      this.advanceTradeWindow(state);
+    } else if (state.pendingDebts) {
       state.turnPhase = 'paying_debt';
     } else {
       state.turnPhase = 'post_action';
     }
+  }
+
+  /** Player a sale, mortgage or bankruptcy is for: the debtor being asked to pay, otherwise the current player */
+  private actingPlayer(state: GameState): PlayerState {
+    const debtorId = this.getDebtor(state);
+    return debtorId ? getPlayerById(state, debtorId) : state.players[state.currentPlayerIndex];
+  }
+
+  /**
+   * Take `amount` from `payer` for `creditor`. The creditor gets what the
+   * payer has on hand now; the rest is queued as a debt and paid over once
+   * the payer raises it. The payer's balance drops by the full amount either
+   * way, so a negative balance is what they still owe.
+   */
+  private charge(state: GameState, payer: PlayerState, creditor: string | 'bank', amount: number, reason: string): void {
+    const paid = Math.max(0, Math.min(amount, payer.balance));
+    payer.balance -= amount;
+    if (creditor !== 'bank') getPlayerById(state, creditor).balance += paid;
+    else this.payBank(state, paid);
+    if (paid === amount) return;
+
+    const debt: Debt = { debtorId: payer.id, creditor, amount: amount - paid, reason };
+    if (state.pendingDebts) {
+      state.pendingDebts.queue.push(debt);
+    } else {
+      state.pendingDebts = { queue: [debt], resumePhase: state.turnPhase };
+    }
+  }
+
+  /** Taxes, fines and card payments; under the Free Parking jackpot rule they go into the pot */
+  private payBank(state: GameState, amount: number): void {
+    if (this.rules.freeParkingJackpot) state.freeParkingPot += amount;
+  }
+
+  /** If anyone was left owing money, hold the phase just entered until they raise it or go bankrupt */
+  private collectDebts(state: GameState): void {
+    if (!state.pendingDebts || state.turnPhase === 'paying_debt') return;
+    state.pendingDebts.resumePhase = state.turnPhase;
+    state.turnPhase = 'paying_debt';
+  }
+
+  /** Pay over the debts of every debtor back in the black, then ask the next debtor or resume play */
+  private settleDebts(state: GameState, events: GameEvent[]): void {
+    const debts = state.pendingDebts;
+    if (!debts || state.turnPhase !== 'paying_debt') return;
+
+    while (debts.queue.length > 0) {
+      const debtor = getPlayerById(state, debts.queue[0].debtorId);
+      if (debtor.balance < 0) return;
+      for (const debt of debts.queue.filter(d => d.debtorId === debtor.id)) {
+        if (debt.creditor !== 'bank') getPlayerById(state, debt.creditor).balance += debt.amount;
+        else this.payBank(state, debt.amount);
+        events.push({ type: 'debt_paid', debtorId: debtor.id, creditor: debt.creditor, amount: debt.amount, reason: debt.reason });
+      }
+      debts.queue = debts.queue.filter(d => d.debtorId !== debtor.id);
+    }
+    state.turnPhase = debts.resumePhase;
+    state.pendingDebts = null;
+  }
+
+  /** Hold the game while new owners settle the mortgaged properties they received, then resume the current phase */
+  private queueReceivedMortgages(state: GameState, received: ReceivedMortgage[]): void {
+    if (received.length === 0 || state.winner) return;
+    state.mortgageTransfers = { pending: received, resumePhase: state.turnPhase };
+    state.turnPhase = 'mortgage_decision';
+  }
+
+  /**
+   * Settle the first mortgaged property waiting on its new owner. Lifting the
+   * mortgage costs its value plus 10% now; keeping it costs the 10% now and
+   * the usual unmortgage price whenever it is lifted later. A receiver who
+   * can't cover the interest pays what they have and owes the bank the rest,
+   * raised before play goes on.
+   */
+  private handleReceivedMortgage(state: GameState, lift: boolean, events: GameEvent[]): ActionResult {
+    const transfers = state.mortgageTransfers;
+    if (state.turnPhase !== 'mortgage_decision' || !transfers) {
+      return { success: false, newState: state, events: [], error: 'No received mortgage to settle' };
+    }
+
+    const { playerId, position } = transfers.pending[0];
+    const player = getPlayerById(state, playerId);
+    const space = getSpace(position) as OwnableSpace;
+    const interest = mortgageInterest(position);
+
+    if (lift) {
+      const cost = space.mortgageValue + interest;
+      if (player.balance < cost) {
+        return { success: false, newState: state, events: [], error: `Insufficient funds. Lifting the mortgage costs $${cost}` };
+      }
+      player.properties.get(position)!.mortgaged = false;
+      player.balance -= cost;
+      events.push({ type: 'unmortgage', playerId, property: space.name, position, cost });
+    } else {
+      this.charge(state, player, 'bank', interest, 'Mortgage interest');
+      events.push({ type: 'mortgage_interest', playerId, property: space.name, position, amount: interest });
+    }
+
+    const pending = transfers.pending.slice(1);
+    if (pending.length > 0) {
+      state.mortgageTransfers = { ...transfers, pending };
+    } else {
+      state.mortgageTransfers = null;
+      state.turnPhase = transfers.resumePhase;
+      this.collectDebts(state);
+    }
 
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
   }
 
+  /** Pass on proposing a trade in the window between turns */
+  private handleSkipTrade(state: GameState, events: GameEvent[]): ActionResult {
+    if (!this.getTradeWindowProposer(state)) {
+      return { success: false, newState: state, events: [], error: 'No trade window is open' };
+    }
+    this.advanceTradeWindow(state);
+
+    state.gameLog.push(...events);
+    return { success: true, newState: state, events };
+  }
+
+  /** Hand the window to the next solvent proposer, or close it and let the turn complete */
+  private advanceTradeWindow(state: GameState): void {
+    const proposers = state.tradeWindow!.proposers.slice(1)
+      .filter(id => !getPlayerById(state, id).isBankrupt);
+    if (proposers.length > 0) {
+      state.tradeWindow = { proposers };
+      state.turnPhase = 'trade_window';
+    } else {
+      state.tradeWindow = null;
+      state.turnPhase = 'turn_complete';
+    }
+  }
+
   private handleEndTurn(state: GameState, events: GameEvent[]): ActionResult {
     const player = state.players[state.currentPlayerIndex];
 
@@ -731,34 +1800,87 @@ export class GameEngine {
       }
     }
 
+    // Turn-limited rent waivers run down as each of the beneficiary's turns ends
+    for (const immunity of state.rentImmunities) {
+      if (immunity.beneficiaryId === player.id && immunity.limit === 'turns') immunity.remaining--;
+    }
+    state.rentImmunities = state.rentImmunities.filter(i => i.remaining > 0);
+
     // Signal turn is over — game loop handles advancing to next player
     player.doublesCount = 0;
     state.lastDiceRoll = null;
+    state.lastSpeedDie = null;
+    state.mrMonopolyPending = false;
     state.turnPhase = 'turn_complete';
 
+    // With trade windows on, everyone still in gets a chance to propose a deal first,
+    // starting with the next player and ending with the one who just moved
+    if (this.tradeWindows) {
+      const count = state.players.length;
+      const proposers = state.players
+        .map((_, i) => state.players[(state.currentPlayerIndex + 1 + i) % count])
+        .filter(p => !p.isBankrupt)
+        .map(p => p.id);
+      if (proposers.length > 1) {
+        state.tradeWindow = { proposers };
+        state.turnPhase = 'trade_window';
+      }
+    }
+
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
   }
 
+  /**
+   * The cash a bankrupt player still holds pays their debts in the order they
+   * arose. The rest of the estate is shared among the players left unpaid,
+   * or goes to the bank when no player is owed anything more. Anyone else
+   * still owing money settles up before play goes on.
+   */
   private handleBankruptcy(state: GameState, events: GameEvent[]): ActionResult {
-    const player = state.players[state.currentPlayerIndex];
-    const creditor = state.pendingDebt?.creditor ?? 'bank';
+    const player = this.actingPlayer(state);
+    const queue = state.pendingDebts?.queue ?? [];
+    const owed = queue.filter(d => d.debtorId === player.id);
+
+    let cash = player.balance + owed.reduce((sum, d) => sum + d.amount, 0);
+    const unpaid = new Map<string, number>();
+    for (const debt of owed) {
+      const paid = Math.min(cash, debt.amount);
+      cash -= paid;
+      if (paid > 0) {
+        if (debt.creditor !== 'bank') getPlayerById(state, debt.creditor).balance += paid;
+        else this.payBank(state, paid);
+        events.push({ type: 'debt_paid', debtorId: player.id, creditor: debt.creditor, amount: paid, reason: debt.reason });
+      }
+      if (debt.creditor !== 'bank' && paid < debt.amount) {
+        unpaid.set(debt.creditor, (unpaid.get(debt.creditor) ?? 0) + debt.amount - paid);
+      }
+    }
 
     player.isBankrupt = true;
-    events.push({ type: 'bankruptcy', playerId: player.id, creditor });
-
-    if (creditor !== 'bank') {
-      // Transfer all assets to creditor
-      const creditorPlayer = getPlayerById(state, creditor);
-      for (const [pos, propState] of player.properties) {
-        creditorPlayer.properties.set(pos, { ...propState });
-      }
-      // Transfer remaining positive balance (if any)
-      if (player.balance > 0) {
-        creditorPlayer.balance += player.balance;
+    const creditors = unpaid.size > 0 ? [...unpaid.keys()] : ['bank'];
+    for (const creditor of creditors) {
+      events.push({ type: 'bankruptcy', playerId: player.id, creditor });
+    }
+
+    const received: ReceivedMortgage[] = [];
+    const forSale = unpaid.size === 0 && this.auctionRules.bankruptcySales === 'auction'
+      ? [...player.properties.keys()].sort((a, b) => a - b)
+      : [];
+    if (unpaid.size > 0) {
+      // Each creditor takes their share of the assets; the cash all went on the debts
+      for (const [id, share] of divideEstate(player, unpaid)) {
+        const creditorPlayer = getPlayerById(state, id);
+        for (const pos of share.properties) {
+          const propState = player.properties.get(pos)!;
+          creditorPlayer.properties.set(pos, { ...propState });
+          if (propState.mortgaged) received.push({ playerId: id, position: pos });
+        }
+        creditorPlayer.jailCards.push(...share.jailCards);
       }
-      creditorPlayer.getOutOfJailCards += player.getOutOfJailCards;
     } else {
+      // Get Out of Jail Free cards go back to their decks
+      for (const card of player.jailCards) this.discardJailCard(state, card);
       // Return all houses/hotels to bank
       for (const [pos, propState] of player.properties) {
         if (propState.houses === 5) {
@@ -767,13 +1889,13 @@ export class GameEngine {
           state.bankHouses += propState.houses;
         }
       }
-      // Properties return to unowned (just clear from player)
+      // Properties return to unowned (just clear from player), to be auctioned below if the rules say so
     }
 
     player.properties.clear();
     player.balance = 0;
-    player.getOutOfJailCards = 0;
-    state.pendingDebt = null;
+    player.jailCards = [];
+    state.rentImmunities = state.rentImmunities.filter(i => i.grantorId !== player.id && i.beneficiaryId !== player.id);
 
     // Check for winner
     const activePlayers = getActivePlayers(state);
@@ -786,8 +1908,32 @@ export class GameEngine {
       });
     }
 
-    state.turnPhase = 'turn_complete';
-    this.advanceToNextPlayer(state);
+    const rest = state.winner ? [] : queue.filter(d => d.debtorId !== player.id);
+    if (player.id === state.players[state.currentPlayerIndex].id) {
+      // Play moves on, but the next player starts only once the other debtors have settled
+      state.pendingDebts = null;
+      state.turnPhase = 'turn_complete';
+      this.advanceToNextPlayer(state);
+      if (rest.length > 0) {
+        state.pendingDebts = { queue: rest, resumePhase: state.turnPhase };
+        this.collectDebts(state);
+      }
+    } else if (rest.length > 0) {
+      // The next debtor is asked to pay
+      state.pendingDebts!.queue = rest;
+    } else {
+      // An off-turn debtor went under; the current player's turn goes on
+      state.turnPhase = state.pendingDebts!.resumePhase;
+      state.pendingDebts = null;
+    }
+    // A creditor the estate put back in the black pays over what they owe
+    this.settleDebts(state, events);
+    this.queueReceivedMortgages(state, received);
+    if (forSale.length > 0 && !state.winner) {
+      // The bank sells them off at once, the next player bidding first
+      state.bankAuctions = { positions: forSale, resumePhase: state.turnPhase };
+      this.nextBankAuction(state, events);
+    }
 
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
@@ -799,11 +1945,12 @@ export class GameEngine {
     if (!player.inJail) {
       return { success: false, newState: state, events: [], error: 'Not in jail' };
     }
-    if (player.getOutOfJailCards <= 0) {
+    const card = player.jailCards.shift();
+    if (!card) {
       return { success: false, newState: state, events: [], error: 'No Get Out of Jail Free cards' };
     }
 
-    player.getOutOfJailCards--;
+    this.discardJailCard(state, card);
     player.inJail = false;
     player.jailTurns = 0;
     events.push({ type: 'get_out_of_jail', playerId: player.id, method: 'Get Out of Jail Free card' });
@@ -813,6 +1960,15 @@ export class GameEngine {
     return { success: true, newState: state, events };
   }
 
+  /** A used or surrendered Get Out of Jail Free card rejoins its own deck at the next reshuffle */
+  private discardJailCard(state: GameState, card: JailCard): void {
+    if (card.deck === 'chance') {
+      state.chanceDiscardPile.push(card.cardId);
+    } else {
+      state.communityChestDiscardPile.push(card.cardId);
+    }
+  }
+
   private handlePayJailFine(state: GameState, events: GameEvent[]): ActionResult {
     const player = state.players[state.currentPlayerIndex];
 
@@ -824,6 +1980,7 @@ export class GameEngine {
     }
 
     player.balance -= 50;
+    this.payBank(state, 50);
     player.inJail = false;
     player.jailTurns = 0;
     events.push({ type: 'get_out_of_jail', playerId: player.id, method: 'paid $50 fine' });
@@ -841,10 +1998,7 @@ export class GameEngine {
     player.position = (player.position + spaces) % 40;
     const passedGo = player.position < from && spaces > 0;
 
-    if (passedGo) {
-      player.balance += 200;
-      events.push({ type: 'pass_go', playerId: player.id, collected: 200 });
-    }
+    if (passedGo) this.paySalary(player, events);
 
     events.push({
       type: 'move',
@@ -865,12 +2019,8 @@ export class GameEngine {
     const from = player.position;
     const passedGo = collectGo && position < from && position !== from;
 
-    if (passedGo) {
-      player.balance += 200;
-      events.push({ type: 'pass_go', playerId: player.id, collected: 200 });
-    }
-
     player.position = position;
+    if (passedGo) this.paySalary(player, events);
     events.push({
       type: 'move',
       playerId: player.id,
@@ -880,11 +2030,19 @@ export class GameEngine {
     });
   }
 
+  /** Salary for passing Go, or twice it for landing right on Go under the double-salary rule */
+  private paySalary(player: PlayerState, events: GameEvent[]): void {
+    const collected = this.rules.doubleGoSalary && player.position === 0 ? this.rules.salary * 2 : this.rules.salary;
+    player.balance += collected;
+    events.push({ type: 'pass_go', playerId: player.id, collected });
+  }
+
   private sendToJail(state: GameState, player: PlayerState, events: GameEvent[], reason: string): void {
     player.position = 10;
     player.inJail = true;
     player.jailTurns = 0;
     player.doublesCount = 0;
+    state.mrMonopolyPending = false;
     events.push({ type: 'go_to_jail', playerId: player.id, reason });
   }
 
@@ -899,7 +2057,7 @@ export class GameEngine {
     const deck = isChance ? state.chanceDeck : state.communityChestDeck;
     const discard = isChance ? state.chanceDiscardPile : state.communityChestDiscardPile;
 
-    const result = drawCard(deck, discard, cards, this.rng);
+    const result = drawCard(deck, discard, cards, this.random(deckType));
 
     if (isChance) {
       state.chanceDeck = result.newDeck;
@@ -912,7 +2070,7 @@ export class GameEngine {
     const card = result.card;
     events.push({ type: 'draw_card', playerId: player.id, deck: deckType, cardText: card.text });
 
-    this.applyCardEffect(state, player, card.effect, events);
+    this.applyCardEffect(state, player, card, events);
 
     state.gameLog.push(...events);
     return { success: true, newState: state, events };
@@ -921,9 +2079,10 @@ export class GameEngine {
   private applyCardEffect(
     state: GameState,
     player: PlayerState,
-    effect: CardEffect,
+    card: Card,
     events: GameEvent[],
   ): void {
+    const { effect } = card;
     switch (effect.type) {
       case 'move_to':
         this.movePlayerToPosition(state, player, effect.position, effect.collectGo, events);
@@ -952,19 +2111,19 @@ export class GameEngine {
 
         const from = player.position;
         const passedGo = nearest < from;
-        if (passedGo) {
-          player.balance += 200;
-          events.push({ type: 'pass_go', playerId: player.id, collected: 200 });
-        }
         player.position = nearest;
+        if (passedGo) this.paySalary(player, events);
         events.push({ type: 'move', playerId: player.id, from, to: nearest, passedGo });
 
         // Handle rent with multiplier if owned
         const owner = getPropertyOwner(state, nearest);
         if (owner && owner.id !== player.id && !owner.properties.get(nearest)!.mortgaged) {
+          if (this.waiveRent(state, player, owner, nearest, events)) {
+            state.turnPhase = 'post_action';
+            break;
+          }
           const rent = calculateRent(state, nearest, state.lastDiceRoll!, effect.payMultiplier);
-          player.balance -= rent;
-          owner.balance += rent;
+          this.charge(state, player, owner.id, rent, `Card rent on ${getSpace(nearest).name}`);
           events.push({
             type: 'pay_rent',
             payerId: player.id,
@@ -972,12 +2131,7 @@ export class GameEngine {
             amount: rent,
             property: getSpace(nearest).name,
           });
-          if (player.balance < 0) {
-            state.pendingDebt = { creditor: owner.id, amount: -player.balance, reason: `Card rent on ${getSpace(nearest).name}` };
-            state.turnPhase = 'paying_debt';
-          } else {
-            state.turnPhase = 'post_action';
-          }
+          state.turnPhase = 'post_action';
         } else if (!owner) {
           state.turnPhase = 'purchase_decision';
         } else {
@@ -993,36 +2147,25 @@ export class GameEngine {
         break;
 
       case 'pay':
-        player.balance -= effect.amount;
+        this.charge(state, player, 'bank', effect.amount, 'Card payment');
         events.push({ type: 'pay', playerId: player.id, amount: effect.amount, reason: 'Card' });
-        if (player.balance < 0) {
-          state.pendingDebt = { creditor: 'bank', amount: -player.balance, reason: 'Card payment' };
-          state.turnPhase = 'paying_debt';
-        } else {
-          state.turnPhase = 'post_action';
-        }
+        state.turnPhase = 'post_action';
         break;
 
       case 'pay_per_house': {
         const { houses, hotels } = countHousesAndHotels(state, player.id);
         const total = houses * effect.houseAmount + hotels * effect.hotelAmount;
-        player.balance -= total;
+        this.charge(state, player, 'bank', total, 'Property repairs');
         events.push({ type: 'pay', playerId: player.id, amount: total, reason: `Repairs: ${houses} houses × $${effect.houseAmount} + ${hotels} hotels × $${effect.hotelAmount}` });
-        if (player.balance < 0) {
-          state.pendingDebt = { creditor: 'bank', amount: -player.balance, reason: 'Property repairs' };
-          state.turnPhase = 'paying_debt';
-        } else {
-          state.turnPhase = 'post_action';
-        }
+        state.turnPhase = 'post_action';
         break;
       }
 
-      case 'collect_from_each_player': {
-        let total = 0;
+      case 'collect_from_each_player':
+        // Anyone who can't pay owes the rest, and raises it before the drawer's turn goes on
         for (const other of state.players) {
           if (other.id !== player.id && !other.isBankrupt) {
-            other.balance -= effect.amount;
-            total += effect.amount;
+            this.charge(state, other, player.id, effect.amount, 'Card payment');
             events.push({
               type: 'transfer',
               fromPlayerId: other.id,
@@ -1032,17 +2175,14 @@ export class GameEngine {
             });
           }
         }
-        player.balance += total;
         state.turnPhase = 'post_action';
         break;
-      }
 
-      case 'pay_each_player': {
-        let total = 0;
+      case 'pay_each_player':
+        // Paid in seat order while the money lasts; whoever is left unpaid is owed
         for (const other of state.players) {
           if (other.id !== player.id && !other.isBankrupt) {
-            other.balance += effect.amount;
-            total += effect.amount;
+            this.charge(state, player, other.id, effect.amount, 'Card payment');
             events.push({
               type: 'transfer',
               fromPlayerId: player.id,
@@ -1052,18 +2192,11 @@ export class GameEngine {
             });
           }
         }
-        player.balance -= total;
-        if (player.balance < 0) {
-          state.pendingDebt = { creditor: 'bank', amount: -player.balance, reason: 'Card payment' };
-          state.turnPhase = 'paying_debt';
-        } else {
-          state.turnPhase = 'post_action';
-        }
+        state.turnPhase = 'post_action';
         break;
-      }
 
       case 'get_out_of_jail_free':
-        player.getOutOfJailCards++;
+        player.jailCards.push({ deck: card.deck, cardId: card.id });
         state.turnPhase = 'post_action';
         break;
 
@@ -1072,6 +2205,7 @@ export class GameEngine {
         state.turnPhase = 'post_action';
         break;
     }
+    this.collectDebts(state);
   }
 
   private advanceToNextPlayer(state: GameState): void {
@@ -1107,9 +2241,14 @@ export class GameEngine {
   private getAwaitingRollActions(state: GameState, player: PlayerState): AvailableAction[] {
     if (player.inJail) {
       const actions: AvailableAction[] = [
-        { action: 'roll_dice', description: 'Roll the dice. Doubles gets you out of jail.' },
+        {
+          action: 'roll_dice',
+          description: player.jailTurns + 1 >= this.rules.maxJailTurns
+            ? 'Roll the dice. Doubles gets you out of jail; otherwise you pay $50 and move anyway.'
+            : 'Roll the dice. Doubles gets you out of jail.',
+        },
       ];
-      if (player.getOutOfJailCards > 0) {
+      if (player.jailCards.length > 0) {
         actions.push({
           action: 'use_get_out_of_jail_card',
           description: 'Use a Get Out of Jail Free card.',
@@ -1127,6 +2266,24 @@ export class GameEngine {
     return [{ action: 'roll_dice', description: 'Roll the dice to move.' }];
   }
 
+  private getBusActions(state: GameState): AvailableAction[] {
+    if (!state.lastDiceRoll) return [];
+    const [die1, die2] = state.lastDiceRoll;
+    return [{
+      action: 'take_bus',
+      description: `The speed die rolled the bus: move ${die1}, ${die2} or ${die1 + die2} spaces.`,
+      parameters: {
+        spaces: {
+          type: 'number',
+          description: 'How many spaces to move.',
+          enum: busChoices(state.lastDiceRoll),
+          enumLabels: busChoices(state.lastDiceRoll).map(n => `${n} spaces`),
+        },
+      },
+      required: ['spaces'],
+    }];
+  }
+
   private getPurchaseDecisionActions(state: GameState, player: PlayerState): AvailableAction[] {
     const space = getSpace(player.position) as OwnableSpace;
     const actions: AvailableAction[] = [];
@@ -1139,16 +2296,50 @@ export class GameEngine {
     }
     actions.push({
       action: 'auction_property',
-      description: `Decline to buy ${space.name}. It goes to auction.`,
+      description: this.rules.mandatoryAuctions
+        ? `Decline to buy ${space.name}. It goes to auction.`
+        : `Decline to buy ${space.name}. It stays unowned.`,
     });
 
     return actions;
   }
 
   private getAuctionActions(state: GameState, player: PlayerState): AvailableAction[] {
+    if (state.auction?.mode === 'ascending') {
+      const minimum = this.getMinimumBid(state);
+      const standing = state.auction.highBidderId
+        ? `The high bid is $${state.auction.highBid} by ${getPlayerById(state, state.auction.highBidderId).name}.`
+        : 'No bids yet.';
+      return [{
+        action: 'submit_bid',
+        description: `Raise the bid for the property being auctioned. ${standing} Bid 0 to drop out.`,
+        parameters: {
+          amount: {
+            type: 'number',
+            description: `Your bid amount (at least $${minimum}, max $${player.balance}; 0 drops you out for good).`,
+          },
+        },
+        required: ['amount'],
+      }];
+    }
+    if (state.auction?.mode === 'dutch') {
+      const price = state.auction.askingPrice;
+      return [{
+        action: 'submit_bid',
+        description: `Take the property being auctioned at the asking price of $${price}, or bid 0 to wait for a lower price.`,
+        parameters: {
+          amount: {
+            type: 'number',
+            description: `$${price} to buy now, 0 to pass this round.`,
+          },
+        },
+        required: ['amount'],
+      }];
+    }
+    const pays = state.auction?.mode === 'vickrey' ? 'the second-highest bid' : 'their own bid';
     return [{
       action: 'submit_bid',
-      description: 'Submit your bid for the property being auctioned. Bid 0 to pass.',
+      description: `Submit your bid for the property being auctioned. Bid 0 to pass. The highest bidder wins and pays ${pays}.`,
       parameters: {
         amount: {
           type: 'number',
@@ -1167,28 +2358,108 @@ export class GameEngine {
     this.addMortgageActions(state, player, actions);
     this.addTradeActions(state, player, actions);
 
-    // Can always declare bankruptcy
+    // Can always declare bankruptcy; the debt is paid the moment the money is raised
     actions.push({
       action: 'declare_bankruptcy',
       description: 'Declare bankruptcy. You are eliminated from the game.',
     });
 
-    // If balance is now non-negative, debt is resolved
-    if (player.balance >= 0) {
-      actions.push({
-        action: 'end_turn',
-        description: 'Debt resolved. End your turn.',
-      });
-    }
-
     return actions;
   }
 
   private getTradingActions(state: GameState): AvailableAction[] {
-    return [
+    const actions: AvailableAction[] = [
       { action: 'accept_trade', description: 'Accept the trade offer.' },
       { action: 'reject_trade', description: 'Reject the trade offer.' },
     ];
+
+    const trade = state.activeTrade;
+    const countersLeft = MAX_COUNTER_OFFERS - ((state.negotiation?.thread.length ?? 1) - 1);
+    if (!trade || trade.participants || countersLeft <= 0) return actions;
+
+    const unimproved = (playerId: string) => Array.from(getPlayerById(state, playerId).properties.entries())
+      .filter(([, ps]) => ps.houses === 0)
+      .map(([pos]) => pos);
+    const proposer = getPlayerById(state, trade.fromPlayerId);
+    const responder = getPlayerById(state, trade.toPlayerId);
+    const owned = [...responder.properties.keys(), ...proposer.properties.keys()].sort((a, b) => a - b);
+
+    actions.push({
+      action: 'counter_offer',
+      description: `Reject these terms and propose your own to ${proposer.name} instead (${countersLeft} counter-offer${countersLeft === 1 ? '' : 's'} left in this negotiation).`,
+      parameters: {
+        offered_properties: {
+          type: 'array',
+          description: 'Board positions of properties you are offering.',
+          items: { type: 'number', description: 'Property position', enum: unimproved(trade.toPlayerId) },
+        },
+        offered_money: {
+          type: 'number',
+          description: 'Amount of money you are offering (0 if none).',
+        },
+        requested_properties: {
+          type: 'array',
+          description: `Board positions of ${proposer.name}'s properties you are requesting.`,
+          items: { type: 'number', description: 'Property position', enum: unimproved(trade.fromPlayerId) },
+        },
+        requested_money: {
+          type: 'number',
+          description: 'Amount of money you are requesting (0 if none).',
+        },
+        ...tradeExtraParameters(responder.jailCards.length, proposer.jailCards.length, owned),
+      },
+      required: ['offered_properties', 'offered_money', 'requested_properties', 'requested_money'],
+    });
+    return actions;
+  }
+
+  private getTradeWindowActions(state: GameState, proposer: PlayerState): AvailableAction[] {
+    const actions: AvailableAction[] = [
+      { action: 'skip_trade', description: 'Make no trade offer before the next turn.' },
+    ];
+    this.addTradeActions(state, proposer, actions);
+    return actions;
+  }
+
+  private getBuildingBidActions(state: GameState, player: PlayerState): AvailableAction[] {
+    const auction = state.buildingAuction!;
+    const minimum = auction.highBid + this.auctionRules.minIncrement;
+    const leader = getPlayerById(state, auction.highBidderId).name;
+    return [{
+      action: 'bid_building',
+      description: `Bid for the bank's next ${auction.building} — there aren't enough to go round. The high bid is $${auction.highBid} by ${leader}. Bid 0 to drop out.`,
+      parameters: {
+        amount: {
+          type: 'number',
+          description: `Your bid (at least $${minimum} and the house cost where you'd build, max $${player.balance}; 0 drops you out for good).`,
+        },
+        property_position: {
+          type: 'number',
+          description: `Where the ${auction.building} goes if you win.`,
+          enum: this.buildSites(state, player, auction.building),
+        },
+      },
+      required: ['amount', 'property_position'],
+    }];
+  }
+
+  private getMortgageDecisionActions(state: GameState, player: PlayerState): AvailableAction[] {
+    const { position } = state.mortgageTransfers!.pending[0];
+    const space = getSpace(position) as OwnableSpace;
+    const interest = mortgageInterest(position);
+    const actions: AvailableAction[] = [];
+
+    if (player.balance >= space.mortgageValue + interest) {
+      actions.push({
+        action: 'lift_mortgage',
+        description: `Lift the mortgage on ${space.name} you just received: pay $${space.mortgageValue + interest} (mortgage value + 10% interest) now.`,
+      });
+    }
+    actions.push({
+      action: 'keep_mortgage',
+      description: `Keep ${space.name} mortgaged: pay $${interest} (10% interest) now, and mortgage value + 10% again when you unmortgage it later.`,
+    });
+    return actions;
   }
 
   private getPostActionActions(state: GameState, player: PlayerState): AvailableAction[] {
@@ -1204,14 +2475,14 @@ export class GameEngine {
     return actions;
   }
 
-  private addBuildActions(state: GameState, player: PlayerState, actions: AvailableAction[]): void {
-    const buildablePositions: number[] = [];
-    const hotelPositions: number[] = [];
+  /** Where `player` could afford to put up a house, or turn 4 houses into a hotel, whatever the bank has left */
+  private buildSites(state: GameState, player: PlayerState, building: 'house' | 'hotel'): number[] {
+    const sites: number[] = [];
 
     for (const [pos, propState] of player.properties) {
       const space = getSpace(pos);
       if (space.type !== 'property') continue;
-      if (propState.mortgaged) continue;
+      if (propState.mortgaged || player.balance < space.houseCost) continue;
 
       const groupPositions = COLOR_GROUP_MEMBERS[space.colorGroup];
       if (!playerOwnsColorGroup(state, player.id, groupPositions)) continue;
@@ -1220,15 +2491,19 @@ export class GameEngine {
       const anyMortgaged = groupPositions.some(gp => player.properties.get(gp)?.mortgaged);
       if (anyMortgaged) continue;
 
-      if (propState.houses < 4) {
+      if (building === 'hotel') {
+        if (propState.houses === 4) sites.push(pos);
+      } else if (propState.houses < 4) {
         const minHouses = Math.min(...groupPositions.map(p => player.properties.get(p)!.houses));
-        if (propState.houses <= minHouses && player.balance >= space.houseCost && state.bankHouses > 0) {
-          buildablePositions.push(pos);
-        }
-      } else if (propState.houses === 4 && state.bankHotels > 0 && player.balance >= space.houseCost) {
-        hotelPositions.push(pos);
+        if (!this.rules.evenBuild || propState.houses <= minHouses) sites.push(pos);
       }
     }
+    return sites;
+  }
+
+  private addBuildActions(state: GameState, player: PlayerState, actions: AvailableAction[]): void {
+    const buildablePositions = state.bankHouses > 0 ? this.buildSites(state, player, 'house') : [];
+    const hotelPositions = state.bankHotels > 0 ? this.buildSites(state, player, 'hotel') : [];
 
     if (buildablePositions.length > 0) {
       actions.push({
@@ -1270,12 +2545,13 @@ export class GameEngine {
       if (propState.houses === 0) continue;
 
       if (propState.houses === 5) {
-        sellablePositions.push(pos);
+        // Only while the bank has the 4 houses to break it down into
+        if (state.bankHouses >= 4) sellablePositions.push(pos);
       } else {
         // Even selling: can only sell from properties with max houses in group
         const groupPositions = COLOR_GROUP_MEMBERS[space.colorGroup];
         const maxHouses = Math.max(...groupPositions.map(p => player.properties.get(p)?.houses ?? 0));
-        if (propState.houses >= maxHouses) {
+        if (!this.rules.evenBuild || propState.houses >= maxHouses) {
           sellablePositions.push(pos);
         }
       }
@@ -1359,13 +2635,22 @@ export class GameEngine {
 
   private addTradeActions(state: GameState, player: PlayerState, actions: AvailableAction[]): void {
     const otherPlayers = state.players.filter(p => p.id !== player.id && !p.isBankrupt);
-    if (otherPlayers.length === 0 || player.properties.size === 0) return;
+    if (otherPlayers.length === 0) return;
 
     const tradablePositions = Array.from(player.properties.entries())
       .filter(([_, ps]) => ps.houses === 0)
       .map(([pos, _]) => pos);
 
-    if (tradablePositions.length === 0) return;
+    // A Get Out of Jail Free card on either side is enough to deal over, e.g. selling it for cash
+    const cardsInPlay = player.jailCards.length > 0 || otherPlayers.some(p => p.jailCards.length > 0);
+    if (tradablePositions.length === 0 && !cardsInPlay) return;
+
+    const owned = [player, ...otherPlayers].flatMap(p => [...p.properties.keys()]).sort((a, b) => a - b);
+    const unimproved = [player, ...otherPlayers]
+      .flatMap(p => Array.from(p.properties.entries()).filter(([, ps]) => ps.houses === 0).map(([pos]) => pos))
+      .sort((a, b) => a - b);
+    const twoWay = ['target_player_id', 'offered_properties', 'offered_money', 'requested_properties', 'requested_money'];
+    const extras = tradeExtraParameters(player.jailCards.length, Math.max(...otherPlayers.map(p => p.jailCards.length)), owned);
 
     actions.push({
       action: 'trade_offer',
@@ -1394,12 +2679,44 @@ export class GameEngine {
           type: 'number',
           description: 'Amount of money you are requesting (0 if none).',
         },
+        ...extras,
+        ...(otherPlayers.length > 1 && {
+          participants: {
+            type: 'array',
+            description: 'For a deal among three or more players: every participant, you included, with what each gives and receives (replaces the fields above).',
+            replaces: [...twoWay, ...Object.keys(extras)],
+            items: {
+              type: 'object',
+              description: 'One participant',
+              properties: {
+                player_id: { type: 'string', description: 'Participant', enum: [player.id, ...otherPlayers.map(p => p.id)] },
+                gives_properties: { type: 'array', description: 'Board positions they hand over', items: { type: 'number', description: 'Property position', enum: unimproved } },
+                gives_money: { type: 'number', description: 'Money they put in' },
+                receives_properties: { type: 'array', description: 'Board positions they get', items: { type: 'number', description: 'Property position', enum: unimproved } },
+                receives_money: { type: 'number', description: 'Money they take out' },
+              },
+              required: ['player_id', 'gives_properties', 'gives_money', 'receives_properties', 'receives_money'],
+            },
+          },
+        }),
       },
-      required: ['target_player_id', 'offered_properties', 'offered_money', 'requested_properties', 'requested_money'],
+      required: twoWay,
     });
   }
 
-  private describeTradeOffer(trade: TradeOffer): string {
+  private describeTradeOffer(state: GameState, trade: TradeOffer): string {
+    const cards = (n: number) => `${n} Get Out of Jail Free card${n === 1 ? '' : 's'}`;
+
+    if (trade.participants) {
+      const items = (positions: number[], money: number) => [
+        ...positions.map(p => getSpace(p).name),
+        ...(money > 0 ? [`$${money}`] : []),
+      ].join(' and ') || 'nothing';
+      return trade.participants
+        .map(side => `${getPlayerById(state, side.playerId).name} gives ${items(side.givesProperties, side.givesMoney)} and gets ${items(side.receivesProperties, side.receivesMoney)}`)
+        .join('; ');
+    }
+
     const parts: string[] = [];
     if (trade.offeredProperties.length > 0) {
       parts.push(`properties at [${trade.offeredProperties.map(p => getSpace(p).name).join(', ')}]`);
@@ -1407,6 +2724,9 @@ export class GameEngine {
     if (trade.offeredMoney > 0) {
       parts.push(`$${trade.offeredMoney}`);
     }
+    if (trade.offeredJailCards) {
+      parts.push(cards(trade.offeredJailCards));
+    }
     const offered = parts.join(' and ') || 'nothing';
 
     const reqParts: string[] = [];
@@ -1416,8 +2736,12 @@ export class GameEngine {
     if (trade.requestedMoney > 0) {
       reqParts.push(`$${trade.requestedMoney}`);
     }
+    if (trade.requestedJailCards) {
+      reqParts.push(cards(trade.requestedJailCards));
+    }
     const requested = reqParts.join(' and ') || 'nothing';
 
-    return `Offered ${offered} for ${requested}`;
+    const terms = (trade.immunities ?? []).map(term => describeImmunity(state, term));
+    return `Offered ${offered} for ${requested}${terms.map(t => `; ${t}`).join('')}`;
   }
 }
@@ -1,20 +1,22 @@
-import { GameState, PlayerState, ScenarioConfig } from './types';
+import { GameState, PlayerState, ScenarioConfig, Card } from './types';
 import { CHANCE_CARDS, COMMUNITY_CHEST_CARDS, createShuffledDeck } from './cards';
 import { getSpace } from './board-data';
+import { RngSource, streamOf } from './dice';
 
 export function createInitialState(
   playerConfigs: { id: string; name: string }[],
-  rng: () => number,
+  rng: RngSource,
+  startingCash = 1500,
 ): GameState {
   const players: PlayerState[] = playerConfigs.map(config => ({
     id: config.id,
     name: config.name,
     position: 0,
-    balance: 1500,
+    balance: startingCash,
     properties: new Map(),
     inJail: false,
     jailTurns: 0,
-    getOutOfJailCards: 0,
+    jailCards: [],
     isBankrupt: false,
     doublesCount: 0,
   }));
@@ -25,19 +27,54 @@ export function createInitialState(
     turnPhase: 'pre_roll',
     turnNumber: 1,
     lastDiceRoll: null,
-    chanceDeck: createShuffledDeck(CHANCE_CARDS, rng),
-    communityChestDeck: createShuffledDeck(COMMUNITY_CHEST_CARDS, rng),
+    lastSpeedDie: null,
+    mrMonopolyPending: false,
+    chanceDeck: createShuffledDeck(CHANCE_CARDS, streamOf(rng, 'chance')),
+    communityChestDeck: createShuffledDeck(COMMUNITY_CHEST_CARDS, streamOf(rng, 'community_chest')),
     chanceDiscardPile: [],
     communityChestDiscardPile: [],
     bankHouses: 32,
     bankHotels: 12,
+    freeParkingPot: 0,
     activeTrade: null,
-    pendingDebt: null,
+    negotiation: null,
+    rentImmunities: [],
+    tradeWindow: null,
+    mortgageTransfers: null,
+    bankAuctions: null,
+    buildingAuction: null,
+    messagesThisTurn: {},
+    pendingDebts: null,
+    auction: null,
     gameLog: [],
     winner: null,
   };
 }
 
+/**
+ * Take a Get Out of Jail Free card out of circulation and put it in
+ * `player`'s hand — from `deck` if given, otherwise from whichever deck
+ * still has one (Chance first).
+ */
+export function dealJailCard(state: GameState, player: PlayerState, deck?: Card['deck']): void {
+  const piles = [
+    { deck: 'chance' as const, cards: CHANCE_CARDS, draw: state.chanceDeck, discard: state.chanceDiscardPile },
+    { deck: 'community_chest' as const, cards: COMMUNITY_CHEST_CARDS, draw: state.communityChestDeck, discard: state.communityChestDiscardPile },
+  ];
+  for (const pile of piles) {
+    if (deck && pile.deck !== deck) continue;
+    const cardId = pile.cards.findIndex(c => c.effect.type === 'get_out_of_jail_free');
+    for (const list of [pile.draw, pile.discard]) {
+      const at = list.indexOf(cardId);
+      if (at === -1) continue;
+      list.splice(at, 1);
+      player.jailCards.push({ deck: pile.deck, cardId });
+      return;
+    }
+  }
+  throw new Error(`No ${deck ? `${deck} ` : ''}Get Out of Jail Free card left to deal to ${player.name}`);
+}
+
 export function applyScenario(state: GameState, scenario: ScenarioConfig): GameState {
   for (let i = 0; i < scenario.players.length && i < state.players.length; i++) {
     const preset = scenario.players[i];
@@ -46,7 +83,7 @@ export function applyScenario(state: GameState, scenario: ScenarioConfig): GameS
     if (preset.name !== undefined) player.name = preset.name;
     if (preset.balance !== undefined) player.balance = preset.balance;
     if (preset.position !== undefined) player.position = preset.position;
-    if (preset.getOutOfJailCards !== undefined) player.getOutOfJailCards = preset.getOutOfJailCards;
+    for (let n = 0; n < (preset.getOutOfJailCards ?? 0); n++) dealJailCard(state, player);
     if (preset.inJail !== undefined) {
       player.inJail = preset.inJail;
       if (preset.inJail) player.position = 10; // Jail position
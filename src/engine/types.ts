@@ -1,3 +1,5 @@
+import { SpeedDieFace } from './dice';
+
 // ── Space Types ──
 
 export type SpaceType =
@@ -108,6 +110,13 @@ export interface Card {
 
 // ── Player State ──
 
+/** A Get Out of Jail Free card in a player's hand; it goes back to its own deck's discard pile when used */
+export interface JailCard {
+  deck: Card['deck'];
+  /** The card's id, which is also its index in that deck's card list */
+  cardId: number;
+}
+
 export interface PropertyState {
   houses: number; // 0-4 = houses, 5 = hotel
   mortgaged: boolean;
@@ -121,7 +130,7 @@ export interface PlayerState {
   properties: Map<number, PropertyState>; // position → state
   inJail: boolean;
   jailTurns: number;
-  getOutOfJailCards: number;
+  jailCards: JailCard[];
   isBankrupt: boolean;
   doublesCount: number;
 }
@@ -137,27 +146,206 @@ export type TurnPhase =
   | 'paying_debt'
   | 'trading'
   | 'post_action'
+  | 'trade_window'
+  | 'mortgage_decision'
+  | 'building_auction'
+  | 'bus_choice'
   | 'turn_complete';
 
 // ── Trade ──
 
 export interface TradeOffer {
   fromPlayerId: string;
+  /** The player whose answer is awaited; in a multi-party trade it moves on as each participant accepts */
   toPlayerId: string;
   offeredProperties: number[];
   offeredMoney: number;
   requestedProperties: number[];
   requestedMoney: number;
+  /** Get Out of Jail Free cards each side hands over (none when omitted) */
+  offeredJailCards?: number;
+  requestedJailCards?: number;
+  /** Rent waivers agreed as part of the deal */
+  immunities?: ImmunityTerm[];
+  /**
+   * Every player in a deal among three or more, the proposer included. When
+   * set, it replaces the two-sided terms above.
+   */
+  participants?: TradeParticipant[];
+}
+
+/** One player's part in a multi-party trade: what they put into the deal and what they take out */
+export interface TradeParticipant {
+  playerId: string;
+  givesProperties: number[];
+  givesMoney: number;
+  receivesProperties: number[];
+  receivesMoney: number;
+}
+
+/**
+ * One side of a trade stops paying rent on a property the other side will
+ * own once the trade goes through, for a number of landings or of the
+ * beneficiary's own turns (a turn in progress counts once it ends).
+ */
+export interface ImmunityTerm {
+  position: number;
+  beneficiaryId: string;
+  limit: 'landings' | 'turns';
+  count: number;
+}
+
+/** A traded rent waiver in force; it only applies while the grantor still owns the property */
+export interface RentImmunity {
+  position: number;
+  grantorId: string;
+  beneficiaryId: string;
+  limit: 'landings' | 'turns';
+  /** Landings or turns still covered */
+  remaining: number;
+}
+
+/** Between turns, every player in seat order gets the chance to put one trade to the table */
+export interface TradeWindow {
+  /** Players still to be asked for an offer; the first is being asked now */
+  proposers: string[];
+}
+
+/** A bankrupt player's properties going under the hammer, one auction after another */
+export interface BankAuctions {
+  /** Positions still to be auctioned after the one currently up */
+  positions: number[];
+  /** Phase to return to once the last one is sold */
+  resumePhase: TurnPhase;
+}
+
+/** A mortgaged property that changed hands in a trade or bankruptcy and whose new owner still owes the interest */
+export interface ReceivedMortgage {
+  playerId: string;
+  position: number;
+}
+
+/** New owners deciding, one property at a time, whether to lift the mortgages they were handed */
+export interface MortgageTransfers {
+  /** Decisions still owed; the first is being asked now */
+  pending: ReceivedMortgage[];
+  /** Phase to return to once every decision is made */
+  resumePhase: TurnPhase;
+}
+
+/** Back-and-forth over one deal: the opening offer, then each counter-offer in turn */
+export interface TradeNegotiation {
+  /** Every version of the deal, oldest first; the last one is the active trade */
+  thread: TradeOffer[];
+  /** Multi-party trades: participants who have accepted so far */
+  acceptedBy: string[];
 }
 
 // ── Debt ──
 
-export interface PendingDebt {
+/** Money a player was charged but couldn't cover; the creditor is paid once the debtor raises it */
+export interface Debt {
+  debtorId: string;
   creditor: string | 'bank';
   amount: number;
   reason: string;
 }
 
+export interface PendingDebts {
+  /** Unpaid debts in the order they arose; the first one's debtor is being asked to pay now */
+  queue: Debt[];
+  /** Phase to return to once every debt is paid or written off */
+  resumePhase: TurnPhase;
+}
+
+// ── Auctions ──
+
+/**
+ * 'ascending' is an open-outcry auction: players take turns raising by at
+ * least the minimum increment or dropping out, until one bidder is left.
+ * 'sealed' (first-price) and 'vickrey' (second-price) collect one hidden bid
+ * per player; the highest bid wins and pays its own bid or the runner-up's.
+ * 'dutch' starts at list price and lowers the asking price each round until
+ * someone takes it.
+ */
+export type AuctionMode = 'ascending' | 'sealed' | 'vickrey' | 'dutch';
+
+/**
+ * What the bank does with the properties of a player bankrupt to it.
+ * 'auction' (the official rule) sells each one off straight away, free of
+ * any mortgage; 'unowned' is the house rule of putting them back on the
+ * board for whoever lands on them next.
+ */
+export type BankruptcySales = 'auction' | 'unowned';
+
+export interface AuctionRules {
+  mode: AuctionMode;
+  /** Smallest raise over the current high bid (and the smallest opening bid) */
+  minIncrement: number;
+  bankruptcySales: BankruptcySales;
+}
+
+export interface AuctionState {
+  position: number;
+  mode: AuctionMode;
+  minIncrement: number;
+  /** Players still bidding, in bidding order */
+  bidders: string[];
+  /** Index into `bidders` of the player whose bid is awaited */
+  nextBidder: number;
+  highBid: number;
+  highBidderId: string | null;
+  /** Sealed and Vickrey modes: bids so far, kept hidden until everyone has bid */
+  sealedBids: Record<string, number>;
+  /** Dutch mode: the price on offer this round */
+  askingPrice: number;
+}
+
+/**
+ * Housing shortage: the bank has fewer houses (or hotels) than there are
+ * players able to build one, so the next one goes to the highest bidder.
+ * Bidding is ascending and opens at the requester's house cost.
+ */
+export interface BuildingAuction {
+  building: 'house' | 'hotel';
+  /** Players still bidding, in bidding order; the requester bids last */
+  bidders: string[];
+  /** Index into `bidders` of the player whose bid is awaited */
+  nextBidder: number;
+  highBid: number;
+  highBidderId: string;
+  /** The property each bidder would put the building on if they win */
+  placements: Record<string, number>;
+  /** Phase the builder asked from, returned to once the building is sold */
+  resumePhase: TurnPhase;
+}
+
+// ── House Rules ──
+
+/**
+ * The rules a table plays by. DEFAULT_RULES in the engine are the official
+ * ones; each field here is a common house rule or a value tables change.
+ */
+export interface RuleSet {
+  /** Taxes, fines and card payments to the bank build up a pot that whoever lands on Free Parking collects */
+  freeParkingJackpot: boolean;
+  /** Landing exactly on Go pays twice the salary */
+  doubleGoSalary: boolean;
+  /** An owner in jail collects no rent */
+  noRentInJail: boolean;
+  /** A declined property goes to auction; when off it just stays unowned */
+  mandatoryAuctions: boolean;
+  startingCash: number;
+  /** Paid for passing or landing on Go */
+  salary: number;
+  /** Houses are built and sold evenly across a color group */
+  evenBuild: boolean;
+  /** Failed rolls for doubles before the fine must be paid and the player moves out */
+  maxJailTurns: number;
+  /** Roll a third, speed die outside jail (Mega Monopoly) */
+  speedDie: boolean;
+}
+
 // ── Game State ──
 
 export interface GameState {
@@ -166,14 +354,29 @@ export interface GameState {
   turnPhase: TurnPhase;
   turnNumber: number;
   lastDiceRoll: [number, number] | null;
+  /** Speed die rule: the speed die from the same roll as lastDiceRoll, if one was rolled */
+  lastSpeedDie: SpeedDieFace | null;
+  /** Speed die rule: Mr. Monopoly was rolled and moves the player on once the first landing is dealt with */
+  mrMonopolyPending: boolean;
   chanceDeck: number[];
   communityChestDeck: number[];
   chanceDiscardPile: number[];
   communityChestDiscardPile: number[];
   bankHouses: number;
   bankHotels: number;
+  /** Free Parking jackpot rule: money paid to the bank since someone last collected it */
+  freeParkingPot: number;
   activeTrade: TradeOffer | null;
-  pendingDebt: PendingDebt | null;
+  negotiation: TradeNegotiation | null;
+  rentImmunities: RentImmunity[];
+  tradeWindow: TradeWindow | null;
+  mortgageTransfers: MortgageTransfers | null;
+  bankAuctions: BankAuctions | null;
+  buildingAuction: BuildingAuction | null;
+  /** Table-talk messages each player has sent this turn, for the per-turn limit */
+  messagesThisTurn: Record<string, number>;
+  pendingDebts: PendingDebts | null;
+  auction: AuctionState | null;
   gameLog: GameEvent[];
   winner: string | null;
 }
@@ -182,6 +385,7 @@ export interface GameState {
 
 export type GameAction =
   | { action: 'roll_dice' }
+  | { action: 'take_bus'; spaces: number }
   | { action: 'buy_property' }
   | { action: 'auction_property' }
   | { action: 'build_house'; propertyPosition: number }
@@ -192,11 +396,19 @@ export type GameAction =
   | { action: 'trade_offer'; offer: TradeOffer }
   | { action: 'accept_trade' }
   | { action: 'reject_trade' }
+  | { action: 'skip_trade' }
+  | { action: 'lift_mortgage' }
+  | { action: 'keep_mortgage' }
+  | { action: 'counter_offer'; offer: TradeOffer }
+  /** toPlayerId null addresses every opponent */
+  | { action: 'send_message'; toPlayerId: string | null; text: string }
   | { action: 'end_turn' }
   | { action: 'declare_bankruptcy' }
   | { action: 'use_get_out_of_jail_card' }
   | { action: 'pay_jail_fine' }
-  | { action: 'submit_bid'; amount: number };
+  | { action: 'submit_bid'; amount: number }
+  /** propertyPosition says where the building goes, and is needed for any bid above 0 */
+  | { action: 'bid_building'; amount: number; propertyPosition?: number };
 
 export interface ActionResult {
   success: boolean;
@@ -216,23 +428,35 @@ export interface ParameterSchema {
   type: 'string' | 'number' | 'boolean' | 'object' | 'array';
   description: string;
   enum?: (string | number)[];
+  /** Menu labels for the enum values, in order; numbers are otherwise shown as board positions */
+  enumLabels?: string[];
   properties?: Record<string, ParameterSchema>;
   items?: ParameterSchema;
   required?: string[];
+  /** Parameters this one stands in for when given, as a multi-party deal does for the two-way fields */
+  replaces?: string[];
 }
 
 // ── Game Events ──
 
 export type GameEvent =
-  | { type: 'roll_dice'; playerId: string; dice: [number, number]; doubles: boolean }
+  | { type: 'roll_dice'; playerId: string; dice: [number, number]; doubles: boolean; speedDie?: SpeedDieFace }
+  | { type: 'mr_monopoly'; playerId: string; property: string | null }
   | { type: 'move'; playerId: string; from: number; to: number; passedGo: boolean }
   | { type: 'land'; playerId: string; spaceName: string; position: number }
   | { type: 'pay_rent'; payerId: string; ownerId: string; amount: number; property: string }
+  | { type: 'rent_waived'; payerId: string; ownerId: string; property: string; remaining: number; limit: 'landings' | 'turns' }
+  | { type: 'rent_waived_in_jail'; payerId: string; ownerId: string; property: string }
   | { type: 'buy_property'; playerId: string; property: string; price: number; position: number }
   | { type: 'auction_start'; property: string; position: number }
   | { type: 'auction_bid'; playerId: string; amount: number }
   | { type: 'auction_won'; playerId: string; property: string; price: number }
   | { type: 'auction_no_bids'; property: string }
+  | { type: 'property_declined'; playerId: string; property: string }
+  | { type: 'building_auction_start'; building: 'house' | 'hotel'; playerId: string; bankSupply: number }
+  | { type: 'building_bid'; playerId: string; amount: number }
+  | { type: 'building_auction_won'; playerId: string; building: 'house' | 'hotel'; property: string; position: number; price: number }
+  | { type: 'auction_price'; property: string; price: number }
   | { type: 'build_house'; playerId: string; property: string; position: number; houses: number }
   | { type: 'build_hotel'; playerId: string; property: string; position: number }
   | { type: 'sell_house'; playerId: string; property: string; position: number; houses: number }
@@ -242,11 +466,19 @@ export type GameEvent =
   | { type: 'get_out_of_jail'; playerId: string; method: string }
   | { type: 'mortgage'; playerId: string; property: string; position: number; received: number }
   | { type: 'unmortgage'; playerId: string; property: string; position: number; cost: number }
+  | { type: 'mortgage_interest'; playerId: string; property: string; position: number; amount: number }
   | { type: 'trade_completed'; fromPlayer: string; toPlayer: string; description: string }
   | { type: 'trade_rejected'; fromPlayer: string; toPlayer: string }
+  | { type: 'trade_countered'; fromPlayer: string; toPlayer: string; description: string; round: number }
+  | { type: 'trade_agreed'; player: string; waitingOn: string }
+  | { type: 'trade_failed'; fromPlayer: string; reason: string }
+  | { type: 'debt_paid'; debtorId: string; creditor: string | 'bank'; amount: number; reason: string }
   | { type: 'bankruptcy'; playerId: string; creditor: string | 'bank' }
   | { type: 'game_over'; winnerId: string; reason: string }
   | { type: 'pass_go'; playerId: string; collected: number }
   | { type: 'collect'; playerId: string; amount: number; reason: string }
   | { type: 'pay'; playerId: string; amount: number; reason: string }
-  | { type: 'transfer'; fromPlayerId: string; toPlayerId: string; amount: number; reason: string };
+  | { type: 'transfer'; fromPlayerId: string; toPlayerId: string; amount: number; reason: string }
+  | { type: 'player_message'; fromPlayerId: string; toPlayerId: string | null; text: string };
+
+export type PlayerMessage = Extract<GameEvent, { type: 'player_message' }>;
@@ -1,69 +1,102 @@
 import { appendFileSync, readFileSync } from 'fs';
-import { GameState, GameAction, TradeOffer, ScenarioConfig } from './engine/types';
+import { GameState, GameAction, GameEvent, ActionResult, TradeOffer, TradeParticipant, ScenarioConfig, PlayerMessage } from './engine/types';
 import { GameEngine } from './engine/game-engine';
 import { createInitialState, applyScenario } from './engine/game-state';
 import { getSpace } from './engine/board-data';
 import { getActivePlayers, getPlayerById } from './engine/bank';
-import { createRng } from './engine/dice';
+import { GameRng } from './engine/dice';
 import { LLMAdapter, ChatMessage, ContentBlock, ToolDefinition, LLMResponse } from './llm/types';
-import { STATIC_TOOLS, formatAvailableActions, translateActionsToTools } from './llm/tool-translator';
+import { STATIC_TOOLS, TURN_TOOLS, formatAvailableActions, translateActionsToTools } from './llm/tool-translator';
 import { buildSystemPrompt, buildTurnMessage, buildAuctionMessage } from './llm/prompt-builder';
 import { Renderer } from './display/renderer';
-import { InkRenderer } from './display/ink-renderer';
+import { GameObserver, ObserverBus } from './display/observer';
 import { GameLogger } from './logger';
-import { GameConfig } from './config';
-
-type AnyRenderer = Renderer | InkRenderer;
+import { GameConfig, SeatConfig } from './config';
+import { GameSnapshot, UsageTotals, createSnapshot, snapshotToJson, readSnapshot, writeSnapshot } from './snapshot';
 
 const ERROR_LOG = 'monopoly-errors.log';
 
-const PLAYER_NAMES = ['Alice', 'Bob', 'Charlie', 'Diana'];
-const MAX_ACTIONS_PER_TURN = 20;
+export const MAX_ACTIONS_PER_TURN = 20;
 const MAX_RETRIES = 3;
+const TRADE_RESPONSES: GameAction['action'][] = ['accept_trade', 'reject_trade', 'counter_offer', 'send_message'];
+const TRADE_WINDOW_ACTIONS: GameAction['action'][] = ['trade_offer', 'skip_trade', 'send_message'];
+const MORTGAGE_DECISIONS: GameAction['action'][] = ['lift_mortgage', 'keep_mortgage', 'send_message'];
+const BUILDING_BIDS: GameAction['action'][] = ['bid_building', 'send_message'];
+const DEBT_ACTIONS: GameAction['action'][] = ['sell_house', 'mortgage_property', 'trade_offer', 'declare_bankruptcy', 'send_message'];
 
 interface PlayerContext {
+  seat: SeatConfig;
   adapter: LLMAdapter;
   systemPrompt: string;
   history: ChatMessage[];
+  /** Table talk waiting for this player's next turn message */
+  inbox: PlayerMessage[];
 }
 
 export class GameLoop {
   private state!: GameState;
   private engine: GameEngine;
   private players: Map<string, PlayerContext> = new Map();
-  private renderer: AnyRenderer;
+  private renderer: ObserverBus;
   private logger: GameLogger;
   private config: GameConfig;
-  private rng: () => number;
-  private totalUsage = { inputTokens: 0, outputTokens: 0, cacheCreation: 0, cacheRead: 0, apiCalls: 0 };
-
-  constructor(config: GameConfig, adapterFactory: (playerName: string) => LLMAdapter, renderer?: AnyRenderer) {
-    this.config = config;
-    this.rng = createRng(config.seed);
-    this.engine = new GameEngine(this.rng);
-    this.renderer = renderer ?? new Renderer(config.verbose);
-    this.logger = new GameLogger(config.logFile);
+  private rng: GameRng;
+  private seed: number;
+  private totalUsage: UsageTotals = { inputTokens: 0, outputTokens: 0, cacheCreation: 0, cacheRead: 0, apiCalls: 0 };
+  /** Serialized snapshot from the most recent turn boundary */
+  private lastCheckpoint: string | null = null;
+  private turnsSinceSave = 0;
+  /** Steps an off-turn debtor has taken this turn, so one who never settles is made to give up */
+  private offTurnDebt = { key: '', steps: 0 };
+
+  /** `adapterFactory` is given the game seed, generated if the config has none */
+  constructor(
+    config: GameConfig,
+    adapterFactory: (seat: SeatConfig, index: number, seed: number) => LLMAdapter,
+    observer?: GameObserver,
+  ) {
+    const snapshot = config.resumeFile ? readSnapshot(config.resumeFile) : null;
+    // A resumed game finishes under the auction and trading rules it started with
+    this.config = snapshot
+      ? { ...config, auction: snapshot.auction, tradeWindow: snapshot.tradeWindow, rules: snapshot.rules }
+      : config;
+
+    // Always seeded — even "random" games need a seed so they can be saved and resumed
+    this.seed = snapshot?.seed ?? config.seed ?? Math.floor(Math.random() * 2 ** 31);
+    // Pick up each RNG stream exactly where the saved game left off
+    this.rng = snapshot ? GameRng.fromState(snapshot.rng) : new GameRng(this.seed);
+
+    this.engine = new GameEngine(this.rng, this.config.auction, this.config.tradeWindow, this.config.rules);
+    this.renderer = new ObserverBus([observer ?? new Renderer(config.verbose)]);
+    // Keep stdout clean for the JSON-lines stream in headless mode
+    this.logger = new GameLogger(config.logFile, config.headless ? console.error : console.log);
 
     // Create player configs
     const playerConfigs = [];
     for (let i = 0; i < config.players; i++) {
       const id = `player_${i}`;
-      const name = PLAYER_NAMES[i];
-      playerConfigs.push({ id, name });
+      const seat = config.seats[i];
+      playerConfigs.push({ id, name: seat.name });
 
-      const adapter = adapterFactory(name);
-      const systemPrompt = buildSystemPrompt(name);
+      const adapter = adapterFactory(seat, i, this.seed);
+      const systemPrompt = buildSystemPrompt(seat.name, seat.strategy, this.config.rules);
       this.players.set(id, {
+        seat,
         adapter,
         systemPrompt,
         history: [],
+        inbox: [],
       });
     }
 
-    this.state = createInitialState(playerConfigs, this.rng);
+    if (snapshot) {
+      this.restore(snapshot);
+    } else {
+      this.state = createInitialState(playerConfigs, this.rng, this.config.rules.startingCash);
+    }
 
     // Apply scenario overrides if provided
-    if (config.scenarioFile) {
+    if (config.scenarioFile && !snapshot) {
       const scenarioJson = readFileSync(config.scenarioFile, 'utf-8');
       const scenario: ScenarioConfig = JSON.parse(scenarioJson);
       this.state = applyScenario(this.state, scenario);
@@ -73,41 +106,120 @@ export class GameLoop {
         if (scenario.players[i].name) {
           const player = this.state.players[i];
           const ctx = this.players.get(player.id)!;
-          ctx.systemPrompt = buildSystemPrompt(player.name);
+          ctx.systemPrompt = buildSystemPrompt(player.name, ctx.seat.strategy, this.config.rules);
         }
       }
     }
+
+    if (!snapshot) {
+      this.logger.setStart(
+        this.state,
+        this.seed,
+        config.maxTurns,
+        this.config.auction,
+        this.config.tradeWindow,
+        this.config.rules,
+        this.rng.getState(),
+      );
+    }
+
+    // Record who was who, after any scenario renames
+    this.logger.setPlayers(this.state.players.map(player => {
+      const ctx = this.players.get(player.id)!;
+      return {
+        id: player.id,
+        name: player.name,
+        type: ctx.seat.type,
+        provider: ctx.adapter.providerId,
+        model: ctx.adapter.modelId,
+        temperature: ctx.seat.temperature ?? null,
+        strategy: ctx.seat.strategy,
+      };
+    }));
   }
 
   async run(): Promise<GameState> {
     this.renderer.renderGameStart(this.state);
+    this.checkpoint();
 
     while (!this.state.winner && this.state.turnNumber <= this.config.maxTurns) {
       await this.executeTurn();
 
       // Check for winner after turn
-      const active = getActivePlayers(this.state);
-      if (active.length === 1) {
-        this.state.winner = active[0].id;
-        this.state.gameLog.push({
-          type: 'game_over',
-          winnerId: active[0].id,
-          reason: 'All other players bankrupt',
-        });
-        break;
+      if (declareLastStanding(this.state)) break;
+
+      this.checkpoint();
+      if (this.config.autosaveEvery > 0 && ++this.turnsSinceSave >= this.config.autosaveEvery) {
+        this.saveCheckpoint();
       }
     }
 
     this.renderer.renderGameOver(this.state);
-    this.logUsageSummary();
+    // Headless output already carries usage in its game_over record
+    if (!this.config.headless) this.logUsageSummary();
     this.logger.flush(this.state);
     return this.state;
   }
 
+  /**
+   * Write the most recent turn-boundary snapshot to the save file. Safe to
+   * call from a signal handler or after a crash: a half-played turn is never
+   * saved, so resuming replays it from the start.
+   */
+  saveCheckpoint(): string | null {
+    if (!this.lastCheckpoint) return null;
+    writeSnapshot(this.config.saveFile, this.lastCheckpoint);
+    this.turnsSinceSave = 0;
+    return this.config.saveFile;
+  }
+
+  private checkpoint(): void {
+    const histories: Record<string, ChatMessage[]> = {};
+    const inboxes: Record<string, PlayerMessage[]> = {};
+    const adapterRng: Record<string, number> = {};
+    for (const [id, ctx] of this.players) {
+      histories[id] = ctx.history;
+      inboxes[id] = ctx.inbox;
+      const rngState = ctx.adapter.getRngState?.();
+      if (rngState !== undefined) adapterRng[id] = rngState;
+    }
+
+    this.lastCheckpoint = snapshotToJson(createSnapshot({
+      seed: this.seed,
+      rng: this.rng.getState(),
+      seats: this.config.seats,
+      auction: this.config.auction,
+      tradeWindow: this.config.tradeWindow,
+      rules: this.config.rules,
+      state: this.state,
+      histories,
+      inboxes,
+      adapterRng,
+      usage: this.totalUsage,
+      logEntries: this.logger.getEntries(),
+      logStart: this.logger.getStart(),
+    }));
+  }
+
+  private restore(snapshot: GameSnapshot): void {
+    this.state = snapshot.state;
+    for (const player of this.state.players) {
+      const ctx = this.players.get(player.id)!;
+      ctx.history = snapshot.histories[player.id] ?? [];
+      ctx.inbox = snapshot.inboxes[player.id] ?? [];
+      const rngState = snapshot.adapterRng[player.id];
+      if (rngState !== undefined) ctx.adapter.setRngState?.(rngState);
+      // The save may carry scenario names
+      ctx.systemPrompt = buildSystemPrompt(player.name, ctx.seat.strategy, this.config.rules);
+    }
+    this.totalUsage = { ...snapshot.usage };
+    this.logger.restoreEntries(snapshot.logEntries, snapshot.logStart ?? null);
+  }
+
   private async executeTurn(): Promise<void> {
     const currentPlayer = this.state.players[this.state.currentPlayerIndex];
     if (currentPlayer.isBankrupt) {
-      this.advanceTurn();
+      advanceTurn(this.state);
       return;
     }
 
@@ -151,6 +263,42 @@ export class GameLoop {
         continue;
       }
 
+      // Between turns, each player in turn may put a trade on the table
+      if (this.state.turnPhase === 'trade_window') {
+        await this.handleTradeWindow();
+        continue;
+      }
+
+      // Whoever was handed a mortgaged property settles it before play goes on
+      if (this.state.turnPhase === 'mortgage_decision') {
+        await this.handleMortgageDecision();
+        continue;
+      }
+
+      // Houses or hotels the bank is short of go to the highest bidder
+      if (this.state.turnPhase === 'building_auction') {
+        await this.handleBuildingAuction();
+        continue;
+      }
+
+      // A player left owing money on someone else's turn raises it before the turn goes on
+      const debtorId = this.engine.getDebtor(this.state);
+      if (debtorId && debtorId !== player.id) {
+        await this.handleOffTurnDebt();
+        continue;
+      }
+
+      // Speed die: Mr. Monopoly moves the player on once the roll's first landing is dealt with
+      if (this.engine.hasMrMonopolyMove(this.state)) {
+        const result = this.engine.moveMrMonopoly(this.state);
+        this.state = result.newState;
+        this.renderer.renderEvents(result.events, this.state);
+        for (const event of result.events) {
+          this.logger.logAction(this.state.turnNumber, player.name, 'auto_resolve', [event]);
+        }
+        continue;
+      }
+
       // Get available actions
       const availableActions = this.engine.getAvailableActions(this.state);
       if (availableActions.length === 0) {
@@ -162,16 +310,23 @@ export class GameLoop {
       const ctx = this.players.get(player.id)!;
 
       // Get LLM action
-      const action = await this.getLLMAction(ctx, player.id, availableActions);
-      if (!action) {
+      const choice = await this.getLLMAction(ctx, player.id, availableActions);
+      if (!choice) {
         // LLM failed to produce a valid action after retries — force end turn
         this.renderer.renderActionError(`[WARNING] ${player.name} failed to choose an action. Forcing end_turn.`);
-        const result = this.engine.applyAction(this.state, { action: 'end_turn' });
+        const forced: GameAction = { action: 'end_turn' };
+        const result = this.engine.applyAction(this.state, forced);
         this.state = result.newState;
+        this.logger.logAction(this.state.turnNumber, player.name, forced.action, result.events, {
+          params: forced,
+          error: result.error,
+        });
         actionCount++;
         continue;
       }
 
+      const { action, reasoning } = choice;
+
       // Apply action
       this.renderer.renderAction(player.name, action.action, this.getActionArgs(action));
 
@@ -183,9 +338,19 @@ export class GameLoop {
       if (result.success) {
         this.state = result.newState;
         this.renderer.renderEvents(result.events, this.state);
-        this.logger.logAction(this.state.turnNumber, player.name, action.action, result.events);
+        this.deliverMessages(result.events);
+        this.logger.logAction(this.state.turnNumber, player.name, action.action, result.events, {
+          params: action,
+          reasoning,
+        });
       } else {
         this.renderer.renderActionError(result.error ?? 'Unknown error');
+        // Rejected actions still count toward the turn's action limit, so replays need them
+        this.logger.logAction(this.state.turnNumber, player.name, action.action, [], {
+          params: action,
+          error: result.error ?? 'Unknown error',
+          reasoning,
+        });
       }
 
       actionCount++;
@@ -201,7 +366,7 @@ export class GameLoop {
     }
 
     // Advance to next player
-    this.advanceTurn();
+    advanceTurn(this.state);
 
     // Trim history to prevent context overflow
     for (const [, ctx] of this.players) {
@@ -213,8 +378,9 @@ export class GameLoop {
     ctx: PlayerContext,
     playerId: string,
     availableActions: ReturnType<GameEngine['getAvailableActions']>,
-  ): Promise<GameAction | null> {
-    const turnMessage = buildTurnMessage(this.state, playerId);
+  ): Promise<{ action: GameAction; reasoning?: string } | null> {
+    const turnMessage = buildTurnMessage(this.state, playerId, ctx.inbox, this.config.rules);
+    ctx.inbox = [];
     const actionsText = formatAvailableActions(availableActions);
 
     // Add turn message + available actions to history
@@ -226,7 +392,12 @@ export class GameLoop {
           this.state.players.find(p => p.id === playerId)!.name,
         );
 
-        const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, STATIC_TOOLS);
+        const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, TURN_TOOLS, {
+          kind: 'turn',
+          playerId,
+          state: this.state,
+          actions: availableActions,
+        });
         this.trackUsage(response);
 
         this.renderer.renderLLMDone();
@@ -266,7 +437,7 @@ export class GameLoop {
 
         if (action) {
           // Send tool result placeholder (will be updated after applying)
-          return action;
+          return { action, reasoning: response.textContent || undefined };
         }
 
         // Invalid tool call
@@ -294,51 +465,44 @@ export class GameLoop {
   }
 
   private async handleAuction(): Promise<void> {
-    const player = this.state.players[this.state.currentPlayerIndex];
-    const position = player.position;
+    const position = this.state.auction!.position;
     const space = getSpace(position);
 
     this.renderer.renderAuctionStart(space.name);
 
-    const bids = new Map<string, number>();
-
-    // Get bids from all non-bankrupt players
-    for (const p of this.state.players) {
-      if (p.isBankrupt) continue;
-
+    // The engine says whose bid it is waiting on until the auction settles
+    let bidderId: string | null;
+    while ((bidderId = this.engine.getAuctionBidder(this.state)) !== null) {
+      const p = getPlayerById(this.state, bidderId);
       const ctx = this.players.get(p.id)!;
       const auctionMessage = buildAuctionMessage(this.state, p.id, position);
 
       ctx.history.push({ role: 'user', content: auctionMessage });
 
+      let amount = 0;
+      let reasoning: string | undefined;
+      let answered = false;
       try {
         this.renderer.renderLLMThinking(p.name);
-        const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, STATIC_TOOLS);
+        const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, STATIC_TOOLS, {
+          kind: 'auction',
+          playerId: p.id,
+          state: this.state,
+          actions: this.engine.getBidActions(this.state, p.id),
+          auctionPosition: position,
+        });
         this.trackUsage(response);
         this.renderer.renderLLMDone();
 
         ctx.history.push(response.rawMessage);
+        reasoning = response.textContent || undefined;
 
         if (response.toolCalls.length > 0) {
-          const bid = response.toolCalls[0].arguments.amount as number;
-          const validBid = Math.max(0, Math.min(bid, p.balance));
-          bids.set(p.id, Math.floor(validBid));
-          this.renderer.renderBid(p.name, Math.floor(validBid));
-
-          // Send tool results for ALL tool_use blocks in the response
-          this.sendToolResult(ctx, true, [], undefined);
-          // Overwrite the generic result with the bid-specific one for the first tool
-          const lastResultMsg = ctx.history[ctx.history.length - 1];
-          if (Array.isArray(lastResultMsg.content) && lastResultMsg.content.length > 0) {
-            (lastResultMsg.content[0] as any).content = `Bid of $${Math.floor(validBid)} recorded.`;
-          }
-        } else {
-          bids.set(p.id, 0);
-          this.renderer.renderBid(p.name, 0);
-          // Even with no toolCalls, the rawMessage might have tool_use blocks.
-          // Ensure we send tool_results for any that exist.
-          this.sendToolResult(ctx, true, [], undefined);
+          amount = this.normalizeBid(response.toolCalls[0].arguments.amount, p.balance);
+          answered = true;
         }
+        // Send tool results for ALL tool_use blocks in the response
+        this.sendToolResult(ctx, true, [], undefined);
       } catch (error) {
         this.renderer.renderLLMDone();
         this.logError(`handleAuction bid from ${p.name}`, error, {
@@ -348,15 +512,48 @@ export class GameLoop {
         });
         // Sanitize history to fix any orphaned tool_use blocks from the failed call
         ctx.history = sanitizeHistory(ctx.history);
-        bids.set(p.id, 0);
-        this.renderer.renderBid(p.name, 0);
       }
+
+      let action: GameAction = { action: 'submit_bid', amount };
+      let result = this.engine.applyAction(this.state, action);
+      if (!result.success) {
+        // Logged so replays see the rejection too; the player then drops out
+        this.renderer.renderActionError(result.error ?? 'Unknown error');
+        this.logger.logAction(this.state.turnNumber, p.name, action.action, [], {
+          params: action,
+          error: result.error ?? 'Unknown error',
+          reasoning,
+        });
+        action = { action: 'submit_bid', amount: 0 };
+        result = this.engine.applyAction(this.state, action);
+      }
+
+      if (answered) {
+        // Overwrite the generic result with the bid-specific one for the first tool
+        const lastResultMsg = ctx.history[ctx.history.length - 1];
+        if (Array.isArray(lastResultMsg.content) && lastResultMsg.content.length > 0) {
+          (lastResultMsg.content[0] as any).content = action.amount > 0
+            ? `Bid of $${action.amount} recorded.`
+            : 'You passed on this auction.';
+        }
+      }
+
+      this.state = result.newState;
+      for (const event of result.events) {
+        if (event.type === 'auction_bid') this.renderer.renderBid(getPlayerById(this.state, event.playerId).name, event.amount);
+      }
+      this.renderer.renderEvents(result.events, this.state);
+      this.logger.logAction(this.state.turnNumber, p.name, action.action, result.events, {
+        params: action,
+        reasoning,
+      });
     }
+  }
 
-    // Resolve auction
-    const result = this.engine.resolveAuction(this.state, bids, position);
-    this.state = result.newState;
-    this.renderer.renderEvents(result.events, this.state);
+  /** Whole dollars within the bidder's balance; in ascending auctions anything under the minimum drops out */
+  private normalizeBid(raw: unknown, balance: number): number {
+    const bid = Math.floor(Math.max(0, Math.min(Number(raw) || 0, balance)));
+    return bid < this.engine.getMinimumBid(this.state) ? 0 : bid;
   }
 
   private async handleTradeResponse(): Promise<void> {
@@ -369,61 +566,389 @@ export class GameLoop {
     const targetId = trade.toPlayerId;
     const ctx = this.players.get(targetId)!;
 
-    const tradeMessage = buildTurnMessage(this.state, targetId);
-    const tradeActions = formatAvailableActions(this.engine.getAvailableActions(this.state));
-    ctx.history.push({ role: 'user', content: `${tradeMessage}\n\n${tradeActions}` });
+    const tradeMessage = buildTurnMessage(this.state, targetId, ctx.inbox, this.config.rules);
+    ctx.inbox = [];
+    const responseActions = this.engine.getAvailableActions(this.state);
+    ctx.history.push({ role: 'user', content: `${tradeMessage}\n\n${formatAvailableActions(responseActions)}` });
 
     try {
       const target = this.state.players.find(p => p.id === targetId)!;
       this.renderer.renderLLMThinking(target.name);
-      const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, STATIC_TOOLS);
+      const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, TURN_TOOLS, {
+        kind: 'trade_response',
+        playerId: targetId,
+        state: this.state,
+        actions: responseActions,
+      });
       this.trackUsage(response);
       this.renderer.renderLLMDone();
 
       ctx.history.push(response.rawMessage);
 
-      if (response.toolCalls.length > 0) {
-        const action = this.parseToolCall(
-          response.toolCalls[0].name,
-          response.toolCalls[0].arguments,
-        );
+      const call = response.toolCalls[0];
+      const action = call ? this.parseToolCall(call.name, call.arguments) : null;
+
+      if (action && TRADE_RESPONSES.includes(action.action)) {
+        const result = this.engine.applyAction(this.state, action);
+        this.sendToolResult(ctx, result.success, result.events, result.error);
+        if (result.success) {
+          this.state = result.newState;
+          this.renderer.renderEvents(result.events, this.state);
+          this.deliverMessages(result.events);
+        }
+        this.logTradeResponse(target.name, action, result, response.textContent || undefined);
+        // A refused counter-offer or message falls through to rejecting the deal on the table;
+        // after a message the trade is still open, so the responder is asked again
+        if (result.success || action.action === 'accept_trade' || action.action === 'reject_trade') return;
+      } else {
+        // LLM didn't return a valid trade response — send tool_results for any
+        // tool_use blocks to prevent orphaned blocks, then fall through to reject
+        this.sendToolResult(ctx, false, [], 'Invalid response to trade offer.');
+      }
+    } catch (error) {
+      this.renderer.renderLLMDone();
+      this.logError(`handleTradeResponse from ${targetId}`, error, {
+        targetId,
+        historyLength: ctx.history.length,
+      });
+      // Sanitize history to fix any orphaned tool_use blocks from the failed call
+      ctx.history = sanitizeHistory(ctx.history);
+    }
+
+    // Default: reject trade
+    const reject: GameAction = { action: 'reject_trade' };
+    const result = this.engine.applyAction(this.state, reject);
+    if (result.success) {
+      this.state = result.newState;
+      this.renderer.renderEvents(result.events, this.state);
+    }
+    this.logTradeResponse(this.state.players.find(p => p.id === targetId)!.name, reject, result);
+  }
+
+  /**
+   * Ask the player the trade window is waiting on whether they want to offer a
+   * deal. Players with nothing to trade pass without being asked; anything but
+   * a trade offer, a pass or a message counts as a pass.
+   */
+  private async handleTradeWindow(): Promise<void> {
+    const proposerId = this.engine.getTradeWindowProposer(this.state)!;
+    const proposer = getPlayerById(this.state, proposerId);
+    const ctx = this.players.get(proposerId)!;
+    const windowActions = this.engine.getAvailableActions(this.state);
+
+    if (windowActions.some(a => a.action === 'trade_offer')) {
+      const message = buildTurnMessage(this.state, proposerId, ctx.inbox, this.config.rules);
+      ctx.inbox = [];
+      ctx.history.push({
+        role: 'user',
+        content: `TRADE WINDOW: before the next turn, you may propose one trade to any player.\n\n${message}\n\n${formatAvailableActions(windowActions)}`,
+      });
 
-        if (action && (action.action === 'accept_trade' || action.action === 'reject_trade')) {
+      try {
+        this.renderer.renderLLMThinking(proposer.name);
+        const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, TURN_TOOLS, {
+          kind: 'trade_window',
+          playerId: proposerId,
+          state: this.state,
+          actions: windowActions,
+        });
+        this.trackUsage(response);
+        this.renderer.renderLLMDone();
+
+        ctx.history.push(response.rawMessage);
+
+        const call = response.toolCalls[0];
+        const action = call ? this.parseToolCall(call.name, call.arguments) : null;
+
+        if (action && TRADE_WINDOW_ACTIONS.includes(action.action)) {
+          if (action.action === 'trade_offer') this.renderer.renderAction(proposer.name, action.action, this.getActionArgs(action));
           const result = this.engine.applyAction(this.state, action);
           this.sendToolResult(ctx, result.success, result.events, result.error);
           if (result.success) {
             this.state = result.newState;
             this.renderer.renderEvents(result.events, this.state);
+            this.deliverMessages(result.events);
           }
-          return;
+          this.logTradeResponse(proposer.name, action, result, response.textContent || undefined);
+          // After a message the window is still waiting on this player, so they are asked again
+          if (result.success || action.action === 'skip_trade') return;
+        } else {
+          this.sendToolResult(ctx, false, [], 'Invalid response in the trade window.');
+        }
+      } catch (error) {
+        this.renderer.renderLLMDone();
+        this.logError(`handleTradeWindow from ${proposerId}`, error, {
+          proposerId,
+          historyLength: ctx.history.length,
+        });
+        ctx.history = sanitizeHistory(ctx.history);
+      }
+    }
+
+    // Default: pass
+    const skip: GameAction = { action: 'skip_trade' };
+    const result = this.engine.applyAction(this.state, skip);
+    if (result.success) this.state = result.newState;
+    this.logTradeResponse(proposer.name, skip, result);
+  }
+
+  /**
+   * Ask the new owner of a mortgaged property whether to lift the mortgage
+   * now. Anything but lifting, keeping or a message keeps it mortgaged.
+   */
+  private async handleMortgageDecision(): Promise<void> {
+    const deciderId = this.engine.getMortgageDecider(this.state)!;
+    const decider = getPlayerById(this.state, deciderId);
+    const ctx = this.players.get(deciderId)!;
+    const decisionActions = this.engine.getAvailableActions(this.state);
+
+    const message = buildTurnMessage(this.state, deciderId, ctx.inbox, this.config.rules);
+    ctx.inbox = [];
+    ctx.history.push({
+      role: 'user',
+      content: `MORTGAGED PROPERTY RECEIVED: you owe 10% interest on it now, and may lift the mortgage at the same time.\n\n${message}\n\n${formatAvailableActions(decisionActions)}`,
+    });
+
+    try {
+      this.renderer.renderLLMThinking(decider.name);
+      const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, TURN_TOOLS, {
+        kind: 'mortgage_decision',
+        playerId: deciderId,
+        state: this.state,
+        actions: decisionActions,
+      });
+      this.trackUsage(response);
+      this.renderer.renderLLMDone();
+
+      ctx.history.push(response.rawMessage);
+
+      const call = response.toolCalls[0];
+      const action = call ? this.parseToolCall(call.name, call.arguments) : null;
+
+      if (action && MORTGAGE_DECISIONS.includes(action.action)) {
+        const result = this.engine.applyAction(this.state, action);
+        this.sendToolResult(ctx, result.success, result.events, result.error);
+        if (result.success) {
+          this.state = result.newState;
+          this.renderer.renderEvents(result.events, this.state);
+          this.deliverMessages(result.events);
         }
+        this.logTradeResponse(decider.name, action, result, response.textContent || undefined);
+        // After a message the decision is still owed, so they are asked again
+        if (result.success) return;
+      } else {
+        this.sendToolResult(ctx, false, [], 'Invalid response to a received mortgage.');
       }
+    } catch (error) {
+      this.renderer.renderLLMDone();
+      this.logError(`handleMortgageDecision from ${deciderId}`, error, {
+        deciderId,
+        historyLength: ctx.history.length,
+      });
+      ctx.history = sanitizeHistory(ctx.history);
+    }
+
+    // Default: keep the mortgage, paying only the interest
+    const keep: GameAction = { action: 'keep_mortgage' };
+    const result = this.engine.applyAction(this.state, keep);
+    if (result.success) {
+      this.state = result.newState;
+      this.renderer.renderEvents(result.events, this.state);
+    }
+    this.logTradeResponse(decider.name, keep, result);
+  }
+
+  /**
+   * Ask the next bidder for a house or hotel the bank is short of. Anything
+   * but a bid or a message — or a bid the engine rejects — drops them out.
+   */
+  private async handleBuildingAuction(): Promise<void> {
+    const bidderId = this.engine.getBuildingBidder(this.state)!;
+    const bidder = getPlayerById(this.state, bidderId);
+    const ctx = this.players.get(bidderId)!;
+    const bidActions = this.engine.getAvailableActions(this.state);
+
+    const message = buildTurnMessage(this.state, bidderId, ctx.inbox, this.config.rules);
+    ctx.inbox = [];
+    ctx.history.push({
+      role: 'user',
+      content: `HOUSING SHORTAGE: the bank hasn't enough buildings for everyone who could build, so the next one is auctioned.\n\n${message}\n\n${formatAvailableActions(bidActions)}`,
+    });
+
+    try {
+      this.renderer.renderLLMThinking(bidder.name);
+      const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, TURN_TOOLS, {
+        kind: 'building_auction',
+        playerId: bidderId,
+        state: this.state,
+        actions: bidActions,
+      });
+      this.trackUsage(response);
+      this.renderer.renderLLMDone();
+
+      ctx.history.push(response.rawMessage);
+
+      const call = response.toolCalls[0];
+      const action = call ? this.parseToolCall(call.name, call.arguments) : null;
 
-      // LLM didn't return a valid trade response — send tool_results for any
-      // tool_use blocks to prevent orphaned blocks, then fall through to reject
-      this.sendToolResult(ctx, false, [], 'Invalid response to trade offer.');
+      if (action && BUILDING_BIDS.includes(action.action)) {
+        const result = this.engine.applyAction(this.state, action);
+        this.sendToolResult(ctx, result.success, result.events, result.error);
+        if (result.success) {
+          this.state = result.newState;
+          this.renderer.renderEvents(result.events, this.state);
+          this.deliverMessages(result.events);
+        }
+        this.logTradeResponse(bidder.name, action, result, response.textContent || undefined);
+        // After a message the bid is still owed, so they are asked again
+        if (result.success) return;
+      } else {
+        this.sendToolResult(ctx, false, [], 'Invalid response in a building auction.');
+      }
     } catch (error) {
       this.renderer.renderLLMDone();
-      this.logError(`handleTradeResponse from ${targetId}`, error, {
-        targetId,
+      this.logError(`handleBuildingAuction from ${bidderId}`, error, {
+        bidderId,
         historyLength: ctx.history.length,
       });
-      // Sanitize history to fix any orphaned tool_use blocks from the failed call
       ctx.history = sanitizeHistory(ctx.history);
     }
 
-    // Default: reject trade
-    const result = this.engine.applyAction(this.state, { action: 'reject_trade' });
+    // Default: drop out
+    const pass: GameAction = { action: 'bid_building', amount: 0 };
+    const result = this.engine.applyAction(this.state, pass);
+    if (result.success) {
+      this.state = result.newState;
+      this.renderer.renderEvents(result.events, this.state);
+    }
+    this.logTradeResponse(bidder.name, pass, result);
+  }
+
+  /**
+   * Ask a player who owes money on someone else's turn for one step toward
+   * paying it: a sale, mortgage, trade offer or message. The loop asks again
+   * until the debt is paid; one who runs out of steps declares bankruptcy.
+   */
+  private async handleOffTurnDebt(): Promise<void> {
+    const debtorId = this.engine.getDebtor(this.state)!;
+    const debtor = getPlayerById(this.state, debtorId);
+    const ctx = this.players.get(debtorId)!;
+    const debtActions = this.engine.getAvailableActions(this.state);
+
+    const key = `${this.state.turnNumber}:${debtorId}`;
+    if (this.offTurnDebt.key !== key) this.offTurnDebt = { key, steps: 0 };
+
+    if (++this.offTurnDebt.steps <= MAX_ACTIONS_PER_TURN) {
+      const message = buildTurnMessage(this.state, debtorId, ctx.inbox, this.config.rules);
+      ctx.inbox = [];
+      ctx.history.push({
+        role: 'user',
+        content: `YOU OWE MONEY: raise it now by selling houses, mortgaging or trading, or declare bankruptcy. The turn goes on once you have paid.\n\n${message}\n\n${formatAvailableActions(debtActions)}`,
+      });
+
+      try {
+        this.renderer.renderLLMThinking(debtor.name);
+        const response = await ctx.adapter.chat(ctx.systemPrompt, ctx.history, TURN_TOOLS, {
+          kind: 'debt',
+          playerId: debtorId,
+          state: this.state,
+          actions: debtActions,
+        });
+        this.trackUsage(response);
+        this.renderer.renderLLMDone();
+
+        ctx.history.push(response.rawMessage);
+
+        const call = response.toolCalls[0];
+        const action = call ? this.parseToolCall(call.name, call.arguments) : null;
+
+        if (action && DEBT_ACTIONS.includes(action.action)) {
+          const result = this.engine.applyAction(this.state, action);
+          this.sendToolResult(ctx, result.success, result.events, result.error);
+          if (result.success) {
+            this.state = result.newState;
+            this.renderer.renderEvents(result.events, this.state);
+            this.deliverMessages(result.events);
+          }
+          this.logTradeResponse(debtor.name, action, result, response.textContent || undefined);
+        } else {
+          this.sendToolResult(ctx, false, [], 'Invalid action while in debt.');
+        }
+        return;
+      } catch (error) {
+        this.renderer.renderLLMDone();
+        this.logError(`handleOffTurnDebt from ${debtorId}`, error, {
+          debtorId,
+          historyLength: ctx.history.length,
+        });
+        ctx.history = sanitizeHistory(ctx.history);
+        return;
+      }
+    }
+
+    // Out of steps: the debt is written off in bankruptcy
+    const bankrupt: GameAction = { action: 'declare_bankruptcy' };
+    const result = this.engine.applyAction(this.state, bankrupt);
     if (result.success) {
       this.state = result.newState;
       this.renderer.renderEvents(result.events, this.state);
     }
+    this.logTradeResponse(debtor.name, bankrupt, result);
+  }
+
+  /**
+   * A multi-party deal from the trade_offer `participants` argument. Players
+   * may be named by id or name; the player asked first falls back to the
+   * first other participant when the target isn't one of them.
+   */
+  private parseParticipants(
+    raw: unknown,
+    fromPlayerId: string,
+    toPlayerId: string,
+  ): Partial<Pick<TradeOffer, 'participants' | 'toPlayerId'>> {
+    if (!Array.isArray(raw) || raw.length === 0) return {};
+    const idOf = (value: unknown) => {
+      const ref = String(value ?? '');
+      return this.state.players.find(p => p.id === ref || p.name.toLowerCase() === ref.toLowerCase())?.id ?? ref;
+    };
+    const participants: TradeParticipant[] = raw.map((side: Record<string, unknown>) => ({
+      playerId: idOf(side.player_id),
+      givesProperties: (side.gives_properties as number[]) ?? [],
+      givesMoney: (side.gives_money as number) ?? 0,
+      receivesProperties: (side.receives_properties as number[]) ?? [],
+      receivesMoney: (side.receives_money as number) ?? 0,
+    }));
+    const others = participants.map(p => p.playerId).filter(id => id !== fromPlayerId);
+    return { participants, toPlayerId: others.includes(toPlayerId) ? toPlayerId : others[0] ?? toPlayerId };
+  }
+
+  /** Queue each message for its recipients' next prompt */
+  private deliverMessages(events: GameEvent[]): void {
+    for (const event of events) {
+      if (event.type !== 'player_message') continue;
+      for (const player of this.state.players) {
+        if (player.isBankrupt || player.id === event.fromPlayerId) continue;
+        if (event.toPlayerId === null || event.toPlayerId === player.id) {
+          this.players.get(player.id)!.inbox.push(event);
+        }
+      }
+    }
+  }
+
+  private logTradeResponse(playerName: string, action: GameAction, result: ActionResult, reasoning?: string): void {
+    this.logger.logAction(this.state.turnNumber, playerName, action.action, result.events, {
+      params: action,
+      error: result.success ? undefined : result.error ?? 'Unknown error',
+      reasoning,
+    });
   }
 
   private parseToolCall(name: string, args: Record<string, unknown>): GameAction | null {
     switch (name) {
       case 'roll_dice':
         return { action: 'roll_dice' };
+      case 'take_bus':
+        return { action: 'take_bus', spaces: args.spaces as number };
       case 'buy_property':
         return { action: 'buy_property' };
       case 'auction_property':
@@ -438,22 +963,62 @@ export class GameLoop {
         return { action: 'mortgage_property', propertyPosition: args.property_position as number };
       case 'unmortgage_property':
         return { action: 'unmortgage_property', propertyPosition: args.property_position as number };
-      case 'trade_offer':
+      case 'trade_offer': {
+        const fromPlayerId = this.engine.getTradeWindowProposer(this.state)
+          ?? this.engine.getDebtor(this.state)
+          ?? this.state.players[this.state.currentPlayerIndex].id;
+        const toPlayerId = args.target_player_id as string;
         return {
           action: 'trade_offer',
           offer: {
-            fromPlayerId: this.state.players[this.state.currentPlayerIndex].id,
-            toPlayerId: args.target_player_id as string,
+            fromPlayerId,
+            toPlayerId,
             offeredProperties: (args.offered_properties as number[]) ?? [],
             offeredMoney: (args.offered_money as number) ?? 0,
             requestedProperties: (args.requested_properties as number[]) ?? [],
             requestedMoney: (args.requested_money as number) ?? 0,
+            ...parseTradeExtras(args, fromPlayerId, toPlayerId),
+            ...this.parseParticipants(args.participants, fromPlayerId, toPlayerId),
           },
         };
+      }
       case 'accept_trade':
         return { action: 'accept_trade' };
       case 'reject_trade':
         return { action: 'reject_trade' };
+      case 'skip_trade':
+        return { action: 'skip_trade' };
+      case 'lift_mortgage':
+        return { action: 'lift_mortgage' };
+      case 'keep_mortgage':
+        return { action: 'keep_mortgage' };
+      case 'send_message': {
+        // Models address players by id, name or "all"
+        const to = String(args.to_player_id ?? 'all');
+        const recipient = this.state.players.find(p => p.id === to || p.name.toLowerCase() === to.toLowerCase());
+        return {
+          action: 'send_message',
+          toPlayerId: to.toLowerCase() === 'all' ? null : recipient?.id ?? to,
+          text: String(args.text ?? ''),
+        };
+      }
+      case 'counter_offer': {
+        // Terms come from the responder's side: the offer goes back to whoever made the last one
+        const trade = this.state.activeTrade;
+        if (!trade) return null;
+        return {
+          action: 'counter_offer',
+          offer: {
+            fromPlayerId: trade.toPlayerId,
+            toPlayerId: trade.fromPlayerId,
+            offeredProperties: (args.offered_properties as number[]) ?? [],
+            offeredMoney: (args.offered_money as number) ?? 0,
+            requestedProperties: (args.requested_properties as number[]) ?? [],
+            requestedMoney: (args.requested_money as number) ?? 0,
+            ...parseTradeExtras(args, trade.toPlayerId, trade.fromPlayerId),
+          },
+        };
+      }
       case 'end_turn':
         return { action: 'end_turn' };
       case 'declare_bankruptcy':
@@ -464,6 +1029,12 @@ export class GameLoop {
         return { action: 'pay_jail_fine' };
       case 'submit_bid':
         return { action: 'submit_bid', amount: (args.amount as number) ?? 0 };
+      case 'bid_building':
+        return {
+          action: 'bid_building',
+          amount: (args.amount as number) ?? 0,
+          propertyPosition: args.property_position as number | undefined,
+        };
       default:
         return null;
     }
@@ -510,24 +1081,6 @@ export class GameLoop {
     });
   }
 
-  private advanceTurn(): void {
-    const player = this.state.players[this.state.currentPlayerIndex];
-    player.doublesCount = 0;
-
-    const numPlayers = this.state.players.length;
-    let next = (this.state.currentPlayerIndex + 1) % numPlayers;
-    let attempts = 0;
-    while (this.state.players[next].isBankrupt && attempts < numPlayers) {
-      next = (next + 1) % numPlayers;
-      attempts++;
-    }
-
-    this.state.currentPlayerIndex = next;
-    this.state.turnPhase = 'turn_complete';
-    this.state.turnNumber++;
-    this.state.lastDiceRoll = null;
-  }
-
   private trackUsage(response: LLMResponse): void {
     if (!response.usage) return;
     this.totalUsage.inputTokens += response.usage.inputTokens;
@@ -536,15 +1089,13 @@ export class GameLoop {
     this.totalUsage.cacheRead += response.usage.cacheReadInputTokens ?? 0;
     this.totalUsage.apiCalls++;
 
-    if (this.renderer instanceof InkRenderer) {
-      this.renderer.renderUsage({
-        apiCalls: this.totalUsage.apiCalls,
-        inputTokens: this.totalUsage.inputTokens,
-        outputTokens: this.totalUsage.outputTokens,
-        cacheRead: this.totalUsage.cacheRead,
-        cacheWrite: this.totalUsage.cacheCreation,
-      });
-    }
+    this.renderer.renderUsage({
+      apiCalls: this.totalUsage.apiCalls,
+      inputTokens: this.totalUsage.inputTokens,
+      outputTokens: this.totalUsage.outputTokens,
+      cacheRead: this.totalUsage.cacheRead,
+      cacheWrite: this.totalUsage.cacheCreation,
+    });
   }
 
   private logUsageSummary(): void {
@@ -710,3 +1261,58 @@ export function sanitizeHistory(messages: ChatMessage[]): ChatMessage[] {
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/** End the current turn and hand over to the next solvent player */
+export function advanceTurn(state: GameState): void {
+  const player = state.players[state.currentPlayerIndex];
+  player.doublesCount = 0;
+
+  const numPlayers = state.players.length;
+  let next = (state.currentPlayerIndex + 1) % numPlayers;
+  let attempts = 0;
+  while (state.players[next].isBankrupt && attempts < numPlayers) {
+    next = (next + 1) % numPlayers;
+    attempts++;
+  }
+
+  state.currentPlayerIndex = next;
+  state.turnPhase = 'turn_complete';
+  state.turnNumber++;
+  state.lastDiceRoll = null;
+  state.lastSpeedDie = null;
+  state.mrMonopolyPending = false;
+  state.messagesThisTurn = {};
+}
+
+/** Jail cards and rent immunities from trade tool arguments; "me" and "them" are relative to the proposer */
+function parseTradeExtras(
+  args: Record<string, unknown>,
+  fromPlayerId: string,
+  toPlayerId: string,
+): Pick<TradeOffer, 'offeredJailCards' | 'requestedJailCards' | 'immunities'> {
+  const extras: Pick<TradeOffer, 'offeredJailCards' | 'requestedJailCards' | 'immunities'> = {};
+  if (args.offered_jail_cards) extras.offeredJailCards = Number(args.offered_jail_cards);
+  if (args.requested_jail_cards) extras.requestedJailCards = Number(args.requested_jail_cards);
+  if (Array.isArray(args.rent_immunities) && args.rent_immunities.length > 0) {
+    extras.immunities = args.rent_immunities.map((term: Record<string, unknown>) => ({
+      position: Number(term.property_position),
+      beneficiaryId: term.beneficiary === 'them' ? toPlayerId : fromPlayerId,
+      limit: term.limit === 'turns' ? 'turns' : 'landings',
+      count: Number(term.count),
+    }));
+  }
+  return extras;
+}
+
+/** Crown the winner if only one player is left solvent; true when the game is over */
+export function declareLastStanding(state: GameState): boolean {
+  const active = getActivePlayers(state);
+  if (active.length !== 1) return false;
+  state.winner = active[0].id;
+  state.gameLog.push({
+    type: 'game_over',
+    winnerId: active[0].id,
+    reason: 'All other players bankrupt',
+  });
+  return true;
+}
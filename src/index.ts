@@ -1,21 +1,31 @@
 import React from 'react';
 import { render } from 'ink';
-import { parseArgs } from './config';
+import { parseArgs, GameConfig } from './config';
 import { GameLoop } from './game-loop';
-import { AnthropicAdapter } from './llm/anthropic-adapter';
+import { createAdapter, checkCredentials } from './llm/adapter-factory';
 import { InkRenderer } from './display/ink-renderer';
+import { JsonlRenderer } from './display/jsonl-renderer';
+import { ObserverBus } from './display/observer';
+import { createSink } from './display/sinks';
 import { App } from './display/ink-app';
 
 async function main() {
   const config = parseArgs(process.argv);
 
-  if (!process.env.ANTHROPIC_API_KEY) {
-    console.error('Error: ANTHROPIC_API_KEY environment variable is required.');
+  const credentialError = checkCredentials(config.seats);
+  if (credentialError) {
+    console.error(`Error: ${credentialError}`);
     console.error('Set it in your .env file or environment.');
     process.exit(1);
   }
 
+  if (config.headless) {
+    await runHeadless(config);
+    return;
+  }
+
   const inkRenderer = new InkRenderer();
+  const observers = new ObserverBus([inkRenderer, ...config.sinks.map(s => createSink(s, config.verbose))]);
 
   // Mount the Ink app
   const { unmount, waitUntilExit } = render(
@@ -24,24 +34,73 @@ async function main() {
 
   const gameLoop = new GameLoop(
     config,
-    () => new AnthropicAdapter({
-      model: config.model,
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    }),
-    inkRenderer,
+    // Human seats are played through the Ink UI
+    (seat, index, seed) => createAdapter(seat, index, seed, inkRenderer),
+    observers,
   );
 
+  process.on('SIGINT', () => {
+    unmount();
+    saveForResume(gameLoop);
+    process.exit(130);
+  });
+
   try {
     await gameLoop.run();
     // Keep the UI visible for a moment after game over
     await new Promise(resolve => setTimeout(resolve, 2000));
     unmount();
+    await observers.close();
     process.exit(0);
   } catch (error) {
     unmount();
+    await observers.close();
+    console.error('Fatal error:', error);
+    saveForResume(gameLoop);
+    process.exit(1);
+  }
+}
+
+/**
+ * No Ink, no delays: progress goes to stdout as JSON lines and the exit code
+ * reports the result — 0 for a winner, 2 when the turn limit ended the game,
+ * 1 on a fatal error.
+ */
+async function runHeadless(config: GameConfig) {
+  const observers = new ObserverBus(
+    config.sinks.length > 0
+      ? config.sinks.map(s => createSink(s, config.verbose))
+      : [new JsonlRenderer()],
+  );
+
+  const gameLoop = new GameLoop(
+    config,
+    (seat, index, seed) => createAdapter(seat, index, seed),
+    observers,
+  );
+
+  process.on('SIGINT', () => {
+    saveForResume(gameLoop);
+    process.exit(130);
+  });
+
+  try {
+    const finalState = await gameLoop.run();
+    await observers.close();
+    process.exit(finalState.winner ? 0 : 2);
+  } catch (error) {
+    await observers.close();
+    console.log(JSON.stringify({ type: 'fatal', error: error instanceof Error ? error.message : String(error) }));
     console.error('Fatal error:', error);
+    saveForResume(gameLoop);
     process.exit(1);
   }
 }
 
+/** Save the last completed turn so the game can be picked up with --resume */
+function saveForResume(gameLoop: GameLoop): void {
+  const path = gameLoop.saveCheckpoint();
+  if (path) console.error(`Game saved to ${path} — continue with --resume ${path}`);
+}
+
 main();
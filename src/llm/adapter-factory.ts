@@ -0,0 +1,59 @@
+import { SeatConfig } from '../config';
+import { LLMAdapter } from './types';
+import { AnthropicAdapter } from './anthropic-adapter';
+import { OpenAIAdapter } from './openai-adapter';
+import { ScriptedAdapter } from './scripted-adapter';
+import { HumanAdapter, HumanPrompter } from './human-adapter';
+
+/**
+ * Build the adapter for one seat. `seed` is the game seed; `prompter`
+ * is the UI that human seats are played through.
+ */
+export function createAdapter(
+  seat: SeatConfig,
+  index: number,
+  seed?: number,
+  prompter?: HumanPrompter,
+): LLMAdapter {
+  if (seat.type === 'human') {
+    if (!prompter) throw new Error(`Human seat ${seat.name} needs the interactive UI`);
+    return new HumanAdapter(seat.name, prompter);
+  }
+  if (seat.type === 'llm' && seat.provider === 'openai') {
+    return new OpenAIAdapter({
+      model: seat.model,
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: seat.baseUrl ?? process.env.OPENAI_BASE_URL,
+      temperature: seat.temperature,
+    });
+  }
+  if (seat.type === 'llm') {
+    return new AnthropicAdapter({
+      model: seat.model,
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      temperature: seat.temperature,
+    });
+  }
+  // Offset the seed per seat so two scripted players of the same type don't mirror each other
+  return new ScriptedAdapter({
+    strategy: seat.type,
+    seed: seed !== undefined ? seed + index : undefined,
+  });
+}
+
+/** Returns an error message if any seat needs an API key that isn't set */
+export function checkCredentials(seats: SeatConfig[]): string | null {
+  for (const seat of seats) {
+    if (seat.type !== 'llm') continue;
+
+    if (seat.provider === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+      return `ANTHROPIC_API_KEY environment variable is required (seat ${seat.name}).`;
+    }
+    // Local OpenAI-compatible servers generally don't need a key
+    const baseUrl = seat.baseUrl ?? process.env.OPENAI_BASE_URL;
+    if (seat.provider === 'openai' && !baseUrl && !process.env.OPENAI_API_KEY) {
+      return `OPENAI_API_KEY environment variable is required (seat ${seat.name}), or pass --base-url for a local server.`;
+    }
+  }
+  return null;
+}
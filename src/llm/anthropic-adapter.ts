@@ -5,9 +5,11 @@ export class AnthropicAdapter implements LLMAdapter {
   readonly providerId = 'anthropic';
   readonly modelId: string;
   private client: Anthropic;
+  private temperature: number | undefined;
 
-  constructor(config: { model: string; apiKey?: string }) {
+  constructor(config: { model: string; apiKey?: string; temperature?: number }) {
     this.modelId = config.model;
+    this.temperature = config.temperature;
     this.client = new Anthropic({
       apiKey: config.apiKey,
     });
@@ -62,6 +64,7 @@ export class AnthropicAdapter implements LLMAdapter {
     const response = await this.client.messages.create({
       model: this.modelId,
       max_tokens: 1024,
+      ...(this.temperature !== undefined ? { temperature: this.temperature } : {}),
       system,
       messages: anthropicMessages,
       tools: cachedTools as any,
@@ -0,0 +1,47 @@
+import { LLMAdapter, ToolDefinition, ChatMessage, LLMResponse, DecisionContext } from './types';
+
+/** A tool call as the person at the keyboard composed it */
+export interface HumanChoice {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** Whatever puts the choice in front of a person — the Ink UI, in practice */
+export interface HumanPrompter {
+  promptHuman(playerName: string, context: DecisionContext): Promise<HumanChoice>;
+}
+
+/**
+ * Seat played by a person. Instead of reading the turn message it hands the
+ * engine's available actions to a prompter and answers with whatever tool
+ * call comes back, so the game loop treats it like any other player.
+ */
+export class HumanAdapter implements LLMAdapter {
+  readonly providerId = 'human';
+  readonly modelId = 'human';
+  private callCount = 0;
+
+  constructor(private playerName: string, private prompter: HumanPrompter) {}
+
+  async chat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    context?: DecisionContext,
+  ): Promise<LLMResponse> {
+    if (!context) {
+      throw new Error(`Human seat ${this.playerName} was asked to act without a decision context`);
+    }
+    const choice = await this.prompter.promptHuman(this.playerName, context);
+
+    const id = `human_${++this.callCount}`;
+    return {
+      toolCalls: [{ id, name: choice.name, arguments: choice.args }],
+      textContent: '',
+      rawMessage: {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id, name: choice.name, input: choice.args }],
+      },
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { LLMAdapter, ToolDefinition, ToolCall, ChatMessage, ContentBlock, LLMResponse } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Minimal slice of the Chat Completions wire format — enough for tool calling.
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIChatResponse {
+  choices: {
+    message: {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+/**
+ * Adapter for any server speaking the OpenAI Chat Completions tool-calling
+ * protocol — OpenAI itself, or a local llama.cpp / vLLM / Ollama endpoint
+ * via `baseUrl`.
+ */
+export class OpenAIAdapter implements LLMAdapter {
+  readonly providerId = 'openai';
+  readonly modelId: string;
+  private apiKey: string | undefined;
+  private baseUrl: string;
+  private temperature: number | undefined;
+
+  constructor(config: { model: string; apiKey?: string; baseUrl?: string; temperature?: number }) {
+    this.modelId = config.model;
+    this.temperature = config.temperature;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async chat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+  ): Promise<LLMResponse> {
+    const openaiMessages: OpenAIMessage[] = [{ role: 'system', content: systemPrompt }];
+    for (const msg of messages) {
+      openaiMessages.push(...this.toOpenAIMessages(msg));
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without auth
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.modelId,
+        max_tokens: 1024,
+        ...(this.temperature !== undefined ? { temperature: this.temperature } : {}),
+        messages: openaiMessages,
+        tools: tools.map(t => ({
+          type: 'function',
+          function: { name: t.name, description: t.description, parameters: t.input_schema },
+        })),
+        tool_choice: 'required', // Force tool use
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      const error = new Error(`OpenAI-compatible API error ${response.status}: ${body}`);
+      // Match the shape logError() looks for on Anthropic SDK errors
+      Object.assign(error, { status: response.status, error: body });
+      throw error;
+    }
+
+    return this.fromOpenAIResponse(await response.json() as OpenAIChatResponse);
+  }
+
+  /**
+   * One ChatMessage can expand to several OpenAI messages: each tool_result
+   * block becomes its own `tool` message, and must come before any plain
+   * text in the same turn.
+   */
+  private toOpenAIMessages(msg: ChatMessage): OpenAIMessage[] {
+    if (typeof msg.content === 'string') {
+      return [{ role: msg.role, content: msg.content }];
+    }
+
+    if (msg.role === 'assistant') {
+      const text = msg.content
+        .filter((b): b is Extract<ContentBlock, { type: 'text' }> => b.type === 'text')
+        .map(b => b.text)
+        .join('');
+      const toolCalls: OpenAIToolCall[] = msg.content
+        .filter((b): b is Extract<ContentBlock, { type: 'tool_use' }> => b.type === 'tool_use')
+        .map(b => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input) },
+        }));
+
+      return [{
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      }];
+    }
+
+    const result: OpenAIMessage[] = [];
+    const textParts: string[] = [];
+    for (const block of msg.content) {
+      switch (block.type) {
+        case 'tool_result':
+          result.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content });
+          break;
+        case 'text':
+          textParts.push(block.text);
+          break;
+      }
+    }
+    if (textParts.length > 0) {
+      result.push({ role: 'user', content: textParts.join('\n') });
+    }
+    return result;
+  }
+
+  private fromOpenAIResponse(response: OpenAIChatResponse): LLMResponse {
+    const message = response.choices[0]?.message;
+    const toolCalls: ToolCall[] = [];
+    const contentBlocks: ContentBlock[] = [];
+    const textContent = message?.content ?? '';
+
+    if (textContent) {
+      contentBlocks.push({ type: 'text', text: textContent });
+    }
+
+    for (const call of message?.tool_calls ?? []) {
+      let args: Record<string, unknown>;
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        // Small local models sometimes emit malformed JSON — treat as no arguments
+        args = {};
+      }
+      toolCalls.push({ id: call.id, name: call.function.name, arguments: args });
+      contentBlocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: args });
+    }
+
+    // OpenAI reports cached tokens as a subset of prompt_tokens; the game loop
+    // adds cache reads and uncached input together, so split them here.
+    const cached = response.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+    return {
+      toolCalls,
+      textContent,
+      rawMessage: {
+        role: 'assistant',
+        content: contentBlocks,
+      },
+      usage: response.usage
+        ? {
+          inputTokens: response.usage.prompt_tokens - cached,
+          outputTokens: response.usage.completion_tokens,
+          cacheCreationInputTokens: 0,
+          cacheReadInputTokens: cached,
+        }
+        : undefined,
+    };
+  }
+}
@@ -1,10 +1,12 @@
-import { GameState, PlayerState, GameEvent, PropertySpace } from '../engine/types';
-import { BOARD_SPACES, COLOR_GROUP_MEMBERS, getSpace } from '../engine/board-data';
-import { playerOwnsColorGroup } from '../engine/bank';
+import { GameState, PlayerState, GameEvent, PropertySpace, PlayerMessage, RuleSet } from '../engine/types';
+import { BOARD_SPACES, COLOR_GROUP_MEMBERS, getSpace, isOwnableSpace } from '../engine/board-data';
+import { getPlayerById, playerOwnsColorGroup } from '../engine/bank';
+import { speedDieLabel } from '../engine/dice';
+import { describeImmunity, dutchPriceStep, DEFAULT_RULES, MAX_COUNTER_OFFERS, MAX_MESSAGES_PER_TURN } from '../engine/game-engine';
 
 // Each player gets a distinct strategic personality to create varied playstyles.
 const STRATEGY_PROFILES: Record<string, string> = {
-  Alice: `Your playstyle: AGGRESSIVE DEVELOPER
+  aggressive: `Your playstyle: AGGRESSIVE DEVELOPER
 You believe in winning through rapid property development. Your priorities:
 - Buy every property you land on if you can afford it — property is king.
 - Build houses as soon as you complete a color group, even if it leaves you cash-poor.
@@ -14,7 +16,7 @@ You believe in winning through rapid property development. Your priorities:
 - You'd rather go all-in and risk going broke than play it safe with cash in hand.
 - When trading, overpay if needed to complete a monopoly — the rent income is worth it.`,
 
-  Bob: `Your playstyle: RAILROAD BARON & UTILITY MOGUL
+  railroad: `Your playstyle: RAILROAD BARON & UTILITY MOGUL
 You believe in steady, reliable income from railroads and utilities. Your priorities:
 - Prioritize railroads above all else — owning 3-4 railroads is your win condition.
 - Utilities are underrated — grab them when you can.
@@ -24,7 +26,7 @@ You believe in steady, reliable income from railroads and utilities. Your priori
 - In auctions, bid aggressively on railroads but conservatively on everything else.
 - Play the long game: let others overextend and bleed them with steady railroad rent.`,
 
-  Charlie: `Your playstyle: SHREWD TRADER
+  trader: `Your playstyle: SHREWD TRADER
 You believe in winning through clever deals. Your priorities:
 - Accumulate properties even if they're scattered — they're trading chips.
 - Actively propose trades to complete monopolies (yours or to break opponents').
@@ -35,7 +37,7 @@ You believe in winning through clever deals. Your priorities:
 - Watch what opponents need and use it as leverage in trades.
 - In auctions, drive up the price on properties your opponents need, even if you don't want them.`,
 
-  Diana: `Your playstyle: CASH-RICH CONSERVATIVE
+  conservative: `Your playstyle: CASH-RICH CONSERVATIVE
 You believe in financial discipline and patience. Your priorities:
 - Always maintain a large cash reserve ($400+) — never go below $300 voluntarily.
 - Only buy properties that fit your strategic goals; pass on expensive properties you can't develop.
@@ -47,25 +49,33 @@ You believe in financial discipline and patience. Your priorities:
 - You win by staying solvent while opponents bankrupt themselves.`,
 };
 
-export function buildSystemPrompt(playerName: string): string {
-  const strategyProfile = STRATEGY_PROFILES[playerName] ?? STRATEGY_PROFILES['Alice'];
+export const STRATEGY_PROFILE_IDS = Object.keys(STRATEGY_PROFILES);
+
+/** Profiles handed out by seat when a seat doesn't pick one */
+export const DEFAULT_STRATEGIES = ['aggressive', 'railroad', 'trader', 'conservative'];
+
+/** `rules` are the house rules in play; the key rules section describes those, not the official ones */
+export function buildSystemPrompt(playerName: string, strategy = 'aggressive', rules: RuleSet = DEFAULT_RULES): string {
+  const strategyProfile = STRATEGY_PROFILES[strategy] ?? STRATEGY_PROFILES['aggressive'];
 
   return `You are playing a game of Monopoly. You are "${playerName}".
 Your goal is to bankrupt all other players by acquiring properties, building houses and hotels, and collecting rent.
 
 You play by choosing tool calls that represent your game actions. On each turn you will receive the current game state and a list of available actions. You MUST choose exactly one action by making a tool call.
 
+You can also talk to the table with send_message, to one opponent or all of them (up to ${MAX_MESSAGES_PER_TURN} messages per turn). A message is not an action — you still choose one afterwards. Messages you receive appear in your next turn message; opponents may be bluffing.
+
 Key rules:
-- You collect $200 each time you pass or land on Go.
-- If you land on an unowned property, you may buy it or send it to auction.
-- If you land on an owned property, you pay rent to the owner.
-- Own all properties in a color group (monopoly) to build houses. Doubles base rent on unimproved properties.
-- Houses must be built evenly across a color group.
+${formatHouseRules(rules)}
 - 4 houses can be upgraded to a hotel. Hotels collect the highest rent.
+- The bank has 32 houses and 12 hotels. When it has fewer left than there are players able to build one, each goes to the highest bidder. A hotel can only be sold back while the bank has the 4 houses to replace it.
 - You can mortgage properties to raise cash (no rent collected while mortgaged).
+- Receiving a mortgaged property (by trade or bankruptcy) costs 10% interest at once; you then choose to lift the mortgage now or pay mortgage value + 10% when you unmortgage it later.
+- If you can't pay, you owe the rest: raise it by selling houses, mortgaging or trading (even on another player's turn) or declare bankruptcy. A bankrupt player's cash pays their debts in order, and their properties are shared among the players still owed, in proportion to what each is owed.
 - Three doubles in a row sends you to jail.
-- In jail: roll doubles, pay $50, or use a Get Out of Jail Free card.
-
+- In jail: roll doubles, pay $50, or use a Get Out of Jail Free card. After ${rules.maxJailTurns} failed roll${rules.maxJailTurns === 1 ? '' : 's'} you must pay $50 and move.
+${rules.speedDie ? `${SPEED_DIE_RULES}
+` : ''}
 ${strategyProfile}
 
 General knowledge:
@@ -73,10 +83,36 @@ General knowledge:
 - Building to 3 houses is the most cost-effective development level.
 - IMPORTANT: When you have a monopoly, build houses! It dramatically increases rent.
 
-${buildBoardReference()}`;
+${buildBoardReference(rules)}`;
 }
 
-function buildBoardReference(): string {
+const SPEED_DIE_RULES = `- Speed die: outside jail you roll a third die with you. 1-3 adds to the white dice. Mr. Monopoly: move by the white dice, deal with that space, then advance to the next unowned property (or, if every property is owned, the next one where you owe rent). Bus: choose to move by either white die or both (take_bus). Doubles go by the white dice alone.`;
+
+/** The key rules that house rules change, as they stand in `rules` */
+function formatHouseRules(rules: RuleSet): string {
+  const lines = [
+    rules.doubleGoSalary
+      ? `- You collect $${rules.salary} each time you pass Go, and $${rules.salary * 2} for landing exactly on it.`
+      : `- You collect $${rules.salary} each time you pass or land on Go.`,
+    rules.mandatoryAuctions
+      ? '- If you land on an unowned property, you may buy it or send it to auction.'
+      : '- If you land on an unowned property, you may buy it or leave it unowned (there are no auctions for declined properties).',
+    rules.noRentInJail
+      ? '- If you land on an owned property, you pay rent to the owner — unless the owner is in jail, which collects no rent.'
+      : '- If you land on an owned property, you pay rent to the owner.',
+    '- Own all properties in a color group (monopoly) to build houses. Doubles base rent on unimproved properties.',
+    rules.evenBuild
+      ? '- Houses must be built evenly across a color group.'
+      : '- Houses need not be built evenly: any property in a monopoly can take the next house.',
+  ];
+  if (rules.freeParkingJackpot) {
+    lines.push('- Taxes, fines and card payments to the bank go into a pot; whoever lands on Free Parking collects it.');
+  }
+  lines.push(`- Every player starts with $${rules.startingCash}.`);
+  return lines.join('\n');
+}
+
+function buildBoardReference(rules: RuleSet): string {
   const lines: string[] = ['BOARD REFERENCE (all 40 spaces):'];
   lines.push('');
 
@@ -115,10 +151,10 @@ function buildBoardReference(): string {
   lines.push('');
 
   lines.push('SPECIAL SPACES:');
-  lines.push('  Pos 0: Go (collect $200)');
+  lines.push(`  Pos 0: Go (collect $${rules.salary})`);
   lines.push('  Pos 4: Income Tax ($200)');
   lines.push('  Pos 10: Jail / Just Visiting');
-  lines.push('  Pos 20: Free Parking');
+  lines.push(`  Pos 20: Free Parking${rules.freeParkingJackpot ? ' (collect the jackpot)' : ''}`);
   lines.push('  Pos 30: Go To Jail');
   lines.push('  Pos 38: Luxury Tax ($100)');
   lines.push('  Chance: Pos 7, 22, 36');
@@ -127,7 +163,13 @@ function buildBoardReference(): string {
   return lines.join('\n');
 }
 
-export function buildTurnMessage(state: GameState, actingPlayerId: string): string {
+/** `inbox` holds table talk addressed to this player since their last prompt; `rules` are the house rules in play */
+export function buildTurnMessage(
+  state: GameState,
+  actingPlayerId: string,
+  inbox: PlayerMessage[] = [],
+  rules: RuleSet = DEFAULT_RULES,
+): string {
   const player = state.players.find(p => p.id === actingPlayerId)!;
   const space = getSpace(player.position);
 
@@ -139,15 +181,36 @@ export function buildTurnMessage(state: GameState, actingPlayerId: string): stri
     `  Position: ${space.name} (space ${player.position})`,
     `  Balance: $${player.balance}`,
     `  Properties: ${formatPlayerProperties(player)}`,
-    `  Get Out of Jail Free cards: ${player.getOutOfJailCards}`,
+    `  Get Out of Jail Free cards: ${formatJailCards(player)}`,
   ];
 
   if (player.inJail) {
-    lines.push(`  IN JAIL (turn ${player.jailTurns + 1} of 3)`);
+    lines.push(`  IN JAIL (turn ${player.jailTurns + 1} of ${rules.maxJailTurns})`);
+  }
+
+  for (const immunity of state.rentImmunities) {
+    const left = formatImmunityLeft(immunity.remaining, immunity.limit);
+    const property = getSpace(immunity.position).name;
+    if (immunity.beneficiaryId === player.id) {
+      lines.push(`  Rent immunity: you pay ${getPlayerById(state, immunity.grantorId).name} no rent on ${property} (${left})`);
+    } else if (immunity.grantorId === player.id) {
+      lines.push(`  Rent immunity granted: ${getPlayerById(state, immunity.beneficiaryId).name} pays you no rent on ${property} (${left})`);
+    }
   }
 
   if (state.lastDiceRoll) {
-    lines.push(`  Last dice roll: [${state.lastDiceRoll[0]}][${state.lastDiceRoll[1]}] = ${state.lastDiceRoll[0] + state.lastDiceRoll[1]}`);
+    const speed = state.lastSpeedDie ? `, speed die: ${speedDieLabel(state.lastSpeedDie)}` : '';
+    lines.push(`  Last dice roll: [${state.lastDiceRoll[0]}][${state.lastDiceRoll[1]}] = ${state.lastDiceRoll[0] + state.lastDiceRoll[1]}${speed}`);
+    if (state.mrMonopolyPending) lines.push('  Mr. Monopoly moves you on once this landing is dealt with');
+  }
+
+  lines.push('');
+  lines.push(`BANK SUPPLY: ${state.bankHouses} houses, ${state.bankHotels} hotels`);
+  if (state.freeParkingPot > 0) lines.push(`FREE PARKING JACKPOT: $${state.freeParkingPot}`);
+  const building = state.buildingAuction;
+  if (building) {
+    const leader = getPlayerById(state, building.highBidderId).name;
+    lines.push(`  Housing shortage auction for a ${building.building}: high bid $${building.highBid} by ${leader}`);
   }
 
   lines.push('');
@@ -158,12 +221,22 @@ export function buildTurnMessage(state: GameState, actingPlayerId: string): stri
       lines.push(`  ${other.name}: BANKRUPT`);
     } else {
       const otherSpace = getSpace(other.position);
-      lines.push(`  ${other.name}: $${other.balance} | ${otherSpace.name} (space ${other.position}) | ${other.properties.size} properties${other.inJail ? ' | IN JAIL' : ''}`);
+      const cards = other.jailCards.length > 0 ? ` | ${other.jailCards.length} Get Out of Jail Free card${other.jailCards.length === 1 ? '' : 's'}` : '';
+      lines.push(`  ${other.name}: $${other.balance} | ${otherSpace.name} (space ${other.position}) | ${other.properties.size} properties${cards}${other.inJail ? ' | IN JAIL' : ''}`);
+    }
+  }
+
+  if (inbox.length > 0) {
+    const nameOf = (id: string) => state.players.find(p => p.id === id)?.name ?? id;
+    lines.push('');
+    lines.push('MESSAGES FOR YOU:');
+    for (const message of inbox) {
+      lines.push(`  ${nameOf(message.fromPlayerId)} (${message.toPlayerId ? 'to you' : 'to everyone'}): "${message.text}"`);
     }
   }
 
-  // Show recent events
-  const recentEvents = state.gameLog.slice(-8);
+  // Show recent events (table talk arrives through the inbox, so private messages stay private)
+  const recentEvents = state.gameLog.filter(e => e.type !== 'player_message').slice(-8);
   if (recentEvents.length > 0) {
     lines.push('');
     lines.push('RECENT EVENTS:');
@@ -172,21 +245,46 @@ export function buildTurnMessage(state: GameState, actingPlayerId: string): stri
     }
   }
 
-  // Show pending debt
-  if (state.pendingDebt) {
+  // Show what this player still owes, creditor by creditor
+  const debts = state.pendingDebts?.queue.filter(d => d.debtorId === actingPlayerId) ?? [];
+  if (debts.length > 0) {
+    const creditorName = (id: string) => (id === 'bank' ? 'the Bank' : state.players.find(p => p.id === id)?.name ?? id);
+    const owed = debts.map(d => `$${d.amount} to ${creditorName(d.creditor)} for ${d.reason}`).join(', ');
     lines.push('');
-    lines.push(`*** DEBT: You owe $${state.pendingDebt.amount} to ${state.pendingDebt.creditor === 'bank' ? 'the Bank' : state.pendingDebt.creditor} for ${state.pendingDebt.reason}. Raise funds or declare bankruptcy. ***`);
+    lines.push(`*** DEBT: You owe ${owed}. Raise funds or declare bankruptcy. ***`);
   }
 
-  // Show active trade
+  // Show active trade, and how the negotiation got here
   if (state.activeTrade) {
     const trade = state.activeTrade;
+    const thread = state.negotiation?.thread ?? [trade];
+    const nameOf = (id: string) => state.players.find(p => p.id === id)?.name ?? id;
+    if (thread.length > 1) {
+      lines.push('');
+      lines.push('NEGOTIATION SO FAR:');
+      thread.slice(0, -1).forEach((offer, i) => {
+        const label = i === 0 ? 'Opening offer' : `Counter-offer ${i}`;
+        const terms = (offer.immunities ?? []).map(term => `; ${describeImmunity(state, term)}`).join('');
+        lines.push(`  ${label} from ${nameOf(offer.fromPlayerId)}: ${formatTradeItems(offer.offeredProperties, offer.offeredMoney, offer.offeredJailCards)} for ${formatTradeItems(offer.requestedProperties, offer.requestedMoney, offer.requestedJailCards)}${terms}`);
+      });
+    }
     lines.push('');
-    lines.push('TRADE OFFER:');
-    const from = state.players.find(p => p.id === trade.fromPlayerId)!;
-    lines.push(`  From: ${from.name}`);
-    lines.push(`  Offering: ${formatTradeItems(trade.offeredProperties, trade.offeredMoney)}`);
-    lines.push(`  Requesting: ${formatTradeItems(trade.requestedProperties, trade.requestedMoney)}`);
+    if (trade.participants) {
+      const agreed = state.negotiation?.acceptedBy ?? [];
+      lines.push(`MULTI-PARTY TRADE OFFER (from ${nameOf(trade.fromPlayerId)}, every participant must accept):`);
+      for (const side of trade.participants) {
+        lines.push(`  ${nameOf(side.playerId)} gives ${formatTradeItems(side.givesProperties, side.givesMoney)}, gets ${formatTradeItems(side.receivesProperties, side.receivesMoney)}`);
+      }
+      lines.push(`  Accepted so far: ${agreed.map(nameOf).join(', ') || 'nobody'}`);
+    } else {
+      lines.push(thread.length > 1 ? `TRADE OFFER (counter-offer ${thread.length - 1} of at most ${MAX_COUNTER_OFFERS}):` : 'TRADE OFFER:');
+      lines.push(`  From: ${nameOf(trade.fromPlayerId)}`);
+      lines.push(`  Offering: ${formatTradeItems(trade.offeredProperties, trade.offeredMoney, trade.offeredJailCards)}`);
+      lines.push(`  Requesting: ${formatTradeItems(trade.requestedProperties, trade.requestedMoney, trade.requestedJailCards)}`);
+      for (const term of trade.immunities ?? []) {
+        lines.push(`  Rent immunity: ${describeImmunity(state, term)}`);
+      }
+    }
   }
 
   // Highlight buildable monopolies
@@ -228,15 +326,66 @@ export function buildAuctionMessage(
 ): string {
   const player = state.players.find(p => p.id === biddingPlayerId)!;
   const space = getSpace(propertyPosition);
+  const listPrice = isOwnableSpace(space) ? space.price : 0;
+  const auction = state.auction;
 
-  return [
+  const lines = [
     `=== AUCTION ===`,
     `Property: ${space.name} (position ${propertyPosition})`,
-    `List price: $${(space as any).price}`,
+    `List price: $${listPrice}`,
     `Your balance: $${player.balance}`,
-    '',
-    'Submit your bid. Bid 0 to pass. Highest bidder wins.',
-  ].join('\n');
+  ];
+
+  const nameOf = (id: string) => state.players.find(p => p.id === id)?.name ?? id;
+
+  switch (auction?.mode) {
+    case 'ascending': {
+      const { highBid, highBidderId, minIncrement, bidders } = auction;
+      const minimum = highBid + minIncrement;
+      lines.push(
+        `Format: ascending — bidding goes round until only the high bidder is left`,
+        highBidderId
+          ? `High bid: $${highBid} by ${nameOf(highBidderId)}`
+          : 'High bid: none yet',
+        `Still bidding: ${bidders.map(nameOf).join(', ')}`,
+        `Minimum bid: $${minimum}`,
+        '',
+        `Bid at least $${minimum} to raise (raises go up in steps of at least $${minIncrement}), or bid 0 to drop out. Dropping out is final.`,
+      );
+      break;
+    }
+    case 'dutch': {
+      const { askingPrice, minIncrement } = auction;
+      const step = dutchPriceStep(listPrice, minIncrement);
+      lines.push(
+        `Format: Dutch (descending) — the price starts at list and falls until someone takes it`,
+        `Asking price: $${askingPrice}`,
+        '',
+        `Bid $${askingPrice} to buy it now at that price, or bid 0 to pass. Once everyone has passed, the price drops by $${step} and you are asked again.`,
+        'The first player to accept wins — waiting for a lower price risks someone else taking it. If the price bottoms out with no taker, nobody gets it.',
+      );
+      break;
+    }
+    case 'vickrey':
+      lines.push(
+        `Format: sealed second-price (Vickrey)`,
+        '',
+        'Submit your bid. Bid 0 to pass. Highest bidder wins.',
+        'Bids are sealed: nobody sees the others\' bids until everyone has bid. The winner pays the second-highest bid, not their own (or the minimum increment if nobody else bid), so your best bid is simply the most the property is worth to you.',
+      );
+      break;
+    case 'sealed':
+    case undefined:
+      lines.push(
+        `Format: sealed first-price`,
+        '',
+        'Submit your bid. Bid 0 to pass. Highest bidder wins.',
+        'Bids are sealed: nobody sees the others\' bids until everyone has bid, and the winner pays their own bid.',
+      );
+      break;
+  }
+
+  return lines.join('\n');
 }
 
 function getBuildHints(state: GameState, player: PlayerState): string[] {
@@ -309,7 +458,20 @@ function formatPlayerProperties(player: PlayerState): string {
     .join(' | ');
 }
 
-function formatTradeItems(properties: number[], money: number): string {
+/** "2 (Chance, Community Chest)" */
+function formatJailCards(player: PlayerState): string {
+  if (player.jailCards.length === 0) return '0';
+  const decks = player.jailCards.map(c => (c.deck === 'chance' ? 'Chance' : 'Community Chest'));
+  return `${player.jailCards.length} (${decks.join(', ')})`;
+}
+
+function formatImmunityLeft(remaining: number, limit: 'landings' | 'turns'): string {
+  if (remaining === 0) return 'now used up';
+  const unit = limit === 'landings' ? 'landing' : 'turn';
+  return `${remaining} ${unit}${remaining === 1 ? '' : 's'} left`;
+}
+
+function formatTradeItems(properties: number[], money: number, jailCards = 0): string {
   const parts: string[] = [];
   if (properties.length > 0) {
     parts.push(properties.map(p => getSpace(p).name).join(', '));
@@ -317,6 +479,9 @@ function formatTradeItems(properties: number[], money: number): string {
   if (money > 0) {
     parts.push(`$${money}`);
   }
+  if (jailCards > 0) {
+    parts.push(`${jailCards} Get Out of Jail Free card${jailCards === 1 ? '' : 's'}`);
+  }
   return parts.length > 0 ? parts.join(' + ') : 'Nothing';
 }
 
@@ -325,19 +490,37 @@ function formatEvent(event: GameEvent, state: GameState): string {
 
   switch (event.type) {
     case 'roll_dice':
-      return `${playerName(event.playerId)} rolled [${event.dice[0]}][${event.dice[1]}]${event.doubles ? ' DOUBLES!' : ''}`;
+      return `${playerName(event.playerId)} rolled [${event.dice[0]}][${event.dice[1]}]${event.speedDie ? `[${speedDieLabel(event.speedDie)}]` : ''}${event.doubles ? ' DOUBLES!' : ''}`;
+    case 'mr_monopoly':
+      return event.property
+        ? `Mr. Monopoly sends ${playerName(event.playerId)} on to ${event.property}`
+        : `Mr. Monopoly has nowhere to send ${playerName(event.playerId)}`;
     case 'move':
       return `${playerName(event.playerId)} moved to ${getSpace(event.to).name}${event.passedGo ? ' (passed Go!)' : ''}`;
     case 'land':
       return `${playerName(event.playerId)} landed on ${event.spaceName}`;
     case 'pay_rent':
       return `${playerName(event.payerId)} paid $${event.amount} rent to ${playerName(event.ownerId)} for ${event.property}`;
+    case 'rent_waived':
+      return `${playerName(event.payerId)} paid no rent to ${playerName(event.ownerId)} for ${event.property} (traded immunity, ${formatImmunityLeft(event.remaining, event.limit)})`;
+    case 'rent_waived_in_jail':
+      return `${playerName(event.payerId)} paid no rent to ${playerName(event.ownerId)} for ${event.property} (owner in jail)`;
     case 'buy_property':
       return `${playerName(event.playerId)} bought ${event.property} for $${event.price}`;
     case 'auction_won':
       return `${playerName(event.playerId)} won auction for ${event.property} at $${event.price}`;
     case 'auction_no_bids':
       return `No bids on ${event.property}`;
+    case 'property_declined':
+      return `${playerName(event.playerId)} declined ${event.property}; it stays unowned`;
+    case 'building_auction_start':
+      return `Housing shortage: ${playerName(event.playerId)} wants a ${event.building} and the bank has ${event.bankSupply} left, so it goes to auction`;
+    case 'building_bid':
+      return event.amount > 0
+        ? `${playerName(event.playerId)} bid $${event.amount} in the building auction`
+        : `${playerName(event.playerId)} dropped out of the building auction`;
+    case 'building_auction_won':
+      return `${playerName(event.playerId)} won the ${event.building} at auction for $${event.price} and built it on ${event.property}`;
     case 'build_house':
       return `${playerName(event.playerId)} built house on ${event.property} (${event.houses} houses)`;
     case 'build_hotel':
@@ -354,10 +537,20 @@ function formatEvent(event: GameEvent, state: GameState): string {
       return `${playerName(event.playerId)} mortgaged ${event.property} for $${event.received}`;
     case 'unmortgage':
       return `${playerName(event.playerId)} unmortgaged ${event.property} for $${event.cost}`;
+    case 'mortgage_interest':
+      return `${playerName(event.playerId)} paid $${event.amount} interest to keep ${event.property} mortgaged`;
     case 'trade_completed':
       return `Trade completed: ${event.fromPlayer} <-> ${event.toPlayer}: ${event.description}`;
     case 'trade_rejected':
       return `${event.toPlayer} rejected trade from ${event.fromPlayer}`;
+    case 'trade_countered':
+      return `${event.fromPlayer} countered ${event.toPlayer}'s offer (round ${event.round}): ${event.description}`;
+    case 'trade_agreed':
+      return `${event.player} agreed to the multi-party trade; waiting on ${event.waitingOn}`;
+    case 'trade_failed':
+      return `Trade from ${event.fromPlayer} fell through: ${event.reason}`;
+    case 'debt_paid':
+      return `${playerName(event.debtorId)} paid off $${event.amount} owed to ${event.creditor === 'bank' ? 'the Bank' : playerName(event.creditor)} (${event.reason})`;
     case 'bankruptcy':
       return `${playerName(event.playerId)} declared BANKRUPTCY!`;
     case 'game_over':
@@ -376,6 +569,8 @@ function formatEvent(event: GameEvent, state: GameState): string {
       return `Auction started for ${event.property}`;
     case 'auction_bid':
       return `${playerName(event.playerId)} bid $${event.amount}`;
+    case 'auction_price':
+      return `Asking price for ${event.property} dropped to $${event.price}`;
     default:
       return JSON.stringify(event);
   }
@@ -0,0 +1,350 @@
+import { PropertyState } from '../engine/types';
+import { BOARD_SPACES, getSpace, isOwnableSpace } from '../engine/board-data';
+import { SeededRng } from '../engine/dice';
+import { LLMAdapter, ToolDefinition, ChatMessage, LLMResponse } from './types';
+
+export type ScriptedStrategyName = 'random' | 'greedy' | 'conservative' | 'build-three';
+
+export const SCRIPTED_STRATEGY_NAMES: ScriptedStrategyName[] = ['random', 'greedy', 'conservative', 'build-three'];
+
+/** One line of the AVAILABLE ACTIONS block, with any enumerated parameter values */
+export interface ParsedAction {
+  name: string;
+  params: Record<string, (string | number)[]>;
+}
+
+/**
+ * What a scripted player can see: the same text an LLM gets, parsed back
+ * into numbers. Scripted players never look at the engine state directly,
+ * so they exercise the exact prompt → tool call path the LLMs do.
+ */
+export interface TurnView {
+  kind: 'turn' | 'auction';
+  balance: number;
+  position: number;
+  properties: Map<number, PropertyState>;
+  actions: ParsedAction[];
+  /** minBid is set in ascending and Dutch auctions: the raise or asking price a bid must meet */
+  auction: { position: number; listPrice: number; minBid: number | null } | null;
+}
+
+export interface ScriptedDecision {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+interface ScriptedStrategy {
+  decide(view: TurnView, rng: () => number): ScriptedDecision;
+  /** The most this player will pay for the property on auction */
+  bid(view: TurnView, rng: () => number): number;
+}
+
+/** Rule-based stand-in for an LLM. Reads the turn message and answers with a tool call. */
+export class ScriptedAdapter implements LLMAdapter {
+  readonly providerId = 'scripted';
+  readonly modelId: string;
+  private strategy: ScriptedStrategy;
+  private seededRng: SeededRng;
+  private rng: () => number;
+  private callCount = 0;
+
+  constructor(config: { strategy: ScriptedStrategyName; seed?: number }) {
+    this.modelId = config.strategy;
+    this.strategy = SCRIPTED_STRATEGIES[config.strategy];
+    this.seededRng = new SeededRng(config.seed ?? Math.floor(Math.random() * 2 ** 31));
+    this.rng = () => this.seededRng.next();
+  }
+
+  getRngState(): number {
+    return this.seededRng.getState();
+  }
+
+  setRngState(state: number): void {
+    this.seededRng.setState(state);
+  }
+
+  async chat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+  ): Promise<LLMResponse> {
+    const prompt = findLatestPrompt(messages);
+    const view = prompt ? parseTurnView(prompt) : null;
+
+    let decision: ScriptedDecision;
+    if (!view) {
+      decision = { name: 'end_turn', args: {} };
+    } else if (view.kind === 'auction') {
+      decision = { name: 'submit_bid', args: { amount: auctionBid(view, this.strategy.bid(view, this.rng)) } };
+    } else {
+      decision = this.strategy.decide(view, this.rng);
+    }
+
+    const id = `scripted_${this.modelId}_${++this.callCount}`;
+    return {
+      toolCalls: [{ id, name: decision.name, arguments: decision.args }],
+      textContent: '',
+      rawMessage: {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id, name: decision.name, input: decision.args }],
+      },
+    };
+  }
+}
+
+// ── Prompt Parsing ──
+
+const TURN_MARKER = 'AVAILABLE ACTIONS';
+const AUCTION_MARKER = '=== AUCTION ===';
+
+/** Walk back past tool results and nudges to the last message that carried a decision prompt */
+function findLatestPrompt(messages: ChatMessage[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role !== 'user') continue;
+
+    const text = typeof msg.content === 'string'
+      ? msg.content
+      : msg.content.map(b => (b.type === 'text' ? b.text : '')).join('\n');
+
+    if (text.includes(TURN_MARKER) || text.includes(AUCTION_MARKER)) return text;
+  }
+  return null;
+}
+
+export function parseTurnView(text: string): TurnView {
+  const auctionMatch = text.includes(AUCTION_MARKER)
+    ? text.match(/Property: .* \(position (\d+)\)\s*\nList price: \$(\d+)/)
+    : null;
+
+  const minBidMatch = auctionMatch ? text.match(/(?:Minimum bid|Asking price): \$(\d+)/) : null;
+  const balanceMatch = text.match(/(?:Your balance|Balance): \$(-?\d+)/);
+  const positionMatch = text.match(/Position: .* \(space (\d+)\)/);
+  const propertiesMatch = text.match(/^ {2}Properties: (.*)$/m);
+
+  return {
+    kind: auctionMatch ? 'auction' : 'turn',
+    balance: balanceMatch ? parseInt(balanceMatch[1], 10) : 0,
+    position: positionMatch ? parseInt(positionMatch[1], 10) : 0,
+    properties: propertiesMatch ? parseOwnedProperties(propertiesMatch[1]) : new Map(),
+    actions: parseAvailableActions(text),
+    auction: auctionMatch
+      ? {
+        position: parseInt(auctionMatch[1], 10),
+        listPrice: parseInt(auctionMatch[2], 10),
+        minBid: minBidMatch ? parseInt(minBidMatch[1], 10) : null,
+      }
+      : null,
+  };
+}
+
+function parseAvailableActions(text: string): ParsedAction[] {
+  const start = text.indexOf(TURN_MARKER);
+  if (start === -1) return [];
+
+  const actions: ParsedAction[] = [];
+  for (const line of text.slice(start).split('\n').slice(1)) {
+    const match = line.match(/^ {2}- (\w+):(?:.*\[params: (.*)\])?/);
+    if (!match) break;
+
+    const params: Record<string, (string | number)[]> = {};
+    if (match[2]) {
+      for (const param of match[2].split('; ')) {
+        const paramMatch = param.match(/^(\w+) \((\w+)\)(?: — valid values: (.*))?$/);
+        if (!paramMatch) continue;
+        const values = paramMatch[3]
+          ? paramMatch[3].split(', ').map(v => (paramMatch[2] === 'number' ? Number(v) : v))
+          : [];
+        params[paramMatch[1]] = values;
+      }
+    }
+    actions.push({ name: match[1], params });
+  }
+  return actions;
+}
+
+function parseOwnedProperties(line: string): Map<number, PropertyState> {
+  const owned = new Map<number, PropertyState>();
+  if (line === 'None') return owned;
+
+  for (const group of line.split(' | ')) {
+    const labels = group.slice(group.indexOf(': ') + 2).split(', ');
+    for (const label of labels) {
+      const match = label.match(/^(.*?)( \[M\])?(?: \[(Hotel|\d)H?\])?$/);
+      if (!match) continue;
+      const space = BOARD_SPACES.find(s => s.name === match[1]);
+      if (!space) continue;
+      const houses = match[3] === 'Hotel' ? 5 : match[3] ? parseInt(match[3], 10) : 0;
+      owned.set(space.position, { houses, mortgaged: match[2] !== undefined });
+    }
+  }
+  return owned;
+}
+
+// ── Strategies ──
+
+function find(view: TurnView, name: string): ParsedAction | undefined {
+  return view.actions.find(a => a.name === name);
+}
+
+function pick<T>(values: T[], rng: () => number): T {
+  return values[Math.floor(rng() * values.length)];
+}
+
+function withPosition(name: string, position: number | string): ScriptedDecision {
+  return { name, args: { property_position: position } };
+}
+
+function houseCost(position: number): number {
+  const space = getSpace(position);
+  return space.type === 'property' ? space.houseCost : 0;
+}
+
+function listPrice(position: number): number {
+  const space = getSpace(position);
+  return isOwnableSpace(space) ? space.price : 0;
+}
+
+/**
+ * Shared skeleton for the deterministic strategies: get out of debt, deal
+ * with jail, then buy/build according to the strategy's reserve, then roll
+ * or end the turn.
+ */
+function ruleBasedDecision(
+  view: TurnView,
+  opts: {
+    reserve: number;
+    maxHouses: number;
+    acceptTrades: boolean;
+    payJailFine: boolean;
+  },
+): ScriptedDecision {
+  // Responding to a trade offer
+  if (find(view, 'accept_trade')) {
+    return { name: opts.acceptTrades ? 'accept_trade' : 'reject_trade', args: {} };
+  }
+
+  // Between turns: scripted players never propose trades
+  if (find(view, 'skip_trade')) return { name: 'skip_trade', args: {} };
+
+  // Housing shortage auction: leave the scarce building to whoever asked for it
+  if (find(view, 'bid_building')) return { name: 'bid_building', args: { amount: 0 } };
+
+  // Handed a mortgaged property: pay the interest and leave the mortgage for later
+  if (find(view, 'keep_mortgage')) return { name: 'keep_mortgage', args: {} };
+
+  // In debt: liquidate houses first, then mortgage, then give up
+  if (find(view, 'declare_bankruptcy')) {
+    const sell = find(view, 'sell_house');
+    if (sell) return withPosition('sell_house', sell.params.property_position[0]);
+    const mortgage = find(view, 'mortgage_property');
+    if (mortgage) return withPosition('mortgage_property', mortgage.params.property_position[0]);
+    return { name: 'declare_bankruptcy', args: {} };
+  }
+
+  // Speed die bus: ride as far as it goes
+  const bus = find(view, 'take_bus');
+  if (bus) return { name: 'take_bus', args: { spaces: Math.max(...bus.params.spaces.map(Number)) } };
+
+  // In jail
+  if (find(view, 'use_get_out_of_jail_card')) return { name: 'use_get_out_of_jail_card', args: {} };
+  if (opts.payJailFine && find(view, 'pay_jail_fine') && view.balance - 50 >= opts.reserve) {
+    return { name: 'pay_jail_fine', args: {} };
+  }
+
+  // Landed on an unowned property
+  if (find(view, 'auction_property')) {
+    if (find(view, 'buy_property') && view.balance - listPrice(view.position) >= opts.reserve) {
+      return { name: 'buy_property', args: {} };
+    }
+    return { name: 'auction_property', args: {} };
+  }
+
+  const hotel = find(view, 'build_hotel');
+  if (hotel && opts.maxHouses >= 5) {
+    const pos = hotel.params.property_position.find(p => view.balance - houseCost(Number(p)) >= opts.reserve);
+    if (pos !== undefined) return withPosition('build_hotel', pos);
+  }
+
+  const build = find(view, 'build_house');
+  if (build) {
+    const pos = build.params.property_position.find(p =>
+      (view.properties.get(Number(p))?.houses ?? 0) < opts.maxHouses &&
+      view.balance - houseCost(Number(p)) >= opts.reserve,
+    );
+    if (pos !== undefined) return withPosition('build_house', pos);
+  }
+
+  if (find(view, 'roll_dice')) return { name: 'roll_dice', args: {} };
+  return { name: 'end_turn', args: {} };
+}
+
+/** Sealed bids get the whole limit; open auctions get the minimum that counts while it's within the limit */
+function auctionBid(view: TurnView, limit: number): number {
+  const minBid = view.auction?.minBid ?? null;
+  if (minBid === null) return limit;
+  return limit >= minBid ? minBid : 0;
+}
+
+function reserveBid(view: TurnView, fraction: number, reserve: number): number {
+  const listed = view.auction?.listPrice ?? 0;
+  return Math.max(0, Math.min(Math.floor(listed * fraction), view.balance - reserve));
+}
+
+/** Every move is chosen uniformly from the legal ones (trades and bankruptcy only as a last resort) */
+const randomStrategy: ScriptedStrategy = {
+  decide(view, rng) {
+    const candidates = view.actions.filter(a => !['trade_offer', 'counter_offer', 'declare_bankruptcy'].includes(a.name));
+    const action = candidates.length > 0
+      ? pick(candidates, rng)
+      : find(view, 'declare_bankruptcy') ?? view.actions[0];
+    if (!action) return { name: 'end_turn', args: {} };
+
+    const args: Record<string, unknown> = {};
+    for (const [key, values] of Object.entries(action.params)) {
+      if (values.length > 0) args[key] = pick(values, rng);
+    }
+    return { name: action.name, args };
+  },
+  bid(view, rng) {
+    const cap = Math.min(view.balance, view.auction?.listPrice ?? 0);
+    return Math.max(0, Math.floor(rng() * (cap + 1)));
+  },
+};
+
+/** Buys and builds whenever it can afford to */
+const greedyStrategy: ScriptedStrategy = {
+  decide(view) {
+    return ruleBasedDecision(view, { reserve: 0, maxHouses: 5, acceptTrades: false, payJailFine: true });
+  },
+  bid(view) {
+    return reserveBid(view, 1, 0);
+  },
+};
+
+/** Keeps $400 in the bank at all times and bids well under list price */
+const conservativeStrategy: ScriptedStrategy = {
+  decide(view) {
+    return ruleBasedDecision(view, { reserve: 400, maxHouses: 5, acceptTrades: false, payJailFine: false });
+  },
+  bid(view) {
+    return reserveBid(view, 0.5, 400);
+  },
+};
+
+/** Buys freely, but stops developing at three houses — the classic efficiency sweet spot */
+const buildThreeStrategy: ScriptedStrategy = {
+  decide(view) {
+    return ruleBasedDecision(view, { reserve: 100, maxHouses: 3, acceptTrades: false, payJailFine: true });
+  },
+  bid(view) {
+    return reserveBid(view, 0.8, 100);
+  },
+};
+
+const SCRIPTED_STRATEGIES: Record<ScriptedStrategyName, ScriptedStrategy> = {
+  random: randomStrategy,
+  greedy: greedyStrategy,
+  conservative: conservativeStrategy,
+  'build-three': buildThreeStrategy,
+};
@@ -1,5 +1,32 @@
 import { AvailableAction, ParameterSchema } from '../engine/types';
 import { ToolDefinition } from './types';
+import { MAX_IMMUNITY_COUNT } from '../engine/game-engine';
+
+/** Jail cards and rent immunity terms, which offers and counter-offers may both carry */
+const TRADE_EXTRA_PROPERTIES = {
+  offered_jail_cards: {
+    type: 'number',
+    description: 'Get Out of Jail Free cards you are offering.',
+  },
+  requested_jail_cards: {
+    type: 'number',
+    description: 'Get Out of Jail Free cards you want.',
+  },
+  rent_immunities: {
+    type: 'array',
+    description: `Rent waivers that are part of the deal. "me" stops paying rent on a property the other player owns after the trade, "them" on one you own; each lasts 1-${MAX_IMMUNITY_COUNT} landings or turns and is enforced by the engine.`,
+    items: {
+      type: 'object',
+      properties: {
+        property_position: { type: 'number', description: 'Board position of the property.' },
+        beneficiary: { type: 'string', enum: ['me', 'them'], description: 'Who pays no rent there.' },
+        limit: { type: 'string', enum: ['landings', 'turns'], description: 'Whether the waiver counts landings or turns.' },
+        count: { type: 'number', description: 'How many landings or turns it lasts.' },
+      },
+      required: ['property_position', 'beneficiary', 'limit', 'count'],
+    },
+  },
+};
 
 /**
  * Static tool definitions that NEVER change between calls.
@@ -15,6 +42,20 @@ export const STATIC_TOOLS: ToolDefinition[] = [
     description: 'Roll the dice to move.',
     input_schema: { type: 'object', properties: {}, required: [] },
   },
+  {
+    name: 'take_bus',
+    description: 'The speed die rolled the bus: move by either white die or by both.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        spaces: {
+          type: 'number',
+          description: 'How many spaces to move.',
+        },
+      },
+      required: ['spaces'],
+    },
+  },
   {
     name: 'buy_property',
     description: 'Buy the property you landed on.',
@@ -22,7 +63,7 @@ export const STATIC_TOOLS: ToolDefinition[] = [
   },
   {
     name: 'auction_property',
-    description: 'Decline to buy. The property goes to auction.',
+    description: 'Decline to buy. The property goes to auction, or stays unowned if house rules turn auctions off.',
     input_schema: { type: 'object', properties: {}, required: [] },
   },
   {
@@ -95,6 +136,16 @@ export const STATIC_TOOLS: ToolDefinition[] = [
       required: ['property_position'],
     },
   },
+  {
+    name: 'lift_mortgage',
+    description: 'Lift the mortgage on the mortgaged property you were just handed: pay its mortgage value plus 10% interest now.',
+    input_schema: { type: 'object', properties: {}, required: [] },
+  },
+  {
+    name: 'keep_mortgage',
+    description: 'Keep the property you were just handed mortgaged: pay 10% interest now, and mortgage value plus 10% whenever you unmortgage it.',
+    input_schema: { type: 'object', properties: {}, required: [] },
+  },
   {
     name: 'trade_offer',
     description: 'Propose a trade with another player.',
@@ -123,6 +174,22 @@ export const STATIC_TOOLS: ToolDefinition[] = [
           type: 'number',
           description: 'Amount of money you want.',
         },
+        ...TRADE_EXTRA_PROPERTIES,
+        participants: {
+          type: 'array',
+          description: 'For a deal among three or more players: list every participant, yourself included, with what each gives and receives. Each property given must be received by one other participant and the money given must equal the money received. Every participant must accept. When set, target_player_id is the first player asked and the other trade fields are ignored.',
+          items: {
+            type: 'object',
+            properties: {
+              player_id: { type: 'string', description: 'ID of the participant.' },
+              gives_properties: { type: 'array', items: { type: 'number' }, description: 'Board positions they hand over.' },
+              gives_money: { type: 'number', description: 'Money they put in.' },
+              receives_properties: { type: 'array', items: { type: 'number' }, description: 'Board positions they get.' },
+              receives_money: { type: 'number', description: 'Money they take out.' },
+            },
+            required: ['player_id'],
+          },
+        },
       },
       required: ['target_player_id'],
     },
@@ -137,6 +204,35 @@ export const STATIC_TOOLS: ToolDefinition[] = [
     description: 'Reject the pending trade offer.',
     input_schema: { type: 'object', properties: {}, required: [] },
   },
+  {
+    name: 'counter_offer',
+    description: 'Answer the pending trade offer with your own terms, sent back to the player who offered it.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        offered_properties: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Board positions of properties you are offering.',
+        },
+        offered_money: {
+          type: 'number',
+          description: 'Amount of money you are offering.',
+        },
+        requested_properties: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Board positions of properties you want.',
+        },
+        requested_money: {
+          type: 'number',
+          description: 'Amount of money you want.',
+        },
+        ...TRADE_EXTRA_PROPERTIES,
+      },
+      required: [],
+    },
+  },
   {
     name: 'end_turn',
     description: 'End your turn.',
@@ -157,6 +253,24 @@ export const STATIC_TOOLS: ToolDefinition[] = [
     description: 'Pay $50 to get out of jail.',
     input_schema: { type: 'object', properties: {}, required: [] },
   },
+  {
+    name: 'bid_building',
+    description: 'Bid for a house or hotel the bank is short of. Bid 0 to drop out.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        amount: {
+          type: 'number',
+          description: 'Your bid amount (0 to drop out).',
+        },
+        property_position: {
+          type: 'number',
+          description: 'Board position of the property to build on if you win.',
+        },
+      },
+      required: ['amount'],
+    },
+  },
   {
     name: 'submit_bid',
     description: 'Submit your bid in an auction. Bid 0 to pass.',
@@ -173,6 +287,31 @@ export const STATIC_TOOLS: ToolDefinition[] = [
   },
 ];
 
+/**
+ * Table talk. Offered next to STATIC_TOOLS on turns and trade responses;
+ * sending a message doesn't use up the decision, the player is asked again.
+ */
+export const SEND_MESSAGE_TOOL: ToolDefinition = {
+  name: 'send_message',
+  description: 'Say something to one opponent or the whole table. They read it in their next turn message. Use it to negotiate, persuade or bluff; it does not count as your action.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      to_player_id: {
+        type: 'string',
+        description: 'ID or name of the player to message, or "all" for every opponent.',
+      },
+      text: {
+        type: 'string',
+        description: 'The message.',
+      },
+    },
+    required: ['to_player_id', 'text'],
+  },
+};
+
+export const TURN_TOOLS: ToolDefinition[] = [...STATIC_TOOLS, SEND_MESSAGE_TOOL];
+
 /**
  * Format available actions as text for the turn message.
  * This replaces the dynamic tool approach — the LLM sees which actions
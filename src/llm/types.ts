@@ -1,3 +1,5 @@
+import { AvailableAction, GameState } from '../engine/types';
+
 export interface ToolDefinition {
   name: string;
   description: string;
@@ -22,7 +24,25 @@ export interface LLMAdapter {
     systemPrompt: string,
     messages: ChatMessage[],
     tools: ToolDefinition[],
+    context?: DecisionContext,
   ): Promise<LLMResponse>;
+
+  /** Position of the adapter's own RNG, for adapters that draw random numbers; saved with the game */
+  getRngState?(): number;
+  setRngState?(state: number): void;
+}
+
+/**
+ * The decision behind a chat call, in engine terms. Models read all of this
+ * from the message text; a human seat picks from `actions` directly.
+ */
+export interface DecisionContext {
+  kind: 'turn' | 'auction' | 'trade_response' | 'trade_window' | 'mortgage_decision' | 'debt' | 'building_auction';
+  playerId: string;
+  state: GameState;
+  actions: AvailableAction[];
+  /** Board position being auctioned */
+  auctionPosition?: number;
 }
 
 export interface ChatMessage {
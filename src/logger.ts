@@ -1,21 +1,99 @@
 import { writeFileSync } from 'fs';
-import { GameState, GameEvent } from './engine/types';
+import { GameState, GameEvent, GameAction, AuctionRules, RuleSet } from './engine/types';
 import { serializeState } from './engine/game-state';
+import { RngState } from './engine/dice';
 
+/**
+ * One engine step. Decisions (actions, auction bids, trade responses) carry
+ * their inputs in `params` so the game can be replayed; `auto_resolve`
+ * entries hold one landing event each.
+ */
 export interface GameLogEntry {
   turnNumber: number;
   playerName: string;
   action: string;
   events: GameEvent[];
   timestamp: number;
+  params?: GameAction;
+  /** Set when the engine rejected the action — it changed nothing */
+  error?: string;
+  /** The model's free text alongside its tool call, when it wrote any */
+  reasoning?: string;
+}
+
+/** Shape of the JSON written by flush() */
+export interface GameLogFile extends Partial<GameLogStart> {
+  players: GameLogPlayer[];
+  entries: GameLogEntry[];
+  finalState: unknown;
+  totalTurns: number;
+}
+
+/** Where the game started from — with the entries, enough to replay it */
+export interface GameLogStart {
+  seed: number;
+  maxTurns: number;
+  auction: AuctionRules;
+  tradeWindow: boolean;
+  /** House rules the game was played by */
+  rules: RuleSet;
+  /** RNG streams after setup (deck shuffles already drawn) */
+  rng: RngState;
+  /** Serialized state after setup and any scenario */
+  initialState: unknown;
+}
+
+/** Seat assignment as played — lets a log be attributed to models after the fact */
+export interface GameLogPlayer {
+  id: string;
+  name: string;
+  type: string;
+  provider: string;
+  model: string;
+  temperature: number | null;
+  strategy: string;
 }
 
 export class GameLogger {
   private entries: GameLogEntry[] = [];
+  private players: GameLogPlayer[] = [];
+  private start: GameLogStart | null = null;
   private logFile: string | null;
+  private announce: (message: string) => void;
 
-  constructor(logFile: string | null) {
+  constructor(logFile: string | null, announce: (message: string) => void = console.log) {
     this.logFile = logFile;
+    this.announce = announce;
+  }
+
+  setPlayers(players: GameLogPlayer[]): void {
+    this.players = players;
+  }
+
+  setStart(
+    state: GameState,
+    seed: number,
+    maxTurns: number,
+    auction: AuctionRules,
+    tradeWindow: boolean,
+    rules: RuleSet,
+    rng: RngState,
+  ): void {
+    this.start = { seed, maxTurns, auction, tradeWindow, rules, rng, initialState: JSON.parse(serializeState(state)) };
+  }
+
+  getStart(): GameLogStart | null {
+    return this.start;
+  }
+
+  /** Entries so far — saved with a snapshot so a resumed game's log covers the whole game */
+  getEntries(): GameLogEntry[] {
+    return this.entries;
+  }
+
+  restoreEntries(entries: GameLogEntry[], start: GameLogStart | null): void {
+    this.entries = [...entries];
+    this.start = start;
   }
 
   logAction(
@@ -23,6 +101,7 @@ export class GameLogger {
     playerName: string,
     action: string,
     events: GameEvent[],
+    extra: Pick<GameLogEntry, 'params' | 'error' | 'reasoning'> = {},
   ): void {
     this.entries.push({
       turnNumber,
@@ -30,13 +109,16 @@ export class GameLogger {
       action,
       events,
       timestamp: Date.now(),
+      ...extra,
     });
   }
 
   flush(finalState?: GameState): void {
     if (!this.logFile) return;
 
-    const output = {
+    const output: GameLogFile = {
+      players: this.players,
+      ...this.start,
       entries: this.entries,
       finalState: finalState ? JSON.parse(serializeState(finalState)) : null,
       totalTurns: this.entries.length > 0
@@ -45,6 +127,6 @@ export class GameLogger {
     };
 
     writeFileSync(this.logFile, JSON.stringify(output, null, 2));
-    console.log(`Game log written to ${this.logFile}`);
+    this.announce(`Game log written to ${this.logFile}`);
   }
 }
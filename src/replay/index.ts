@@ -0,0 +1,76 @@
+import React from 'react';
+import { render } from 'ink';
+import { loadGameLog, replayGame, Divergence } from './replayer';
+import { buildTimeline } from './timeline';
+import { ReplayApp } from '../display/ink-replay-app';
+
+const USAGE = `Usage: bun src/replay/index.ts <game-log.json> [more logs...]
+       bun src/replay/index.ts --view <game-log.json>
+
+Re-runs each logged game through the engine with its recorded seed and
+decisions, and checks every regenerated event against the log. Exits 1 if
+any game diverges or can't be read.
+
+--view opens the game in the terminal viewer instead, to step through it
+action by action or turn by turn.`;
+
+function formatDivergence(d: Divergence): string {
+  const lines = [
+    `  diverged at entry ${d.entryIndex} (turn ${d.turnNumber}, ${d.playerName}: ${d.action}): ${d.message}`,
+  ];
+  if (d.expected !== undefined) lines.push(`    expected: ${JSON.stringify(d.expected)}`);
+  if (d.actual !== undefined) lines.push(`    actual:   ${JSON.stringify(d.actual)}`);
+  return lines.join('\n');
+}
+
+async function view(file: string) {
+  const timeline = buildTimeline(loadGameLog(file));
+  const { waitUntilExit } = render(React.createElement(ReplayApp, { timeline, title: file }));
+  await waitUntilExit();
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(USAGE);
+    process.exit(args.length === 0 ? 1 : 0);
+  }
+
+  if (args[0] === '--view') {
+    if (args.length !== 2) {
+      console.error('--view takes exactly one game log');
+      process.exit(1);
+    }
+    await view(args[1]);
+    process.exit(0);
+  }
+
+  const files = args;
+
+  let failures = 0;
+  for (const file of files) {
+    try {
+      const { entriesReplayed, divergence } = replayGame(loadGameLog(file));
+      if (divergence) {
+        failures++;
+        console.log(`✗ ${file}`);
+        console.log(formatDivergence(divergence));
+      } else {
+        console.log(`✓ ${file} (${entriesReplayed} entries)`);
+      }
+    } catch (error) {
+      failures++;
+      console.log(`✗ ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (files.length > 1) {
+    console.log(`\n${files.length - failures}/${files.length} games replayed identically`);
+  }
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
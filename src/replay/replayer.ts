@@ -0,0 +1,246 @@
+import { readFileSync } from 'fs';
+import { GameState, GameEvent, GameAction, ActionResult, AuctionRules } from '../engine/types';
+import { GameEngine, DEFAULT_RULES } from '../engine/game-engine';
+import { serializeState, deserializeState } from '../engine/game-state';
+import { getPlayerById } from '../engine/bank';
+import { GameRng, RngState } from '../engine/dice';
+import { GameLogEntry, GameLogFile } from '../logger';
+import { MAX_ACTIONS_PER_TURN, advanceTurn, declareLastStanding } from '../game-loop';
+
+/** A log with everything needed to re-run it */
+export interface ReplayableLog extends GameLogFile {
+  seed: number;
+  maxTurns: number;
+  auction: AuctionRules;
+  rng: RngState;
+  initialState: unknown;
+}
+
+/** The first point where the re-run engine disagrees with the log */
+export interface Divergence {
+  /** Index into the log's entries; entries.length when the mismatch is at the end of the game */
+  entryIndex: number;
+  turnNumber: number;
+  playerName: string;
+  action: string;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface ReplayResult {
+  /** Log entries verified before stopping */
+  entriesReplayed: number;
+  finalState: GameState;
+  divergence: Divergence | null;
+}
+
+export interface ReplayOptions {
+  /** Called after each entry checks out, with the state as of that entry */
+  onEntry?: (entryIndex: number, state: GameState) => void;
+}
+
+export function loadGameLog(path: string): ReplayableLog {
+  const log = JSON.parse(readFileSync(path, 'utf-8'));
+  if (typeof log.seed !== 'number' || !log.rng || !log.initialState || !Array.isArray(log.entries)) {
+    throw new Error(`${path} has no replay data (seed, RNG state and initial state) — it predates replayable logs`);
+  }
+  if (!log.auction) {
+    throw new Error(`${path} has no auction rules — it predates per-bid auction logging`);
+  }
+  return log;
+}
+
+class DivergenceError extends Error {
+  constructor(readonly divergence: Divergence) {
+    super(divergence.message);
+  }
+}
+
+/**
+ * Re-runs a logged game through the engine, feeding it the recorded
+ * decisions and following the same turn structure as GameLoop, and checks
+ * every regenerated event against the log.
+ */
+class Replay {
+  private engine: GameEngine;
+  private cursor = 0;
+  state: GameState;
+
+  constructor(private log: ReplayableLog, private options: ReplayOptions) {
+    // Logs from before trade windows never had one, nor bankruptcy auctions or house rules
+    this.engine = new GameEngine(
+      GameRng.fromState(log.rng),
+      { ...log.auction, bankruptcySales: log.auction.bankruptcySales ?? 'unowned' },
+      log.tradeWindow ?? false,
+      log.rules ?? DEFAULT_RULES,
+    );
+    this.state = deserializeState(JSON.stringify(log.initialState));
+  }
+
+  get entriesReplayed(): number {
+    return this.cursor;
+  }
+
+  run(): void {
+    while (!this.state.winner && this.state.turnNumber <= this.log.maxTurns) {
+      this.playTurn();
+      if (declareLastStanding(this.state)) break;
+    }
+
+    if (this.cursor < this.log.entries.length) {
+      this.diverge('log continues after the replayed game ended');
+    }
+    if (this.log.finalState) {
+      const actual = JSON.parse(serializeState(this.state));
+      if (JSON.stringify(actual) !== JSON.stringify(this.log.finalState)) {
+        this.diverge('final state differs', this.log.finalState, actual);
+      }
+    }
+  }
+
+  private playTurn(): void {
+    if (this.state.players[this.state.currentPlayerIndex].isBankrupt) {
+      advanceTurn(this.state);
+      return;
+    }
+
+    this.state.turnPhase = 'pre_roll';
+    let actionCount = 0;
+
+    while (this.state.turnPhase !== 'turn_complete' && actionCount < MAX_ACTIONS_PER_TURN) {
+      const player = this.state.players[this.state.currentPlayerIndex];
+
+      if (this.state.turnPhase === 'post_roll_land') {
+        const result = this.engine.autoResolveLanding(this.state);
+        this.state = result.newState;
+        for (const event of result.events) {
+          const entry = this.expectEntry(player.name, 'auto_resolve');
+          this.checkEvents(entry, [event]);
+        }
+        continue;
+      }
+
+      if (this.state.turnPhase === 'auction') {
+        const bidderId = this.engine.getAuctionBidder(this.state);
+        if (!bidderId) break;
+        this.applyRecorded(this.expectEntry(getPlayerById(this.state, bidderId).name));
+        continue;
+      }
+
+      if (this.state.turnPhase === 'trading') {
+        const trade = this.state.activeTrade;
+        if (!trade) {
+          this.state.turnPhase = 'post_action';
+          continue;
+        }
+        const target = this.state.players.find(p => p.id === trade.toPlayerId)!;
+        this.applyRecorded(this.expectEntry(target.name));
+        continue;
+      }
+
+      if (this.state.turnPhase === 'trade_window') {
+        const proposerId = this.engine.getTradeWindowProposer(this.state)!;
+        this.applyRecorded(this.expectEntry(getPlayerById(this.state, proposerId).name));
+        continue;
+      }
+
+      if (this.state.turnPhase === 'mortgage_decision') {
+        const deciderId = this.engine.getMortgageDecider(this.state)!;
+        this.applyRecorded(this.expectEntry(getPlayerById(this.state, deciderId).name));
+        continue;
+      }
+
+      if (this.state.turnPhase === 'building_auction') {
+        const bidderId = this.engine.getBuildingBidder(this.state)!;
+        this.applyRecorded(this.expectEntry(getPlayerById(this.state, bidderId).name));
+        continue;
+      }
+
+      const debtorId = this.engine.getDebtor(this.state);
+      if (debtorId && debtorId !== player.id) {
+        this.applyRecorded(this.expectEntry(getPlayerById(this.state, debtorId).name));
+        continue;
+      }
+
+      if (this.engine.hasMrMonopolyMove(this.state)) {
+        const result = this.engine.moveMrMonopoly(this.state);
+        this.state = result.newState;
+        for (const event of result.events) {
+          const entry = this.expectEntry(player.name, 'auto_resolve');
+          this.checkEvents(entry, [event]);
+        }
+        continue;
+      }
+
+      if (this.engine.getAvailableActions(this.state).length === 0) break;
+
+      this.applyRecorded(this.expectEntry(player.name));
+      actionCount++;
+    }
+
+    advanceTurn(this.state);
+  }
+
+  /** Next entry, which must be by `playerName` and, if given, be `action` (otherwise a decision) */
+  private expectEntry(playerName: string, action?: string): GameLogEntry {
+    const entry = this.log.entries[this.cursor];
+    if (!entry) {
+      this.diverge(`log ends while the engine expects ${action ?? 'an action'} from ${playerName}`);
+    }
+    const isDecision = entry.params !== undefined;
+    if (entry.playerName !== playerName || (action ? entry.action !== action : !isDecision)) {
+      this.diverge(
+        `engine expects ${action ?? 'an action'} from ${playerName}, log has ${entry.action} from ${entry.playerName}`,
+      );
+    }
+    this.cursor++;
+    return entry;
+  }
+
+  private applyRecorded(entry: GameLogEntry): void {
+    const result: ActionResult = this.engine.applyAction(this.state, entry.params as GameAction);
+    if (result.success === (entry.error !== undefined)) {
+      this.diverge(
+        result.success ? 'action now succeeds but was rejected' : 'action now fails but succeeded',
+        entry.error ?? 'success',
+        result.error ?? 'success',
+        this.cursor - 1,
+      );
+    }
+    if (result.success) this.state = result.newState;
+    this.checkEvents(entry, result.events);
+  }
+
+  private checkEvents(entry: GameLogEntry, events: GameEvent[]): void {
+    if (JSON.stringify(events) !== JSON.stringify(entry.events)) {
+      this.diverge('events differ', entry.events, events, this.cursor - 1);
+    }
+    this.options.onEntry?.(this.cursor - 1, this.state);
+  }
+
+  private diverge(message: string, expected?: unknown, actual?: unknown, entryIndex = this.cursor): never {
+    const entry = this.log.entries[entryIndex];
+    throw new DivergenceError({
+      entryIndex,
+      turnNumber: entry?.turnNumber ?? this.state.turnNumber,
+      playerName: entry?.playerName ?? this.state.players[this.state.currentPlayerIndex].name,
+      action: entry?.action ?? '(end of log)',
+      message,
+      expected,
+      actual,
+    });
+  }
+}
+
+export function replayGame(log: ReplayableLog, options: ReplayOptions = {}): ReplayResult {
+  const replay = new Replay(log, options);
+  let divergence: Divergence | null = null;
+  try {
+    replay.run();
+  } catch (error) {
+    if (!(error instanceof DivergenceError)) throw error;
+    divergence = error.divergence;
+  }
+  return { entriesReplayed: replay.entriesReplayed, finalState: replay.state, divergence };
+}
@@ -0,0 +1,131 @@
+import { GameState } from '../engine/types';
+import { cloneState } from '../engine/bank';
+import { deserializeState } from '../engine/game-state';
+import { getSpace } from '../engine/board-data';
+import { InkRenderer } from '../display/ink-renderer';
+import { GameLogEntry } from '../logger';
+import { ReplayableLog, Divergence, replayGame } from './replayer';
+
+/** The game as it stood right after one log entry (or at the start) */
+export interface ReplayFrame {
+  /** -1 for the starting position */
+  entryIndex: number;
+  turnNumber: number;
+  playerName: string | null;
+  action: string | null;
+  state: GameState;
+  /** How many event log lines had been written by this point */
+  logLength: number;
+  /** Free text the model(s) wrote alongside this decision */
+  reasoning: string[];
+}
+
+export interface ReplayTimeline {
+  frames: ReplayFrame[];
+  eventLog: string[];
+  /** Set when the engine no longer agrees with the log; frames stop there */
+  divergence: Divergence | null;
+}
+
+/**
+ * Replays a log and keeps a frame per entry, with the event log formatted
+ * the same way the live Ink UI formats it.
+ */
+export function buildTimeline(log: ReplayableLog): ReplayTimeline {
+  const initial = deserializeState(JSON.stringify(log.initialState));
+  const display = new InkRenderer();
+  display.renderGameStart(initial);
+
+  const frames: ReplayFrame[] = [{
+    entryIndex: -1,
+    turnNumber: initial.turnNumber,
+    playerName: null,
+    action: null,
+    state: cloneState(initial),
+    logLength: 0,
+    reasoning: [],
+  }];
+  let lastTurn = 0;
+
+  const { divergence } = replayGame(log, {
+    onEntry(entryIndex, state) {
+      const entry = log.entries[entryIndex];
+      if (entry.turnNumber !== lastTurn) {
+        display.renderTurnStart({ ...state, turnNumber: entry.turnNumber });
+        lastTurn = entry.turnNumber;
+      }
+      narrate(display, entry, state);
+
+      frames.push({
+        entryIndex,
+        turnNumber: entry.turnNumber,
+        playerName: entry.playerName,
+        action: entry.action,
+        state: cloneState(state),
+        logLength: display.getState().eventLog.length,
+        reasoning: reasoningFor(entry),
+      });
+    },
+  });
+
+  return { frames, eventLog: display.getState().eventLog, divergence };
+}
+
+function narrate(display: InkRenderer, entry: GameLogEntry, state: GameState): void {
+  const nameOf = (id: string) => state.players.find(p => p.id === id)?.name ?? id;
+
+  if (entry.action === 'submit_bid') {
+    if (entry.error) display.renderActionError(entry.error);
+    for (const event of entry.events) {
+      if (event.type === 'auction_bid') display.renderBid(nameOf(event.playerId), event.amount);
+    }
+  } else if (entry.action !== 'auto_resolve') {
+    const { action, ...args } = entry.params ?? { action: entry.action };
+    display.renderAction(entry.playerName, action, args);
+    if (entry.error) display.renderActionError(entry.error);
+  }
+  display.renderEvents(entry.events, state);
+
+  const start = entry.events.find(e => e.type === 'auction_start');
+  if (start && 'property' in start) display.renderAuctionStart(start.property);
+}
+
+function reasoningFor(entry: GameLogEntry): string[] {
+  return entry.reasoning ? [entry.reasoning] : [];
+}
+
+// ── Navigation ──
+
+/** First frame of the turn after the one `index` is in (or the last frame) */
+export function nextTurnFrame(frames: ReplayFrame[], index: number): number {
+  const turn = frames[index].turnNumber;
+  const next = frames.findIndex((f, i) => i > index && f.turnNumber !== turn);
+  return next === -1 ? frames.length - 1 : next;
+}
+
+/** Start of the current turn, or of the previous one if already at its start */
+export function prevTurnFrame(frames: ReplayFrame[], index: number): number {
+  let start = index;
+  while (start > 0 && frames[start - 1].turnNumber === frames[index].turnNumber) start--;
+  if (start < index || start === 0) return start;
+
+  const prevTurn = frames[start - 1].turnNumber;
+  while (start > 0 && frames[start - 1].turnNumber === prevTurn) start--;
+  return start;
+}
+
+/** First frame at or after turn `turn` (or the last frame if the game ended sooner) */
+export function frameForTurn(frames: ReplayFrame[], turn: number): number {
+  const index = frames.findIndex(f => f.turnNumber >= turn);
+  return index === -1 ? frames.length - 1 : index;
+}
+
+/** One-line description of what happened at a frame */
+export function describeFrame(frame: ReplayFrame): string {
+  if (frame.entryIndex === -1) return 'Start of game';
+  if (frame.action === 'auto_resolve') {
+    const land = frame.state.players.find(p => p.name === frame.playerName);
+    return `${frame.playerName}: landing on ${land ? getSpace(land.position).name : '?'}`;
+  }
+  return `${frame.playerName}: ${frame.action}`;
+}
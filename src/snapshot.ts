@@ -0,0 +1,73 @@
+import { readFileSync, writeFileSync, renameSync } from 'fs';
+import { GameState, AuctionRules, RuleSet, PlayerMessage } from './engine/types';
+import { serializeState, deserializeState } from './engine/game-state';
+import { RngState } from './engine/dice';
+import { ChatMessage } from './llm/types';
+import { SeatConfig } from './config';
+import { GameLogEntry, GameLogStart } from './logger';
+
+const SNAPSHOT_VERSION = 14;
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreation: number;
+  cacheRead: number;
+  apiCalls: number;
+}
+
+/**
+ * Everything needed to continue a game from a turn boundary: the engine
+ * state, the position of every RNG stream, what each player has said and
+ * been told, and the running totals for usage and the game log.
+ */
+export interface GameSnapshot {
+  version: number;
+  savedAt: string;
+  seed: number;
+  rng: RngState;
+  seats: SeatConfig[];
+  auction: AuctionRules;
+  tradeWindow: boolean;
+  rules: RuleSet;
+  state: GameState;
+  histories: Record<string, ChatMessage[]>;
+  /** Table talk not yet shown to its recipients */
+  inboxes: Record<string, PlayerMessage[]>;
+  /** Where each scripted player's own RNG had got to, by player id */
+  adapterRng: Record<string, number>;
+  usage: UsageTotals;
+  logEntries: GameLogEntry[];
+  logStart: GameLogStart | null;
+}
+
+export function snapshotToJson(snapshot: GameSnapshot): string {
+  // GameState holds Maps, so it goes through the engine's own serializer
+  return JSON.stringify({
+    ...snapshot,
+    state: JSON.parse(serializeState(snapshot.state)),
+  });
+}
+
+/** Write via a temp file so a crash mid-write never leaves a truncated save behind */
+export function writeSnapshot(path: string, snapshot: GameSnapshot | string): void {
+  const json = typeof snapshot === 'string' ? snapshot : snapshotToJson(snapshot);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, json);
+  renameSync(tmp, path);
+}
+
+export function readSnapshot(path: string): GameSnapshot {
+  const raw = JSON.parse(readFileSync(path, 'utf-8'));
+  if (raw.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported save file version ${raw.version} in ${path}`);
+  }
+  return {
+    ...raw,
+    state: deserializeState(JSON.stringify(raw.state)),
+  };
+}
+
+export function createSnapshot(fields: Omit<GameSnapshot, 'version' | 'savedAt'>): GameSnapshot {
+  return { version: SNAPSHOT_VERSION, savedAt: new Date().toISOString(), ...fields };
+}
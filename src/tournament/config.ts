@@ -0,0 +1,171 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SeatConfig, resolveSeats } from '../config';
+import { TournamentFormat } from './scheduler';
+
+/** Tournament JSON (--config). Agents use the same fields as a match config seat. */
+export interface TournamentFile {
+  agents: Partial<SeatConfig>[];
+  format?: TournamentFormat;
+  playersPerGame?: number;
+  gamesPerMatchup?: number;
+  rounds?: number;
+  concurrency?: number;
+  maxTurns?: number;
+  seed?: number;
+  scenarioFile?: string;
+  outDir?: string;
+  ratingsFile?: string;
+  logGames?: boolean;
+}
+
+export interface TournamentConfig {
+  agents: SeatConfig[];
+  format: TournamentFormat;
+  playersPerGame: number;
+  gamesPerMatchup: number;
+  rounds: number;
+  concurrency: number;
+  maxTurns: number;
+  seed: number;
+  scenarioFile: string | null;
+  outDir: string;
+  ratingsFile: string;
+  logGames: boolean;
+}
+
+const FORMATS: TournamentFormat[] = ['round-robin', 'swiss'];
+
+export function parseTournamentArgs(argv: string[]): TournamentConfig {
+  let file: TournamentFile | null = null;
+  const overrides: Partial<TournamentFile> = {};
+
+  for (let i = 2; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--config':
+        file = JSON.parse(readFileSync(argv[++i], 'utf-8'));
+        break;
+      case '--format':
+        overrides.format = argv[++i] as TournamentFormat;
+        break;
+      case '--players':
+        overrides.playersPerGame = parseInt(argv[++i], 10);
+        break;
+      case '--games-per-matchup':
+        overrides.gamesPerMatchup = parseInt(argv[++i], 10);
+        break;
+      case '--rounds':
+        overrides.rounds = parseInt(argv[++i], 10);
+        break;
+      case '--concurrency':
+        overrides.concurrency = parseInt(argv[++i], 10);
+        break;
+      case '--max-turns':
+        overrides.maxTurns = parseInt(argv[++i], 10);
+        break;
+      case '--seed':
+        overrides.seed = parseInt(argv[++i], 10);
+        break;
+      case '--out-dir':
+        overrides.outDir = argv[++i];
+        break;
+      case '--ratings-file':
+        overrides.ratingsFile = argv[++i];
+        break;
+      case '--log-games':
+        overrides.logGames = true;
+        break;
+      case '--help':
+        printHelp();
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${argv[i]}`);
+        printHelp();
+        process.exit(1);
+    }
+  }
+
+  if (!file) {
+    console.error('A tournament config file is required (--config <path>)');
+    printHelp();
+    process.exit(1);
+  }
+
+  try {
+    return resolveTournamentConfig({ ...file, ...overrides });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+/** Apply defaults and check the tournament can actually be scheduled */
+export function resolveTournamentConfig(file: TournamentFile): TournamentConfig {
+  const format = file.format ?? 'round-robin';
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unknown tournament format: ${format} (expected one of ${FORMATS.join(', ')})`);
+  }
+
+  const playersPerGame = file.playersPerGame ?? 2;
+  if (playersPerGame < 2 || playersPerGame > 4) {
+    throw new Error('Players per game must be between 2 and 4');
+  }
+
+  const rawAgents = file.agents ?? [];
+  if (rawAgents.length < playersPerGame) {
+    throw new Error(`Need at least ${playersPerGame} agents, got ${rawAgents.length}`);
+  }
+
+  const agents = resolveSeats(rawAgents.length, {}, rawAgents);
+  const names = new Set<string>();
+  for (const agent of agents) {
+    if (!agent.name) throw new Error('Every agent past the fourth needs a name');
+    if (names.has(agent.name)) throw new Error(`Duplicate agent name: ${agent.name}`);
+    if (agent.type === 'human') throw new Error(`Tournaments run unattended; agent ${agent.name} cannot be human`);
+    names.add(agent.name);
+  }
+
+  const outDir = file.outDir ?? 'tournament-results';
+  return {
+    agents,
+    format,
+    playersPerGame,
+    // One full seat rotation by default, so nobody is stuck in a bad seat
+    gamesPerMatchup: file.gamesPerMatchup ?? playersPerGame,
+    rounds: file.rounds ?? 5,
+    concurrency: Math.max(1, file.concurrency ?? 2),
+    maxTurns: file.maxTurns ?? 500,
+    seed: file.seed ?? Math.floor(Math.random() * 2 ** 31),
+    scenarioFile: file.scenarioFile ?? null,
+    outDir,
+    ratingsFile: file.ratingsFile ?? join(outDir, 'ratings.json'),
+    logGames: file.logGames ?? false,
+  };
+}
+
+function printHelp(): void {
+  console.log(`
+Monopoly Eval — Tournament Runner
+
+Usage: bun src/tournament/index.ts --config <path> [options]
+
+Options:
+  --config <path>          Tournament JSON with the agents to compare (required)
+  --format <f>             round-robin or swiss (default: round-robin)
+  --players <n>            Players per game (2-4, default: 2)
+  --games-per-matchup <n>  Round-robin games per group of agents (default: one seat rotation)
+  --rounds <n>             Swiss rounds (default: 5)
+  --concurrency <n>        Games run at the same time (default: 2)
+  --max-turns <n>          Turn limit per game; hitting it is a timeout (default: 500)
+  --seed <n>               Base seed; each game's seed is derived from it (default: random)
+  --out-dir <path>         Where results.json / results.csv go (default: tournament-results)
+  --ratings-file <path>    Persistent ratings table (default: <out-dir>/ratings.json)
+  --log-games              Also write a full game log per game to the output directory
+  --help                   Show this help message
+
+Command-line options override the config file.
+
+Example:
+  bun src/tournament/index.ts --config tournament.json --format swiss --rounds 7 --concurrency 4
+`);
+}
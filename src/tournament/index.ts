@@ -0,0 +1,53 @@
+import { checkCredentials } from '../llm/adapter-factory';
+import { conservativeRating } from './ratings';
+import { parseTournamentArgs } from './config';
+import { TournamentRunner } from './runner';
+import { loadRatings, saveRatings, writeResults, rankRecords } from './results';
+
+async function main() {
+  const config = parseTournamentArgs(process.argv);
+
+  const credentialError = checkCredentials(config.agents);
+  if (credentialError) {
+    console.error(`Error: ${credentialError}`);
+    process.exit(1);
+  }
+
+  const ratings = loadRatings(config.ratingsFile);
+  console.log(`${config.format} tournament: ${config.agents.length} agents, ${config.playersPerGame} per game, seed ${config.seed}`);
+
+  const runner = new TournamentRunner(config, ratings, {
+    onGameComplete(result) {
+      const outcome = result.outcome === 'win'
+        ? `${result.winner} wins`
+        : result.outcome === 'timeout' ? 'turn limit' : `error: ${result.error}`;
+      console.log(`  game ${result.index + 1} [${result.seats.join(' vs ')}] — ${outcome} (${result.turns} turns)`);
+      // Save as we go so an interrupted tournament still counts the games it finished
+      saveRatings(config.ratingsFile, ratings);
+    },
+  });
+
+  const { games, standings } = await runner.run();
+  saveRatings(config.ratingsFile, ratings);
+  const written = writeResults(config, games, standings, ratings);
+
+  console.log('');
+  console.log('Standings:');
+  const ranked = rankRecords(ratings).filter(r => r.name in standings);
+  ranked.forEach((r, i) => {
+    const s = standings[r.name];
+    console.log(
+      `  ${String(i + 1).padStart(2)}. ${r.name.padEnd(20)} ` +
+      `W ${s.wins} / D ${s.draws} / L ${s.losses} (timeouts ${s.timeouts}, errors ${s.errors})  ` +
+      `Elo ${Math.round(r.elo)}  TrueSkill ${conservativeRating(r.trueskill).toFixed(1)}`,
+    );
+  });
+  console.log('');
+  console.log(`Results written to ${written.json} and ${written.csv}`);
+  console.log(`Ratings saved to ${config.ratingsFile}`);
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
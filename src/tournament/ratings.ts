@@ -0,0 +1,151 @@
+// Elo and TrueSkill for free-for-all games.
+//
+// Both systems are defined for two players, so a 2-4 player game is scored as
+// every pairwise comparison of the final placements, all computed from the
+// pre-game ratings. A lower rank is better; equal ranks are a draw.
+
+export interface EloConfig {
+  initial: number;
+  k: number;
+}
+
+export interface TrueSkillRating {
+  mu: number;
+  sigma: number;
+}
+
+export const ELO: EloConfig = { initial: 1500, k: 32 };
+
+const MU = 25;
+const SIGMA = MU / 3;
+const BETA = SIGMA / 2;
+const TAU = SIGMA / 100;
+const DRAW_PROBABILITY = 0.1;
+
+export const DEFAULT_TRUESKILL: TrueSkillRating = { mu: MU, sigma: SIGMA };
+
+/**
+ * New Elo ratings after one game. Each pairwise result is worth K/(n-1), so a
+ * four-player win moves a rating about as much as a head-to-head win.
+ */
+export function updateElo(ratings: number[], ranks: number[], k = ELO.k): number[] {
+  const n = ratings.length;
+  if (n < 2) return [...ratings];
+
+  return ratings.map((rating, i) => {
+    let delta = 0;
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      const expected = 1 / (1 + 10 ** ((ratings[j] - rating) / 400));
+      const score = ranks[i] < ranks[j] ? 1 : ranks[i] === ranks[j] ? 0.5 : 0;
+      delta += score - expected;
+    }
+    return rating + (k / (n - 1)) * delta;
+  });
+}
+
+/** New TrueSkill ratings after one game, using the two-player update for each pair */
+export function updateTrueSkill(ratings: TrueSkillRating[], ranks: number[]): TrueSkillRating[] {
+  const drawMargin = inverseCdf((DRAW_PROBABILITY + 1) / 2) * Math.SQRT2 * BETA;
+
+  return ratings.map((self, i) => {
+    const selfVariance = self.sigma ** 2 + TAU ** 2;
+    let variance = selfVariance;
+    let mu = self.mu;
+
+    for (let j = 0; j < ratings.length; j++) {
+      if (j === i) continue;
+      const other = ratings[j];
+      const c = Math.sqrt(selfVariance + other.sigma ** 2 + TAU ** 2 + 2 * BETA ** 2);
+
+      let v: number;
+      let w: number;
+      let sign: number;
+      if (ranks[i] === ranks[j]) {
+        const t = (self.mu - other.mu) / c;
+        v = vWithinMargin(t, drawMargin / c);
+        w = wWithinMargin(t, drawMargin / c);
+        sign = 1;
+      } else {
+        const won = ranks[i] < ranks[j];
+        const t = (won ? self.mu - other.mu : other.mu - self.mu) / c;
+        v = vExceedsMargin(t, drawMargin / c);
+        w = wExceedsMargin(t, drawMargin / c);
+        sign = won ? 1 : -1;
+      }
+
+      mu += sign * (selfVariance / c) * v;
+      variance *= 1 - w * (selfVariance / c ** 2);
+    }
+
+    return { mu, sigma: Math.sqrt(variance) };
+  });
+}
+
+/** The leaderboard number: 99% sure the true skill is at least this */
+export function conservativeRating(rating: TrueSkillRating): number {
+  return rating.mu - 3 * rating.sigma;
+}
+
+// ── Gaussian helpers ──
+
+const TINY = 2.222758749e-162;
+
+function pdf(x: number): number {
+  return Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+function cdf(x: number): number {
+  return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/** Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7) */
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + z / 2);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+}
+
+function inverseCdf(p: number): number {
+  // Bisection is plenty for a constant computed once per update
+  let lo = -10;
+  let hi = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+function vExceedsMargin(t: number, epsilon: number): number {
+  const denom = cdf(t - epsilon);
+  if (denom < TINY) return -t + epsilon;
+  return pdf(t - epsilon) / denom;
+}
+
+function wExceedsMargin(t: number, epsilon: number): number {
+  const denom = cdf(t - epsilon);
+  if (denom < TINY) return t < 0 ? 1 : 0;
+  const v = vExceedsMargin(t, epsilon);
+  return v * (v + t - epsilon);
+}
+
+function vWithinMargin(t: number, epsilon: number): number {
+  const tAbs = Math.abs(t);
+  const denom = cdf(epsilon - tAbs) - cdf(-epsilon - tAbs);
+  if (denom < TINY) return t < 0 ? -t - epsilon : -t + epsilon;
+  const num = pdf(-epsilon - tAbs) - pdf(epsilon - tAbs);
+  return t < 0 ? -num / denom : num / denom;
+}
+
+function wWithinMargin(t: number, epsilon: number): number {
+  const tAbs = Math.abs(t);
+  const denom = cdf(epsilon - tAbs) - cdf(-epsilon - tAbs);
+  if (denom < TINY) return 1;
+  const v = vWithinMargin(tAbs, epsilon);
+  return v * v + ((epsilon - tAbs) * pdf(epsilon - tAbs) - (-epsilon - tAbs) * pdf(-epsilon - tAbs)) / denom;
+}
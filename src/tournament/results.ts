@@ -0,0 +1,66 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { TournamentConfig } from './config';
+import { conservativeRating } from './ratings';
+import { AgentRecord, GameResult, RatingsTable } from './runner';
+
+export function loadRatings(path: string): RatingsTable {
+  if (!existsSync(path)) return {};
+  return JSON.parse(readFileSync(path, 'utf-8')).agents ?? {};
+}
+
+export function saveRatings(path: string, ratings: RatingsTable): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ updatedAt: new Date().toISOString(), agents: ratings }, null, 2));
+}
+
+/** Best first, by TrueSkill's conservative estimate */
+export function rankRecords(records: RatingsTable): AgentRecord[] {
+  return Object.values(records).sort((a, b) => conservativeRating(b.trueskill) - conservativeRating(a.trueskill));
+}
+
+const CSV_COLUMNS = [
+  'rank', 'agent', 'games', 'wins', 'losses', 'draws', 'timeouts', 'errors',
+  'elo', 'trueskill_mu', 'trueskill_sigma', 'trueskill_conservative',
+];
+
+/**
+ * Write results.json (config, every game, standings) and results.csv (one row
+ * per agent). Counts are for this tournament; ratings are the persistent ones.
+ */
+export function writeResults(
+  config: TournamentConfig,
+  games: GameResult[],
+  standings: RatingsTable,
+  ratings: RatingsTable,
+): { json: string; csv: string } {
+  mkdirSync(config.outDir, { recursive: true });
+
+  const rows = rankRecords(ratings)
+    .filter(r => r.name in standings)
+    .map(r => ({ ...standings[r.name], elo: r.elo, trueskill: r.trueskill }));
+
+  const json = join(config.outDir, 'results.json');
+  writeFileSync(json, JSON.stringify({
+    config,
+    games,
+    standings: rows.map((r, i) => ({ rank: i + 1, ...r, conservativeRating: conservativeRating(r.trueskill) })),
+  }, null, 2));
+
+  const csv = join(config.outDir, 'results.csv');
+  const lines = [CSV_COLUMNS.join(',')];
+  rows.forEach((r, i) => {
+    lines.push([
+      i + 1, csvField(r.name), r.games, r.wins, r.losses, r.draws, r.timeouts, r.errors,
+      r.elo.toFixed(1), r.trueskill.mu.toFixed(3), r.trueskill.sigma.toFixed(3),
+      conservativeRating(r.trueskill).toFixed(3),
+    ].join(','));
+  });
+  writeFileSync(csv, lines.join('\n') + '\n');
+
+  return { json, csv };
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
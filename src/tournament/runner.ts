@@ -0,0 +1,245 @@
+import { join } from 'path';
+import { GameState } from '../engine/types';
+import { DEFAULT_AUCTION_RULES, DEFAULT_RULES } from '../engine/game-engine';
+import { GameConfig } from '../config';
+import { GameLoop } from '../game-loop';
+import { createAdapter } from '../llm/adapter-factory';
+import { ObserverBus } from '../display/observer';
+import { TournamentConfig } from './config';
+import { ScheduledGame, scheduleRoundRobin, scheduleSwissRound } from './scheduler';
+import { ELO, DEFAULT_TRUESKILL, TrueSkillRating, updateElo, updateTrueSkill } from './ratings';
+
+export type GameOutcome = 'win' | 'timeout' | 'error';
+
+export interface GameResult {
+  index: number;
+  round: number;
+  seed: number;
+  seats: string[];
+  outcome: GameOutcome;
+  winner: string | null;
+  turns: number;
+  /** Final placement per seat (1 = best); survivors of a timeout share first place */
+  ranks: number[];
+  error?: string;
+}
+
+/** Results and ratings for one agent. The same shape is kept per tournament and, persisted, across tournaments. */
+export interface AgentRecord {
+  name: string;
+  elo: number;
+  trueskill: TrueSkillRating;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  timeouts: number;
+  errors: number;
+}
+
+export type RatingsTable = Record<string, AgentRecord>;
+
+export function newAgentRecord(name: string): AgentRecord {
+  return {
+    name,
+    elo: ELO.initial,
+    trueskill: { ...DEFAULT_TRUESKILL },
+    games: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    timeouts: 0,
+    errors: 0,
+  };
+}
+
+/**
+ * Turn a finished game into placements. Players still standing share first
+ * place (only one is left when somebody won); bankrupt players are ranked by
+ * how long they lasted.
+ */
+export function scoreGame(state: GameState): { outcome: GameOutcome; ranks: number[] } {
+  const bankruptOrder: string[] = [];
+  for (const event of state.gameLog) {
+    if (event.type === 'bankruptcy' && !bankruptOrder.includes(event.playerId)) {
+      bankruptOrder.push(event.playerId);
+    }
+  }
+
+  const survivors = state.players.filter(p => !p.isBankrupt).length;
+  const ranks = state.players.map(player => {
+    if (!player.isBankrupt) return 1;
+    // Bankrupt without a logged event (e.g. from a scenario file) counts as first out
+    const order = bankruptOrder.indexOf(player.id);
+    const outLast = order === -1 ? state.players.length : bankruptOrder.length - order;
+    return survivors + outLast;
+  });
+
+  return { outcome: state.winner ? 'win' : 'timeout', ranks };
+}
+
+/**
+ * Fold one game into a set of records: counts always, ratings only for games
+ * that finished (a crashed game says nothing about skill).
+ */
+export function recordGame(records: RatingsTable, result: GameResult): void {
+  const players = result.seats.map(name => (records[name] ??= newAgentRecord(name)));
+
+  for (let i = 0; i < players.length; i++) {
+    const record = players[i];
+    record.games++;
+    if (result.outcome === 'error') {
+      record.errors++;
+      continue;
+    }
+    if (result.outcome === 'timeout') record.timeouts++;
+
+    if (result.outcome === 'win' && result.ranks[i] === 1) record.wins++;
+    else if (result.outcome === 'timeout' && result.ranks[i] === 1) record.draws++;
+    else record.losses++;
+  }
+
+  if (result.outcome === 'error') return;
+
+  const elo = updateElo(players.map(p => p.elo), result.ranks);
+  const trueskill = updateTrueSkill(players.map(p => p.trueskill), result.ranks);
+  players.forEach((p, i) => {
+    p.elo = elo[i];
+    p.trueskill = trueskill[i];
+  });
+}
+
+/** Swiss score: a win is a point, surviving to the turn limit is half */
+function swissPoints(record: AgentRecord): number {
+  return record.wins + record.draws / 2;
+}
+
+export interface TournamentCallbacks {
+  onGameStart?(game: ScheduledGame): void;
+  onGameComplete?(result: GameResult): void;
+}
+
+export class TournamentRunner {
+  private config: TournamentConfig;
+  private ratings: RatingsTable;
+  private standings: RatingsTable = {};
+  private results: GameResult[] = [];
+  private callbacks: TournamentCallbacks;
+
+  constructor(config: TournamentConfig, ratings: RatingsTable, callbacks: TournamentCallbacks = {}) {
+    this.config = config;
+    this.ratings = ratings;
+    this.callbacks = callbacks;
+    for (const agent of config.agents) {
+      this.standings[agent.name] = newAgentRecord(agent.name);
+      this.ratings[agent.name] ??= newAgentRecord(agent.name);
+    }
+  }
+
+  async run(): Promise<{ games: GameResult[]; standings: RatingsTable; ratings: RatingsTable }> {
+    const names = this.config.agents.map(a => a.name);
+
+    if (this.config.format === 'round-robin') {
+      const games = scheduleRoundRobin(names, this.config.playersPerGame, this.config.gamesPerMatchup, this.config.seed);
+      await this.runGames(games);
+    } else {
+      const opponents = new Map<string, Set<string>>(names.map(n => [n, new Set<string>()]));
+      const byes = new Set<string>();
+
+      for (let round = 1; round <= this.config.rounds; round++) {
+        const scheduled = scheduleSwissRound(
+          names.map(name => ({
+            name,
+            points: swissPoints(this.standings[name]),
+            rating: this.ratings[name].elo,
+          })),
+          this.config.playersPerGame,
+          round,
+          this.results.length,
+          this.config.seed,
+          opponents,
+          byes,
+        );
+        for (const name of scheduled.byes) byes.add(name);
+        for (const game of scheduled.games) {
+          for (const a of game.seats) {
+            for (const b of game.seats) if (a !== b) opponents.get(a)!.add(b);
+          }
+        }
+        await this.runGames(scheduled.games);
+      }
+    }
+
+    return { games: this.results, standings: this.standings, ratings: this.ratings };
+  }
+
+  /** Run games with at most `concurrency` in flight */
+  private async runGames(games: ScheduledGame[]): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (next < games.length) {
+        const game = games[next++];
+        this.callbacks.onGameStart?.(game);
+        const result = await this.playGame(game);
+
+        this.results.push(result);
+        recordGame(this.standings, result);
+        recordGame(this.ratings, result);
+        this.callbacks.onGameComplete?.(result);
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.config.concurrency, games.length) }, worker);
+    await Promise.all(workers);
+    this.results.sort((a, b) => a.index - b.index);
+  }
+
+  private async playGame(game: ScheduledGame): Promise<GameResult> {
+    const seats = game.seats.map(name => this.config.agents.find(a => a.name === name)!);
+    const gameConfig: GameConfig = {
+      players: seats.length,
+      seats,
+      maxTurns: this.config.maxTurns,
+      turnDelay: 0,
+      logFile: this.config.logGames ? join(this.config.outDir, `game-${game.index}.json`) : null,
+      seed: game.seed,
+      verbose: false,
+      scenarioFile: this.config.scenarioFile,
+      headless: true,
+      sinks: [],
+      autosaveEvery: 0,
+      saveFile: '',
+      resumeFile: null,
+      auction: { ...DEFAULT_AUCTION_RULES },
+      tradeWindow: false,
+      rules: { ...DEFAULT_RULES },
+    };
+
+    try {
+      const loop = new GameLoop(
+        gameConfig,
+        (seat, index, seed) => createAdapter(seat, index, seed),
+        new ObserverBus(), // nothing attached — only the result matters
+      );
+      const state = await loop.run();
+      const { outcome, ranks } = scoreGame(state);
+      return {
+        ...game,
+        outcome,
+        // Agent names, not in-game names — a scenario file may rename players
+        winner: state.winner ? game.seats[state.players.findIndex(p => p.id === state.winner)] : null,
+        turns: state.turnNumber,
+        ranks,
+      };
+    } catch (error) {
+      return {
+        ...game,
+        outcome: 'error',
+        winner: null,
+        turns: 0,
+        ranks: game.seats.map(() => 0),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,109 @@
+export type TournamentFormat = 'round-robin' | 'swiss';
+
+/** One game to play: agent names in seat order, plus the seed for its dice */
+export interface ScheduledGame {
+  index: number;
+  round: number;
+  seats: string[];
+  seed: number;
+}
+
+/** Where an agent stands going into a Swiss round */
+export interface SwissStanding {
+  name: string;
+  points: number;
+  rating: number;
+}
+
+/** Move the first `shift` seats to the back: [A, B, C] shifted by 1 is [B, C, A] */
+export function rotateSeats<T>(seats: T[], shift: number): T[] {
+  const n = seats.length;
+  const k = ((shift % n) + n) % n;
+  return [...seats.slice(k), ...seats.slice(0, k)];
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - size; i++) {
+    for (const rest of combinations(items.slice(i + 1), size - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Every group of `playersPerGame` agents meets `gamesPerMatchup` times. Each
+ * repeat rotates the seat order; a full rotation shares one seed, so every
+ * agent gets the same dice from every seat before the seed moves on.
+ */
+export function scheduleRoundRobin(
+  agents: string[],
+  playersPerGame: number,
+  gamesPerMatchup: number,
+  baseSeed: number,
+): ScheduledGame[] {
+  const games: ScheduledGame[] = [];
+  const cyclesPerGroup = Math.ceil(gamesPerMatchup / playersPerGame);
+  let cycle = 0;
+
+  for (const group of combinations(agents, playersPerGame)) {
+    for (let g = 0; g < gamesPerMatchup; g++) {
+      games.push({
+        index: games.length,
+        round: 1,
+        seats: rotateSeats(group, g),
+        seed: baseSeed + cycle + Math.floor(g / playersPerGame),
+      });
+    }
+    cycle += cyclesPerGroup;
+  }
+  return games;
+}
+
+/**
+ * Pair one Swiss round: sort by points (then rating), and seat neighbours
+ * together. For head-to-head games a rematch is avoided when another
+ * opponent is free. Agents left over when the field doesn't divide evenly
+ * sit the round out, preferring those who haven't had a bye yet.
+ */
+export function scheduleSwissRound(
+  standings: SwissStanding[],
+  playersPerGame: number,
+  round: number,
+  firstIndex: number,
+  baseSeed: number,
+  previousOpponents: Map<string, Set<string>>,
+  byes: Set<string>,
+): { games: ScheduledGame[]; byes: string[] } {
+  const ranked = [...standings].sort((a, b) => b.points - a.points || b.rating - a.rating);
+
+  const byeCount = ranked.length % playersPerGame;
+  const sittingOut: string[] = [];
+  for (let i = ranked.length - 1; i >= 0 && sittingOut.length < byeCount; i--) {
+    if (!byes.has(ranked[i].name)) sittingOut.push(ranked[i].name);
+  }
+  for (let i = ranked.length - 1; i >= 0 && sittingOut.length < byeCount; i--) {
+    if (!sittingOut.includes(ranked[i].name)) sittingOut.push(ranked[i].name);
+  }
+
+  const pool = ranked.map(s => s.name).filter(name => !sittingOut.includes(name));
+  const tables: string[][] = [];
+  while (pool.length > 0) {
+    const table = [pool.shift()!];
+    while (table.length < playersPerGame) {
+      const fresh = pool.findIndex(name => !table.some(seated => previousOpponents.get(seated)?.has(name)));
+      table.push(pool.splice(fresh === -1 ? 0 : fresh, 1)[0]);
+    }
+    tables.push(table);
+  }
+
+  const games = tables.map((table, i) => ({
+    index: firstIndex + i,
+    round,
+    seats: rotateSeats(table, round - 1),
+    seed: baseSeed + firstIndex + i,
+  }));
+  return { games, byes: sittingOut };
+}
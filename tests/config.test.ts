@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test';
+import { parseArgs, resolveSeats, applyHouseRules } from '../src/config';
+import { DEFAULT_RULES } from '../src/engine/game-engine';
+
+function argv(...args: string[]): string[] {
+  return ['bun', 'src/index.ts', ...args];
+}
+
+describe('config', () => {
+  describe('parseArgs', () => {
+    it('defaults every seat to an llm on the anthropic provider with its own profile', () => {
+      const config = parseArgs(argv('--players', '3'));
+      expect(config.seats.map(s => s.name)).toEqual(['Alice', 'Bob', 'Charlie']);
+      expect(config.seats.map(s => s.strategy)).toEqual(['aggressive', 'railroad', 'trader']);
+      expect(config.seats.every(s => s.type === 'llm' && s.provider === 'anthropic')).toBe(true);
+      expect(config.seats[0].model).toBe('claude-sonnet-4-20250514');
+      expect(config.seats[0].temperature).toBeUndefined();
+    });
+
+    it('broadcasts a single value and splits comma lists per seat', () => {
+      const config = parseArgs(argv(
+        '--provider', 'anthropic,openai',
+        '--model', 'claude-haiku-4-5-20251001,gpt-4o',
+        '--temperature', '0.2',
+        '--name', 'Haiku,GPT',
+      ));
+      expect(config.seats).toHaveLength(2);
+      expect(config.seats[0]).toMatchObject({ name: 'Haiku', provider: 'anthropic', model: 'claude-haiku-4-5-20251001', temperature: 0.2 });
+      expect(config.seats[1]).toMatchObject({ name: 'GPT', provider: 'openai', model: 'gpt-4o', temperature: 0.2 });
+    });
+
+    it('uses the provider default model when only the provider is set', () => {
+      const config = parseArgs(argv('--provider', 'openai'));
+      expect(config.seats[1].model).toBe('gpt-4o-mini');
+    });
+
+    it('skips turn delays in a headless game', () => {
+      expect(parseArgs(argv('--turn-delay', '300')).turnDelay).toBe(300);
+      expect(parseArgs(argv('--headless', '--turn-delay', '300')).turnDelay).toBe(0);
+    });
+  });
+
+  describe('resolveSeats', () => {
+    it('lets CLI values override match config entries', () => {
+      const seats = resolveSeats(
+        2,
+        { model: ['cli-model'] },
+        [{ name: 'Left', model: 'file-model', strategy: 'conservative' }, { type: 'greedy' }],
+      );
+      expect(seats[0]).toMatchObject({ name: 'Left', model: 'cli-model', strategy: 'conservative' });
+      expect(seats[1]).toMatchObject({ name: 'Bob', type: 'greedy', model: 'cli-model', strategy: 'railroad' });
+    });
+
+    it('rejects unknown types, providers and strategy profiles', () => {
+      expect(() => resolveSeats(2, { type: ['chess-engine'] }, [])).toThrow('Unknown player type');
+      expect(() => resolveSeats(2, { provider: ['gemini'] }, [])).toThrow('Unknown provider');
+      expect(() => resolveSeats(2, { strategy: ['yolo'] }, [])).toThrow('Unknown strategy profile');
+    });
+
+    it('rejects temperatures that are not numbers from 0 to 2', () => {
+      expect(() => resolveSeats(2, { temperature: ['warm'] }, [])).toThrow('Invalid temperature: warm');
+      expect(() => resolveSeats(2, { temperature: ['0.5', '3'] }, [])).toThrow('Invalid temperature: 3');
+      expect(() => resolveSeats(2, { temperature: ['-0.1'] }, [])).toThrow('Invalid temperature');
+      expect(() => resolveSeats(1, {}, [{ temperature: Infinity }])).toThrow('Invalid temperature');
+      expect(resolveSeats(2, { temperature: ['0', '2'] }, []).map(s => s.temperature)).toEqual([0, 2]);
+    });
+  });
+
+  describe('applyHouseRules', () => {
+    it('overrides only the rules given', () => {
+      const rules = applyHouseRules(DEFAULT_RULES, { freeParkingJackpot: true, startingCash: 2000 });
+      expect(rules).toEqual({ ...DEFAULT_RULES, freeParkingJackpot: true, startingCash: 2000 });
+    });
+
+    it('rejects unknown rules and values of the wrong kind', () => {
+      expect(() => applyHouseRules(DEFAULT_RULES, { tripleGo: true } as never)).toThrow('Unknown house rule: tripleGo');
+      expect(() => applyHouseRules(DEFAULT_RULES, { salary: '200' } as never)).toThrow('salary must be a number');
+      expect(() => applyHouseRules(DEFAULT_RULES, { maxJailTurns: 0 })).toThrow('at least 1');
+    });
+  });
+});
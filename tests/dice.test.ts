@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'bun:test';
-import { rollDice, createRng } from '../src/engine/dice';
+import { rollDice, createRng, GameRng, SeededRng } from '../src/engine/dice';
 
 describe('dice', () => {
   describe('rollDice', () => {
@@ -29,6 +29,19 @@ describe('dice', () => {
         expect(roll.isDoubles).toBe(roll.dice[0] === roll.dice[1]);
       }
     });
+
+    it('rolls the speed die only when asked, after the white dice', () => {
+      let calls = 0;
+      const rng = () => (++calls === 3 ? 0.9 : 0.5);
+      expect(rollDice(rng).speedDie).toBeUndefined();
+      expect(calls).toBe(2);
+
+      calls = 0;
+      const roll = rollDice(rng, true);
+      expect(roll.dice).toEqual([4, 4]);
+      expect(roll.speedDie).toBe('bus');
+      expect(roll.sum).toBe(8);
+    });
   });
 
   describe('createRng', () => {
@@ -57,4 +70,44 @@ describe('dice', () => {
       }
     });
   });
+
+  describe('SeededRng', () => {
+    it('continues the same sequence from a saved position', () => {
+      const rng = new SeededRng(8);
+      rng.next();
+      const restored = new SeededRng(0);
+      restored.setState(rng.getState());
+      expect(Array.from({ length: 5 }, () => restored.next())).toEqual(Array.from({ length: 5 }, () => rng.next()));
+    });
+  });
+
+  describe('GameRng', () => {
+    it('keeps streams independent of each other', () => {
+      const quiet = new GameRng(5);
+      const busy = new GameRng(5);
+      for (let i = 0; i < 10; i++) busy.next('chance');
+      busy.next('tiebreak');
+
+      const rolls1 = Array.from({ length: 10 }, () => rollDice(quiet.stream('dice')).sum);
+      const rolls2 = Array.from({ length: 10 }, () => rollDice(busy.stream('dice')).sum);
+      expect(rolls2).toEqual(rolls1);
+    });
+
+    it('continues identically after setState', () => {
+      const rng = new GameRng(42);
+      rng.next('dice');
+      rng.next('community_chest');
+      const saved = JSON.parse(JSON.stringify(rng.getState()));
+
+      const expected = [rng.next('dice'), rng.next('community_chest'), rng.next('chance')];
+      const restored = GameRng.fromState(saved);
+      expect([restored.next('dice'), restored.next('community_chest'), restored.next('chance')]).toEqual(expected);
+    });
+
+    it('gives each stream its own sequence', () => {
+      const rng = new GameRng(1);
+      const state = rng.getState();
+      expect(new Set(Object.values(state.streams)).size).toBe(4);
+    });
+  });
 });
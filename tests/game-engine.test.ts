@@ -1,12 +1,13 @@
 import { describe, it, expect } from 'bun:test';
-import { GameEngine } from '../src/engine/game-engine';
-import { GameState, TurnPhase } from '../src/engine/types';
+import { GameEngine, DEFAULT_AUCTION_RULES, DEFAULT_RULES, MAX_COUNTER_OFFERS, MAX_IMMUNITY_COUNT, MAX_MESSAGES_PER_TURN } from '../src/engine/game-engine';
+import { GameRng } from '../src/engine/dice';
+import { GameState, GameEvent, TurnPhase, AuctionMode, TradeOffer, RuleSet } from '../src/engine/types';
 import { COLOR_GROUP_MEMBERS } from '../src/engine/board-data';
 import { cloneState } from '../src/engine/bank';
 import {
   createTestState, createTestEngine, testRng,
   giveProperty, setPosition, setBalance, putInJail,
-  getPlayer, giveColorGroup,
+  getPlayer, giveColorGroup, giveJailCard, setDebt,
 } from './helpers';
 
 // ── Helpers ──
@@ -220,6 +221,20 @@ describe('GameEngine', () => {
       expect(winner.balance).toBe(1350); // 1500 - 150
     });
 
+    it('resolveAuction breaks tied bids on the tiebreak stream', () => {
+      const state = createTestState();
+      setPhase(state, 'auction');
+      const bids = new Map([['player_0', 120], ['player_1', 120]]);
+
+      const winnerFor = (seed: number) => {
+        const result = new GameEngine(new GameRng(seed)).resolveAuction(state, bids, 1);
+        return result.newState.players.find(p => p.properties.has(1))!.id;
+      };
+      expect(winnerFor(3)).toBe(winnerFor(3));
+      const winners = new Set([1, 2, 3, 4, 5, 6, 7, 8].map(winnerFor));
+      expect(winners.size).toBe(2);
+    });
+
     it('resolveAuction with no bids leaves property unowned', () => {
       const engine = createTestEngine();
       const state = createTestState();
@@ -240,6 +255,181 @@ describe('GameEngine', () => {
       const noBidsEvent = result.events.find(e => e.type === 'auction_no_bids');
       expect(noBidsEvent).toBeDefined();
     });
+
+    describe('ascending', () => {
+      // Player 0 declines Boardwalk, so the auction opens with them
+      function startAuction(engine: GameEngine, playerCount = 3): GameState {
+        const state = createTestState(playerCount);
+        setPosition(state, 'player_0', 39);
+        setPhase(state, 'purchase_decision');
+        return engine.applyAction(state, { action: 'auction_property' }).newState;
+      }
+
+      function bid(engine: GameEngine, state: GameState, amount: number) {
+        const result = engine.applyAction(state, { action: 'submit_bid', amount });
+        expect(result.error).toBeUndefined();
+        return result;
+      }
+
+      it('goes round until only the high bidder is left', () => {
+        const engine = createTestEngine();
+        let state = startAuction(engine);
+        expect(engine.getAuctionBidder(state)).toBe('player_0');
+
+        state = bid(engine, state, 100).newState;
+        expect(engine.getAuctionBidder(state)).toBe('player_1');
+        expect(engine.getMinimumBid(state)).toBe(110);
+        state = bid(engine, state, 150).newState;
+        state = bid(engine, state, 0).newState; // player_2 drops out
+        state = bid(engine, state, 200).newState; // player_0 comes back round
+        expect(engine.getAuctionBidder(state)).toBe('player_1');
+
+        const result = bid(engine, state, 0);
+        expect(result.newState.turnPhase).toBe('post_action');
+        expect(result.newState.auction).toBeNull();
+        expect(getPlayer(result.newState, 'player_0').properties.has(39)).toBe(true);
+        expect(getPlayer(result.newState, 'player_0').balance).toBe(1300);
+        expect(result.events).toEqual([
+          { type: 'auction_bid', playerId: 'player_1', amount: 0 },
+          { type: 'auction_won', playerId: 'player_0', property: 'Boardwalk', price: 200 },
+        ]);
+
+        const bids = result.newState.gameLog.filter(e => e.type === 'auction_bid');
+        expect(bids.map(e => e.type === 'auction_bid' && e.amount)).toEqual([100, 150, 0, 200, 0]);
+      });
+
+      it('rejects raises below the minimum increment', () => {
+        const engine = new GameEngine(testRng(), { mode: 'ascending', minIncrement: 25, bankruptcySales: 'auction' });
+        let state = startAuction(engine, 2);
+        state = bid(engine, state, 100).newState;
+
+        const low = engine.applyAction(state, { action: 'submit_bid', amount: 110 });
+        expect(low.success).toBe(false);
+        expect(low.error).toContain('$125');
+        expect(engine.getAvailableActions(state)[0].description).toContain('The high bid is $100 by Player0');
+      });
+
+      it('drops bidders who cannot cover the next minimum', () => {
+        const engine = createTestEngine();
+        let state = startAuction(engine);
+        setBalance(state, 'player_1', 50);
+
+        const result = bid(engine, state, 60);
+        expect(result.events).toContainEqual({ type: 'auction_bid', playerId: 'player_1', amount: 0 });
+        expect(engine.getAuctionBidder(result.newState)).toBe('player_2');
+      });
+
+      it('ends without a sale when everyone drops out', () => {
+        const engine = createTestEngine();
+        let state = startAuction(engine, 2);
+        state = bid(engine, state, 0).newState;
+
+        const result = bid(engine, state, 0);
+        expect(result.events.at(-1)).toEqual({ type: 'auction_no_bids', property: 'Boardwalk' });
+        expect(result.newState.players.every(p => !p.properties.has(39))).toBe(true);
+      });
+    });
+
+    it('sealed mode takes one hidden bid each, then reveals them', () => {
+      const engine = new GameEngine(testRng(), { mode: 'sealed', minIncrement: 10, bankruptcySales: 'auction' });
+      let state = createTestState(2);
+      setPosition(state, 'player_0', 39);
+      setPhase(state, 'purchase_decision');
+      state = engine.applyAction(state, { action: 'auction_property' }).newState;
+
+      const first = engine.applyAction(state, { action: 'submit_bid', amount: 250 });
+      expect(first.events).toEqual([]);
+      expect(engine.getAuctionBidder(first.newState)).toBe('player_1');
+
+      const second = engine.applyAction(first.newState, { action: 'submit_bid', amount: 300 });
+      expect(second.events.filter(e => e.type === 'auction_bid')).toHaveLength(2);
+      expect(getPlayer(second.newState, 'player_1').properties.has(39)).toBe(true);
+      expect(getPlayer(second.newState, 'player_1').balance).toBe(1200);
+    });
+
+    describe('clearing prices', () => {
+      function auctionWith(mode: AuctionMode, playerCount = 3): { engine: GameEngine; state: GameState } {
+        const engine = new GameEngine(testRng(), { mode, minIncrement: 10, bankruptcySales: 'auction' });
+        const state = createTestState(playerCount);
+        setPosition(state, 'player_0', 39); // Boardwalk, list $400
+        setPhase(state, 'purchase_decision');
+        return { engine, state: engine.applyAction(state, { action: 'auction_property' }).newState };
+      }
+
+      function bidAll(engine: GameEngine, state: GameState, amounts: number[]) {
+        let result = { newState: state, events: [] as GameEvent[] };
+        for (const amount of amounts) {
+          result = engine.applyAction(result.newState, { action: 'submit_bid', amount });
+        }
+        return result;
+      }
+
+      function sale(events: GameEvent[]) {
+        return events.find(e => e.type === 'auction_won' || e.type === 'auction_no_bids');
+      }
+
+      it('first-price sealed: the winner pays their own bid', () => {
+        const { engine, state } = auctionWith('sealed');
+        const result = bidAll(engine, state, [200, 300, 250]);
+        expect(sale(result.events)).toEqual({ type: 'auction_won', playerId: 'player_1', property: 'Boardwalk', price: 300 });
+      });
+
+      it('Vickrey: the winner pays the second-highest bid', () => {
+        const { engine, state } = auctionWith('vickrey');
+        const result = bidAll(engine, state, [200, 300, 250]);
+        expect(sale(result.events)).toEqual({ type: 'auction_won', playerId: 'player_1', property: 'Boardwalk', price: 250 });
+        expect(getPlayer(result.newState, 'player_1').balance).toBe(1250);
+      });
+
+      it('Vickrey: tied top bids clear at the tied amount', () => {
+        const { engine, state } = auctionWith('vickrey');
+        const result = bidAll(engine, state, [300, 300, 100]);
+        const won = sale(result.events);
+        expect(won?.type === 'auction_won' && won.price).toBe(300);
+      });
+
+      it('Vickrey: an unopposed bid pays the minimum increment', () => {
+        const { engine, state } = auctionWith('vickrey');
+        const result = bidAll(engine, state, [0, 180, 0]);
+        expect(sale(result.events)).toEqual({ type: 'auction_won', playerId: 'player_1', property: 'Boardwalk', price: 10 });
+      });
+
+      it('Dutch: the price falls a step each time everyone passes, and the first taker pays it', () => {
+        const { engine, state } = auctionWith('dutch');
+        expect(engine.getMinimumBid(state)).toBe(400);
+
+        const afterRound = bidAll(engine, state, [0, 0, 0]);
+        expect(afterRound.events.at(-1)).toEqual({ type: 'auction_price', property: 'Boardwalk', price: 360 });
+        expect(engine.getMinimumBid(afterRound.newState)).toBe(360);
+        expect(engine.getAuctionBidder(afterRound.newState)).toBe('player_0');
+
+        const tooLow = engine.applyAction(afterRound.newState, { action: 'submit_bid', amount: 300 });
+        expect(tooLow.success).toBe(false);
+
+        const result = bidAll(engine, afterRound.newState, [0, 360]);
+        expect(sale(result.events)).toEqual({ type: 'auction_won', playerId: 'player_1', property: 'Boardwalk', price: 360 });
+        expect(getPlayer(result.newState, 'player_1').balance).toBe(1140);
+      });
+
+      it('Dutch: players who cannot afford the asking price pass automatically', () => {
+        const { engine, state } = auctionWith('dutch', 2);
+        setBalance(state, 'player_1', 100);
+        const result = engine.applyAction(state, { action: 'submit_bid', amount: 0 });
+        expect(result.events).toEqual([
+          { type: 'auction_bid', playerId: 'player_0', amount: 0 },
+          { type: 'auction_bid', playerId: 'player_1', amount: 0 },
+          { type: 'auction_price', property: 'Boardwalk', price: 360 },
+        ]);
+      });
+
+      it('Dutch: no sale once the price would drop below one step', () => {
+        const { engine, state } = auctionWith('dutch', 2);
+        const result = bidAll(engine, state, Array(20).fill(0));
+        expect(sale(result.newState.gameLog)).toEqual({ type: 'auction_no_bids', property: 'Boardwalk' });
+        expect(result.newState.gameLog.filter(e => e.type === 'auction_price').at(-1)).toMatchObject({ price: 40 });
+        expect(result.newState.turnPhase).toBe('post_action');
+      });
+    });
   });
 
   // ────────────────────────────
@@ -405,6 +595,83 @@ describe('GameEngine', () => {
     });
   });
 
+  describe('housing shortage', () => {
+    function shortageState(bankHouses: number): GameState {
+      const state = createTestState(3);
+      giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+      giveColorGroup(state, 'player_1', COLOR_GROUP_MEMBERS.dark_blue);
+      state.bankHouses = bankHouses;
+      setPhase(state, 'post_action');
+      return state;
+    }
+
+    it('auctions a house when more players could build than the bank has houses', () => {
+      const engine = createTestEngine();
+      const asked = engine.applyAction(shortageState(1), { action: 'build_house', propertyPosition: 1 });
+      expect(asked.events).toEqual([
+        { type: 'building_auction_start', building: 'house', playerId: 'player_0', bankSupply: 1 },
+        { type: 'building_bid', playerId: 'player_0', amount: 50 },
+      ]);
+      expect(asked.newState.turnPhase).toBe('building_auction');
+      expect(engine.getBuildingBidder(asked.newState)).toBe('player_1');
+      expect(getPlayer(asked.newState, 'player_0').properties.get(1)!.houses).toBe(0);
+
+      const cheap = engine.applyAction(asked.newState, { action: 'bid_building', amount: 60, propertyPosition: 37 });
+      expect(cheap.error).toContain('costs at least $200');
+
+      const raised = engine.applyAction(asked.newState, { action: 'bid_building', amount: 200, propertyPosition: 37 });
+      expect(engine.getBuildingBidder(raised.newState)).toBe('player_0');
+
+      const result = engine.applyAction(raised.newState, { action: 'bid_building', amount: 0 });
+      expect(result.events.at(-1)).toEqual({
+        type: 'building_auction_won', playerId: 'player_1', building: 'house', property: 'Park Place', position: 37, price: 200,
+      });
+      expect(getPlayer(result.newState, 'player_1').properties.get(37)!.houses).toBe(1);
+      expect(getPlayer(result.newState, 'player_1').balance).toBe(1300);
+      expect(result.newState.bankHouses).toBe(0);
+      expect(result.newState.turnPhase).toBe('post_action');
+    });
+
+    it('gives the builder their roll back after an auction asked for before rolling', () => {
+      const engine = createTestEngine();
+      const state = shortageState(1);
+      setPhase(state, 'pre_roll');
+
+      const asked = engine.applyAction(state, { action: 'build_house', propertyPosition: 1 });
+      expect(asked.newState.turnPhase).toBe('building_auction');
+
+      const result = engine.applyAction(asked.newState, { action: 'bid_building', amount: 0 });
+      expect(result.events.at(-1)).toMatchObject({ type: 'building_auction_won', playerId: 'player_0', position: 1 });
+      expect(result.newState.turnPhase).toBe('pre_roll');
+      expect(engine.getAvailableActions(result.newState).map(a => a.action)).toContain('roll_dice');
+    });
+
+    it('builds as asked while the bank has enough to go round', () => {
+      const engine = createTestEngine();
+      const result = engine.applyAction(shortageState(2), { action: 'build_house', propertyPosition: 1 });
+      expect(result.events.map(e => e.type)).toEqual(['build_house']);
+      expect(result.newState.turnPhase).toBe('post_action');
+    });
+
+    it("won't break a hotel down without 4 houses in the bank to replace it", () => {
+      const engine = createTestEngine();
+      const state = createTestState();
+      giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+      getPlayer(state, 'player_0').properties.get(1)!.houses = 5;
+      getPlayer(state, 'player_0').properties.get(3)!.houses = 4;
+      state.bankHouses = 3;
+      setPhase(state, 'post_action');
+
+      const result = engine.applyAction(state, { action: 'sell_house', propertyPosition: 1 });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not the 4 needed');
+
+      setPhase(state, 'paying_debt');
+      // The hotel is the only building even selling allows, and it can't go
+      expect(engine.getAvailableActions(state).map(a => a.action)).not.toContain('sell_house');
+    });
+  });
+
   // ────────────────────────────
   //  MORTGAGE / UNMORTGAGE
   // ────────────────────────────
@@ -504,6 +771,28 @@ describe('GameEngine', () => {
       expect(result.newState.turnPhase).toBe('trading');
     });
 
+    it('trade_offer rejects negative money', () => {
+      const engine = createTestEngine();
+      const state = createTestState();
+      giveProperty(state, 'player_0', 1);
+      setPhase(state, 'post_action');
+
+      const result = engine.applyAction(state, {
+        action: 'trade_offer',
+        offer: {
+          fromPlayerId: 'player_0',
+          toPlayerId: 'player_1',
+          offeredProperties: [1],
+          offeredMoney: -500,
+          requestedProperties: [],
+          requestedMoney: 0,
+        },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Trade amounts cannot be negative');
+      expect(getPlayer(result.newState, 'player_1').balance).toBe(1500);
+    });
+
     it('accept_trade transfers properties and money', () => {
       const engine = createTestEngine();
       const state = createTestState();
@@ -555,6 +844,564 @@ describe('GameEngine', () => {
       expect(result.newState.turnPhase).toBe('post_action');
     });
 
+    describe('jail cards and rent immunity', () => {
+      function tradeForBoardwalk(state: GameState, extras: Partial<TradeOffer>): TradeOffer {
+        giveProperty(state, 'player_0', 1);
+        giveProperty(state, 'player_1', 39);
+        return {
+          fromPlayerId: 'player_0', toPlayerId: 'player_1',
+          offeredProperties: [1], offeredMoney: 0, requestedProperties: [39], requestedMoney: 0,
+          ...extras,
+        };
+      }
+
+      it('hands over Get Out of Jail Free cards and records the waiver', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        giveJailCard(state, 'player_1');
+        state.activeTrade = tradeForBoardwalk(state, {
+          requestedJailCards: 1,
+          immunities: [{ position: 1, beneficiaryId: 'player_0', limit: 'landings', count: 2 }],
+        });
+        setPhase(state, 'trading');
+
+        const result = engine.applyAction(state, { action: 'accept_trade' });
+        expect(getPlayer(result.newState, 'player_0').jailCards).toEqual([{ deck: 'chance', cardId: 8 }]);
+        expect(getPlayer(result.newState, 'player_1').jailCards).toEqual([]);
+        expect(result.newState.rentImmunities).toEqual([
+          { position: 1, grantorId: 'player_1', beneficiaryId: 'player_0', limit: 'landings', remaining: 2 },
+        ]);
+        expect(result.events[0]).toMatchObject({
+          description: 'Offered properties at [Mediterranean Avenue] for properties at [Boardwalk] and 1 Get Out of Jail Free card; Player0 pays no rent on Mediterranean Avenue for 2 landings',
+        });
+      });
+
+      it('lets a player with no properties sell a card for cash', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        giveJailCard(state, 'player_0', 'community_chest');
+        setPhase(state, 'post_action');
+        expect(engine.getAvailableActions(state).some(a => a.action === 'trade_offer')).toBe(true);
+
+        let result = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: {
+            fromPlayerId: 'player_0', toPlayerId: 'player_1',
+            offeredProperties: [], offeredMoney: 0, requestedProperties: [], requestedMoney: 40, offeredJailCards: 1,
+          },
+        });
+        result = engine.applyAction(result.newState, { action: 'accept_trade' });
+        expect(getPlayer(result.newState, 'player_1').jailCards).toEqual([{ deck: 'community_chest', cardId: 4 }]);
+        expect(getPlayer(result.newState, 'player_0').balance).toBe(1540);
+      });
+
+      it('rejects cards the player does not hold', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        setPhase(state, 'post_action');
+
+        const result = engine.applyAction(state, { action: 'trade_offer', offer: tradeForBoardwalk(state, { offeredJailCards: 1 }) });
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('Get Out of Jail Free');
+      });
+
+      it('only lets the side that will own the property waive its rent', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        setPhase(state, 'post_action');
+
+        // Boardwalk is moving to player_0, so player_1 can't promise rent-free landings on it
+        const result = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: tradeForBoardwalk(state, { immunities: [{ position: 39, beneficiaryId: 'player_0', limit: 'turns', count: 3 }] }),
+        });
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("Player1 won't own Boardwalk");
+
+        const tooLong = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: tradeForBoardwalk(state, { immunities: [{ position: 39, beneficiaryId: 'player_1', limit: 'turns', count: MAX_IMMUNITY_COUNT + 1 }] }),
+        });
+        expect(tooLong.success).toBe(false);
+      });
+
+      it('waives rent on landing until the landings run out', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        giveProperty(state, 'player_1', 39);
+        state.rentImmunities = [{ position: 39, grantorId: 'player_1', beneficiaryId: 'player_0', limit: 'landings', remaining: 1 }];
+        setPosition(state, 'player_0', 39);
+        state.lastDiceRoll = [3, 4];
+        setPhase(state, 'post_roll_land');
+
+        const waived = engine.autoResolveLanding(state);
+        expect(waived.events).toContainEqual(expect.objectContaining({ type: 'rent_waived', remaining: 0 }));
+        expect(getPlayer(waived.newState, 'player_0').balance).toBe(1500);
+        expect(waived.newState.rentImmunities).toEqual([]);
+
+        waived.newState.turnPhase = 'post_roll_land';
+        const charged = engine.autoResolveLanding(waived.newState);
+        expect(getPlayer(charged.newState, 'player_0').balance).toBe(1450);
+      });
+
+      it('stops applying once the grantor no longer owns the property', () => {
+        const engine = createTestEngine();
+        const state = createTestState(3);
+        giveProperty(state, 'player_2', 39);
+        state.rentImmunities = [{ position: 39, grantorId: 'player_1', beneficiaryId: 'player_0', limit: 'landings', remaining: 3 }];
+        setPosition(state, 'player_0', 39);
+        state.lastDiceRoll = [3, 4];
+        setPhase(state, 'post_roll_land');
+
+        const result = engine.autoResolveLanding(state);
+        expect(getPlayer(result.newState, 'player_0').balance).toBe(1450);
+      });
+
+      it("counts turn-limited waivers down as the beneficiary's turns end", () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        state.rentImmunities = [
+          { position: 39, grantorId: 'player_1', beneficiaryId: 'player_0', limit: 'turns', remaining: 2 },
+          { position: 1, grantorId: 'player_0', beneficiaryId: 'player_1', limit: 'turns', remaining: 1 },
+        ];
+        setPhase(state, 'post_action');
+
+        const result = engine.applyAction(state, { action: 'end_turn' });
+        expect(result.newState.rentImmunities.map(i => i.remaining)).toEqual([1, 1]);
+      });
+    });
+
+    describe('multi-party trades', () => {
+      // Player0's Mediterranean goes to Player1, Player1's Baltic to Player2, Player2's Boardwalk to Player0, who also pays Player2 $100
+      function threeWayOffer(state: GameState): TradeOffer {
+        giveProperty(state, 'player_0', 1);
+        giveProperty(state, 'player_1', 3);
+        giveProperty(state, 'player_2', 39);
+        return {
+          fromPlayerId: 'player_0', toPlayerId: 'player_1',
+          offeredProperties: [], offeredMoney: 0, requestedProperties: [], requestedMoney: 0,
+          participants: [
+            { playerId: 'player_0', givesProperties: [1], givesMoney: 100, receivesProperties: [39], receivesMoney: 0 },
+            { playerId: 'player_1', givesProperties: [3], givesMoney: 0, receivesProperties: [1], receivesMoney: 0 },
+            { playerId: 'player_2', givesProperties: [39], givesMoney: 0, receivesProperties: [3], receivesMoney: 100 },
+          ],
+        };
+      }
+
+      it('asks each participant in turn and executes once all have accepted', () => {
+        const engine = createTestEngine();
+        let state = createTestState(3);
+        setPhase(state, 'post_action');
+        state = engine.applyAction(state, { action: 'trade_offer', offer: threeWayOffer(state) }).newState;
+        expect(state.activeTrade!.toPlayerId).toBe('player_1');
+
+        const first = engine.applyAction(state, { action: 'accept_trade' });
+        expect(first.events).toEqual([{ type: 'trade_agreed', player: 'Player1', waitingOn: 'Player2' }]);
+        expect(first.newState.turnPhase).toBe('trading');
+        expect(first.newState.activeTrade!.toPlayerId).toBe('player_2');
+        expect(getPlayer(first.newState, 'player_0').properties.has(1)).toBe(true);
+
+        const done = engine.applyAction(first.newState, { action: 'accept_trade' });
+        expect(done.events[0]).toMatchObject({ type: 'trade_completed', fromPlayer: 'Player0', toPlayer: 'Player1 & Player2' });
+        expect(done.newState.activeTrade).toBeNull();
+        expect(done.newState.turnPhase).toBe('post_action');
+
+        const [p0, p1, p2] = ['player_0', 'player_1', 'player_2'].map(id => getPlayer(done.newState, id));
+        expect([...p0.properties.keys()]).toEqual([39]);
+        expect([...p1.properties.keys()]).toEqual([1]);
+        expect([...p2.properties.keys()]).toEqual([3]);
+        expect(p0.balance).toBe(1400);
+        expect(p2.balance).toBe(1600);
+      });
+
+      it('is called off by any participant rejecting', () => {
+        const engine = createTestEngine();
+        let state = createTestState(3);
+        setPhase(state, 'post_action');
+        state = engine.applyAction(state, { action: 'trade_offer', offer: threeWayOffer(state) }).newState;
+        state = engine.applyAction(state, { action: 'accept_trade' }).newState;
+
+        const result = engine.applyAction(state, { action: 'reject_trade' });
+        expect(result.events[0]).toMatchObject({ type: 'trade_rejected', toPlayer: 'Player2' });
+        expect(getPlayer(result.newState, 'player_1').properties.has(3)).toBe(true);
+      });
+
+      it('falls through without moving anything if an asset is gone by the last acceptance', () => {
+        const engine = createTestEngine();
+        let state = createTestState(3);
+        setPhase(state, 'post_action');
+        state = engine.applyAction(state, { action: 'trade_offer', offer: threeWayOffer(state) }).newState;
+        state = engine.applyAction(state, { action: 'accept_trade' }).newState;
+        setBalance(state, 'player_0', 50);
+
+        const result = engine.applyAction(state, { action: 'accept_trade' });
+        expect(result.success).toBe(true);
+        expect(result.events).toEqual([{ type: 'trade_failed', fromPlayer: 'Player0', reason: 'Player0 has insufficient funds' }]);
+        expect(getPlayer(result.newState, 'player_0').properties.has(1)).toBe(true);
+        expect(getPlayer(result.newState, 'player_2').properties.has(39)).toBe(true);
+        expect(result.newState.activeTrade).toBeNull();
+      });
+
+      it('requires what is given to match what is received', () => {
+        const engine = createTestEngine();
+        const state = createTestState(3);
+        setPhase(state, 'post_action');
+        const offer = threeWayOffer(state);
+        offer.participants![2].receivesMoney = 150;
+        expect(engine.applyAction(state, { action: 'trade_offer', offer }).error).toBe('Money given ($100) must equal money received ($150)');
+
+        offer.participants![2].receivesMoney = 100;
+        offer.participants![1].receivesProperties = [];
+        expect(engine.applyAction(state, { action: 'trade_offer', offer }).error).toContain('received by exactly one');
+      });
+
+      it('cannot be countered', () => {
+        const engine = createTestEngine();
+        let state = createTestState(3);
+        setPhase(state, 'post_action');
+        state = engine.applyAction(state, { action: 'trade_offer', offer: threeWayOffer(state) }).newState;
+
+        expect(engine.getAvailableActions(state).map(a => a.action)).toEqual(['accept_trade', 'reject_trade']);
+      });
+    });
+
+    describe('trade window', () => {
+      function endTurnWithWindow(playerCount: number): { engine: GameEngine; state: GameState } {
+        const engine = new GameEngine(testRng(), DEFAULT_AUCTION_RULES, true);
+        const state = createTestState(playerCount);
+        giveProperty(state, 'player_1', 1);
+        if (playerCount > 2) giveProperty(state, 'player_2', 3);
+        setPhase(state, 'post_action');
+        return { engine, state: engine.applyAction(state, { action: 'end_turn' }).newState };
+      }
+
+      it('asks every solvent player in seat order, starting after the one who moved', () => {
+        const { engine, state } = endTurnWithWindow(3);
+        expect(state.turnPhase).toBe('trade_window');
+        expect(state.tradeWindow!.proposers).toEqual(['player_1', 'player_2', 'player_0']);
+        expect(engine.getTradeWindowProposer(state)).toBe('player_1');
+        expect(engine.getAvailableActions(state).map(a => a.action)).toEqual(['skip_trade', 'trade_offer']);
+      });
+
+      it('lets the proposer trade with anyone, then moves on to the next proposer', () => {
+        const { engine, state } = endTurnWithWindow(3);
+        const offered = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: {
+            fromPlayerId: 'player_1', toPlayerId: 'player_2',
+            offeredProperties: [1], offeredMoney: 0, requestedProperties: [3], requestedMoney: 0,
+          },
+        });
+        expect(offered.success).toBe(true);
+        expect(offered.newState.turnPhase).toBe('trading');
+
+        const rejected = engine.applyAction(offered.newState, { action: 'reject_trade' });
+        expect(rejected.newState.turnPhase).toBe('trade_window');
+        expect(engine.getTradeWindowProposer(rejected.newState)).toBe('player_2');
+      });
+
+      it('only takes offers from the player it is waiting on', () => {
+        const { engine, state } = endTurnWithWindow(3);
+        const result = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: {
+            fromPlayerId: 'player_2', toPlayerId: 'player_1',
+            offeredProperties: [3], offeredMoney: 0, requestedProperties: [1], requestedMoney: 0,
+          },
+        });
+        expect(result.success).toBe(false);
+      });
+
+      it('completes the turn once everyone has passed', () => {
+        const { engine, state: opened } = endTurnWithWindow(2);
+        let state = engine.applyAction(opened, { action: 'skip_trade' }).newState;
+        expect(state.turnPhase).toBe('trade_window');
+        state = engine.applyAction(state, { action: 'skip_trade' }).newState;
+        expect(state.turnPhase).toBe('turn_complete');
+        expect(state.tradeWindow).toBeNull();
+      });
+
+      it('stays shut unless enabled', () => {
+        const engine = createTestEngine();
+        const state = createTestState(3);
+        setPhase(state, 'post_action');
+        expect(engine.applyAction(state, { action: 'end_turn' }).newState.turnPhase).toBe('turn_complete');
+      });
+    });
+
+    describe('received mortgages', () => {
+      // Player0 hands over a mortgaged Boardwalk (mortgage value $200) for $50
+      function acceptMortgagedBoardwalk(state: GameState) {
+        giveProperty(state, 'player_0', 39, 0, true);
+        state.activeTrade = {
+          fromPlayerId: 'player_0', toPlayerId: 'player_1',
+          offeredProperties: [39], offeredMoney: 0, requestedProperties: [], requestedMoney: 50,
+        };
+        setPhase(state, 'trading');
+        return createTestEngine().applyAction(state, { action: 'accept_trade' });
+      }
+
+      it('asks the new owner to settle before play resumes', () => {
+        const engine = createTestEngine();
+        const { newState } = acceptMortgagedBoardwalk(createTestState());
+        expect(newState.turnPhase).toBe('mortgage_decision');
+        expect(engine.getMortgageDecider(newState)).toBe('player_1');
+        expect(engine.getAvailableActions(newState).map(a => a.action)).toEqual(['lift_mortgage', 'keep_mortgage']);
+        expect(getPlayer(newState, 'player_1').properties.get(39)!.mortgaged).toBe(true);
+      });
+
+      it('charges 10% interest to keep the mortgage, and the full unmortgage price later', () => {
+        const engine = createTestEngine();
+        const kept = engine.applyAction(acceptMortgagedBoardwalk(createTestState()).newState, { action: 'keep_mortgage' });
+        expect(kept.success).toBe(true);
+        expect(kept.events).toEqual([{ type: 'mortgage_interest', playerId: 'player_1', property: 'Boardwalk', position: 39, amount: 20 }]);
+        expect(kept.newState.turnPhase).toBe('post_action');
+        expect(kept.newState.mortgageTransfers).toBeNull();
+
+        const p1 = getPlayer(kept.newState, 'player_1');
+        expect(p1.balance).toBe(1430); // 1500 - 50 - 20
+        expect(p1.properties.get(39)!.mortgaged).toBe(true);
+      });
+
+      it('charges mortgage value plus 10% to lift the mortgage at once', () => {
+        const engine = createTestEngine();
+        const lifted = engine.applyAction(acceptMortgagedBoardwalk(createTestState()).newState, { action: 'lift_mortgage' });
+        expect(lifted.events).toEqual([{ type: 'unmortgage', playerId: 'player_1', property: 'Boardwalk', position: 39, cost: 220 }]);
+
+        const p1 = getPlayer(lifted.newState, 'player_1');
+        expect(p1.balance).toBe(1230); // 1500 - 50 - 220
+        expect(p1.properties.get(39)!.mortgaged).toBe(false);
+      });
+
+      it('only offers lifting when the new owner can pay for it', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        setBalance(state, 'player_1', 150);
+        const { newState } = acceptMortgagedBoardwalk(state);
+        expect(engine.getAvailableActions(newState).map(a => a.action)).toEqual(['keep_mortgage']);
+        expect(engine.applyAction(newState, { action: 'lift_mortgage' }).success).toBe(false);
+      });
+
+      it('refuses trades the receiver could not pay the interest on', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        giveProperty(state, 'player_0', 39, 0, true);
+        setBalance(state, 'player_1', 10);
+        setPhase(state, 'post_action');
+
+        const result = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: {
+            fromPlayerId: 'player_0', toPlayerId: 'player_1',
+            offeredProperties: [39], offeredMoney: 0, requestedProperties: [], requestedMoney: 0,
+          },
+        });
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('$20 interest');
+      });
+
+      it('asks each receiver in a multi-party trade in turn', () => {
+        const engine = createTestEngine();
+        const state = createTestState(3);
+        giveProperty(state, 'player_0', 1, 0, true);
+        giveProperty(state, 'player_1', 3, 0, true);
+        giveProperty(state, 'player_2', 39);
+        state.activeTrade = {
+          fromPlayerId: 'player_0', toPlayerId: 'player_2',
+          offeredProperties: [], offeredMoney: 0, requestedProperties: [], requestedMoney: 0,
+          participants: [
+            { playerId: 'player_0', givesProperties: [1], givesMoney: 0, receivesProperties: [39], receivesMoney: 0 },
+            { playerId: 'player_1', givesProperties: [3], givesMoney: 0, receivesProperties: [1], receivesMoney: 0 },
+            { playerId: 'player_2', givesProperties: [39], givesMoney: 0, receivesProperties: [3], receivesMoney: 0 },
+          ],
+        };
+        state.negotiation = { thread: [state.activeTrade], acceptedBy: ['player_1'] };
+        setPhase(state, 'trading');
+
+        let result = engine.applyAction(state, { action: 'accept_trade' });
+        expect(result.newState.mortgageTransfers!.pending).toEqual([
+          { playerId: 'player_1', position: 1 },
+          { playerId: 'player_2', position: 3 },
+        ]);
+        result = engine.applyAction(result.newState, { action: 'keep_mortgage' });
+        expect(engine.getMortgageDecider(result.newState)).toBe('player_2');
+        result = engine.applyAction(result.newState, { action: 'lift_mortgage' });
+        expect(result.newState.turnPhase).toBe('post_action');
+        expect(getPlayer(result.newState, 'player_1').balance).toBe(1497); // 10% of $30
+        expect(getPlayer(result.newState, 'player_2').balance).toBe(1467); // $30 + 10%
+      });
+
+      it('returns to the trade window once settled', () => {
+        const engine = new GameEngine(testRng(), DEFAULT_AUCTION_RULES, true);
+        let state = createTestState(3);
+        giveProperty(state, 'player_1', 39, 0, true);
+        setPhase(state, 'post_action');
+        state = engine.applyAction(state, { action: 'end_turn' }).newState;
+        state = engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: {
+            fromPlayerId: 'player_1', toPlayerId: 'player_2',
+            offeredProperties: [39], offeredMoney: 0, requestedProperties: [], requestedMoney: 100,
+          },
+        }).newState;
+        state = engine.applyAction(state, { action: 'accept_trade' }).newState;
+        expect(engine.getMortgageDecider(state)).toBe('player_2');
+        expect(engine.getTradeWindowProposer(state)).toBeNull();
+
+        state = engine.applyAction(state, { action: 'keep_mortgage' }).newState;
+        expect(state.turnPhase).toBe('trade_window');
+        expect(engine.getTradeWindowProposer(state)).toBe('player_2');
+      });
+
+      it('queues the interest as a debt when the receiver is already short', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        giveProperty(state, 'player_1', 1, 0, true);
+        setBalance(state, 'player_1', -20);
+        setDebt(state, 'player_1', 'player_0', 20, 'Rent');
+        state.mortgageTransfers = { pending: [{ playerId: 'player_1', position: 1 }], resumePhase: 'paying_debt' };
+        setPhase(state, 'mortgage_decision');
+
+        const result = engine.applyAction(state, { action: 'keep_mortgage' });
+        expect(result.events).toEqual([
+          { type: 'mortgage_interest', playerId: 'player_1', property: 'Mediterranean Avenue', position: 1, amount: 3 },
+        ]);
+        expect(getPlayer(result.newState, 'player_1').balance).toBe(-23);
+        expect(result.newState.pendingDebts!.queue).toEqual([
+          { debtorId: 'player_1', creditor: 'player_0', amount: 20, reason: 'Rent' },
+          { debtorId: 'player_1', creditor: 'bank', amount: 3, reason: 'Mortgage interest' },
+        ]);
+        expect(result.newState.turnPhase).toBe('paying_debt');
+      });
+    });
+
+    describe('counter_offer', () => {
+      function openNegotiation(engine: GameEngine): GameState {
+        const state = createTestState();
+        giveProperty(state, 'player_0', 1);
+        giveProperty(state, 'player_1', 3);
+        setPhase(state, 'post_action');
+        return engine.applyAction(state, {
+          action: 'trade_offer',
+          offer: {
+            fromPlayerId: 'player_0', toPlayerId: 'player_1',
+            offeredProperties: [1], offeredMoney: 0, requestedProperties: [3], requestedMoney: 0,
+          },
+        }).newState;
+      }
+
+      // Terms from `from`'s side, sent back to the other player
+      function counter(from: string, to: string, money: number) {
+        return {
+          action: 'counter_offer' as const,
+          offer: {
+            fromPlayerId: from, toPlayerId: to,
+            offeredProperties: [], offeredMoney: 0, requestedProperties: [], requestedMoney: money,
+          },
+        };
+      }
+
+      it('swaps who responds and records the thread', () => {
+        const engine = createTestEngine();
+        const state = openNegotiation(engine);
+
+        const result = engine.applyAction(state, {
+          action: 'counter_offer',
+          offer: {
+            fromPlayerId: 'player_1', toPlayerId: 'player_0',
+            offeredProperties: [3], offeredMoney: 0, requestedProperties: [1], requestedMoney: 40,
+          },
+        });
+        expect(result.success).toBe(true);
+        expect(result.newState.turnPhase).toBe('trading');
+        expect(result.newState.activeTrade?.toPlayerId).toBe('player_0');
+        expect(result.newState.negotiation?.thread).toHaveLength(2);
+        expect(result.events).toEqual([{
+          type: 'trade_countered', fromPlayer: 'Player1', toPlayer: 'Player0', round: 1,
+          description: 'Offered properties at [Baltic Avenue] for properties at [Mediterranean Avenue] and $40',
+        }]);
+
+        // The original proposer accepts the revised terms
+        const accepted = engine.applyAction(result.newState, { action: 'accept_trade' });
+        expect(getPlayer(accepted.newState, 'player_0').properties.has(3)).toBe(true);
+        expect(getPlayer(accepted.newState, 'player_0').balance).toBe(1460);
+        expect(accepted.newState.negotiation).toBeNull();
+      });
+
+      it('rejects counter-offers that come from the wrong side or can\'t be delivered', () => {
+        const engine = createTestEngine();
+        const state = openNegotiation(engine);
+
+        expect(engine.applyAction(state, counter('player_0', 'player_1', 10)).error).toContain('goes back');
+        expect(engine.applyAction(state, counter('player_1', 'player_0', 5000)).error).toContain('insufficient funds');
+      });
+
+      it(`stops offering counters after ${MAX_COUNTER_OFFERS} rounds`, () => {
+        const engine = createTestEngine();
+        let state = openNegotiation(engine);
+        const sides = [['player_1', 'player_0'], ['player_0', 'player_1']];
+        for (let round = 0; round < MAX_COUNTER_OFFERS; round++) {
+          const [from, to] = sides[round % 2];
+          expect(engine.getAvailableActions(state).some(a => a.action === 'counter_offer')).toBe(true);
+          state = engine.applyAction(state, counter(from, to, 10 + round)).newState;
+        }
+
+        expect(engine.getAvailableActions(state).map(a => a.action)).toEqual(['accept_trade', 'reject_trade']);
+        const [from, to] = sides[MAX_COUNTER_OFFERS % 2];
+        expect(engine.applyAction(state, counter(from, to, 99)).success).toBe(false);
+      });
+    });
+
+    describe('send_message', () => {
+      it('records the message as an event without touching the turn', () => {
+        const engine = createTestEngine();
+        const state = createTestState(3);
+        setPhase(state, 'post_action');
+
+        const result = engine.applyAction(state, { action: 'send_message', toPlayerId: 'player_2', text: '  Want Boardwalk? ' });
+        expect(result.success).toBe(true);
+        expect(result.events).toEqual([{ type: 'player_message', fromPlayerId: 'player_0', toPlayerId: 'player_2', text: 'Want Boardwalk?' }]);
+        expect(result.newState.turnPhase).toBe('post_action');
+      });
+
+      it(`allows ${MAX_MESSAGES_PER_TURN} messages per player per turn`, () => {
+        const engine = createTestEngine();
+        let state = createTestState();
+        setPhase(state, 'pre_roll');
+        for (let i = 0; i < MAX_MESSAGES_PER_TURN; i++) {
+          state = engine.applyAction(state, { action: 'send_message', toPlayerId: null, text: `hello ${i}` }).newState;
+        }
+
+        const limited = engine.applyAction(state, { action: 'send_message', toPlayerId: null, text: 'one more' });
+        expect(limited.success).toBe(false);
+        expect(limited.error).toContain('this turn');
+      });
+
+      it('rejects empty messages, messages to yourself and unknown players', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        setPhase(state, 'pre_roll');
+
+        expect(engine.applyAction(state, { action: 'send_message', toPlayerId: null, text: '   ' }).error).toBe('Message is empty');
+        expect(engine.applyAction(state, { action: 'send_message', toPlayerId: 'player_0', text: 'hi' }).success).toBe(false);
+        expect(engine.applyAction(state, { action: 'send_message', toPlayerId: 'nobody', text: 'hi' }).success).toBe(false);
+      });
+
+      it('comes from the trade responder during a negotiation', () => {
+        const engine = createTestEngine();
+        const state = createTestState();
+        state.activeTrade = {
+          fromPlayerId: 'player_0', toPlayerId: 'player_1',
+          offeredProperties: [], offeredMoney: 100, requestedProperties: [], requestedMoney: 0,
+        };
+        setPhase(state, 'trading');
+
+        const result = engine.applyAction(state, { action: 'send_message', toPlayerId: 'player_0', text: 'Make it 150' });
+        expect(result.events[0]).toMatchObject({ fromPlayerId: 'player_1', toPlayerId: 'player_0' });
+        expect(result.newState.turnPhase).toBe('trading');
+      });
+    });
+
     it('fails to trade property with houses', () => {
       const engine = createTestEngine();
       const state = createTestState();
@@ -615,7 +1462,7 @@ describe('GameEngine', () => {
       const engine = createTestEngine();
       const state = createTestState();
       putInJail(state, 'player_0');
-      getPlayer(state, 'player_0').getOutOfJailCards = 1;
+      giveJailCard(state, 'player_0');
       setPhase(state, 'awaiting_roll');
 
       const result = engine.applyAction(state, { action: 'use_get_out_of_jail_card' });
@@ -623,10 +1470,35 @@ describe('GameEngine', () => {
 
       const player = getPlayer(result.newState, 'player_0');
       expect(player.inJail).toBe(false);
-      expect(player.getOutOfJailCards).toBe(0);
+      expect(player.jailCards).toEqual([]);
       expect(result.newState.turnPhase).toBe('awaiting_roll');
     });
 
+    it("puts a used card back on its own deck's discard pile", () => {
+      const engine = createTestEngine();
+      const state = createTestState();
+      putInJail(state, 'player_0');
+      giveJailCard(state, 'player_0', 'community_chest');
+      setPhase(state, 'awaiting_roll');
+
+      const result = engine.applyAction(state, { action: 'use_get_out_of_jail_card' });
+      expect(result.newState.communityChestDiscardPile).toEqual([4]);
+      expect(result.newState.chanceDiscardPile).toEqual([]);
+    });
+
+    it('keeps a drawn Get Out of Jail Free card out of the discard pile until it is used', () => {
+      const engine = createTestEngine();
+      const state = createTestState();
+      state.chanceDeck = [8, ...state.chanceDeck.filter(id => id !== 8)];
+      setPosition(state, 'player_0', 7);
+      setPhase(state, 'post_roll_land');
+
+      const result = engine.autoResolveLanding(state);
+      expect(getPlayer(result.newState, 'player_0').jailCards).toEqual([{ deck: 'chance', cardId: 8 }]);
+      expect(result.newState.chanceDeck).not.toContain(8);
+      expect(result.newState.chanceDiscardPile).not.toContain(8);
+    });
+
     it('use_get_out_of_jail_card fails without card', () => {
       const engine = createTestEngine();
       const state = createTestState();
@@ -677,7 +1549,7 @@ describe('GameEngine', () => {
       giveProperty(state, 'player_0', 1);
       giveProperty(state, 'player_0', 5);
       setBalance(state, 'player_0', -100);
-      state.pendingDebt = { creditor: 'player_1', amount: 100, reason: 'rent' };
+      setDebt(state, 'player_0', 'player_1', 100, 'rent');
       setPhase(state, 'paying_debt');
 
       const result = engine.applyAction(state, { action: 'declare_bankruptcy' });
@@ -692,6 +1564,100 @@ describe('GameEngine', () => {
       expect(creditor.properties.has(5)).toBe(true);
     });
 
+    it('hands Get Out of Jail Free cards to a creditor, or back to their decks', () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      giveJailCard(state, 'player_0', 'chance');
+      giveJailCard(state, 'player_0', 'community_chest');
+      setBalance(state, 'player_0', -100);
+      setPhase(state, 'paying_debt');
+
+      setDebt(state, 'player_0', 'player_1', 100, 'rent');
+      const toPlayer = engine.applyAction(state, { action: 'declare_bankruptcy' }).newState;
+      expect(getPlayer(toPlayer, 'player_1').jailCards).toHaveLength(2);
+
+      setDebt(state, 'player_0', 'bank', 100, 'tax');
+      const toBank = engine.applyAction(state, { action: 'declare_bankruptcy' }).newState;
+      expect(toBank.chanceDiscardPile).toEqual([8]);
+      expect(toBank.communityChestDiscardPile).toEqual([4]);
+    });
+
+    it('has the creditor settle mortgaged properties before the next player goes', () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      giveProperty(state, 'player_0', 1, 0, true);
+      giveProperty(state, 'player_0', 5);
+      setBalance(state, 'player_0', -100);
+      setDebt(state, 'player_0', 'player_2', 100, 'rent');
+      setPhase(state, 'paying_debt');
+
+      const bankrupt = engine.applyAction(state, { action: 'declare_bankruptcy' });
+      expect(bankrupt.newState.turnPhase).toBe('mortgage_decision');
+      expect(engine.getMortgageDecider(bankrupt.newState)).toBe('player_2');
+      expect(engine.getAvailableActions(bankrupt.newState).map(a => a.action)).toEqual(['lift_mortgage', 'keep_mortgage']);
+
+      const kept = engine.applyAction(bankrupt.newState, { action: 'keep_mortgage' });
+      expect(getPlayer(kept.newState, 'player_2').balance).toBe(1497);
+      expect(kept.newState.turnPhase).toBe('pre_roll');
+      expect(kept.newState.currentPlayerIndex).toBe(1);
+    });
+
+    it('auctions off the properties of a player bankrupt to the bank, one after another', () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      giveProperty(state, 'player_0', 39);
+      giveProperty(state, 'player_0', 1, 0, true);
+      setBalance(state, 'player_0', -100);
+      setDebt(state, 'player_0', 'bank', 100, 'tax');
+      setPhase(state, 'paying_debt');
+
+      const bankrupt = engine.applyAction(state, { action: 'declare_bankruptcy' });
+      expect(bankrupt.events.at(-1)).toEqual({ type: 'auction_start', property: 'Mediterranean Avenue', position: 1 });
+      expect(bankrupt.newState.turnPhase).toBe('auction');
+      expect(bankrupt.newState.auction!.bidders).toEqual(['player_1', 'player_2']);
+      expect(bankrupt.newState.bankAuctions!.positions).toEqual([39]);
+
+      let result = engine.applyAction(bankrupt.newState, { action: 'submit_bid', amount: 50 });
+      result = engine.applyAction(result.newState, { action: 'submit_bid', amount: 0 });
+      expect(result.events).toContainEqual({ type: 'auction_won', playerId: 'player_1', property: 'Mediterranean Avenue', price: 50 });
+      expect(result.events.at(-1)).toEqual({ type: 'auction_start', property: 'Boardwalk', position: 39 });
+      expect(getPlayer(result.newState, 'player_1').properties.get(1)).toEqual({ houses: 0, mortgaged: false });
+
+      result = engine.applyAction(result.newState, { action: 'submit_bid', amount: 0 });
+      result = engine.applyAction(result.newState, { action: 'submit_bid', amount: 0 });
+      expect(result.events.at(-1)).toEqual({ type: 'auction_no_bids', property: 'Boardwalk' });
+      expect(result.newState.turnPhase).toBe('pre_roll');
+      expect(result.newState.currentPlayerIndex).toBe(1);
+      expect(result.newState.bankAuctions).toBeNull();
+    });
+
+    it('leaves them unowned under the house rule', () => {
+      const engine = new GameEngine(testRng(), { ...DEFAULT_AUCTION_RULES, bankruptcySales: 'unowned' });
+      const state = createTestState(3);
+      giveProperty(state, 'player_0', 39);
+      setBalance(state, 'player_0', -100);
+      setDebt(state, 'player_0', 'bank', 100, 'tax');
+      setPhase(state, 'paying_debt');
+
+      const result = engine.applyAction(state, { action: 'declare_bankruptcy' });
+      expect(result.newState.turnPhase).toBe('pre_roll');
+      expect(result.newState.auction).toBeNull();
+      expect(result.newState.players.some(p => p.properties.has(39))).toBe(false);
+    });
+
+    it('skips mortgage decisions once the game is over', () => {
+      const engine = createTestEngine();
+      const state = createTestState();
+      giveProperty(state, 'player_0', 1, 0, true);
+      setBalance(state, 'player_0', -100);
+      setDebt(state, 'player_0', 'player_1', 100, 'rent');
+      setPhase(state, 'paying_debt');
+
+      const result = engine.applyAction(state, { action: 'declare_bankruptcy' });
+      expect(result.newState.winner).toBe('player_1');
+      expect(result.newState.mortgageTransfers).toBeNull();
+    });
+
     it('returns houses to bank when bankrupt to bank', () => {
       const engine = createTestEngine();
       const state = createTestState();
@@ -699,7 +1665,7 @@ describe('GameEngine', () => {
       getPlayer(state, 'player_0').properties.get(1)!.houses = 3;
       getPlayer(state, 'player_0').properties.get(3)!.houses = 2;
       setBalance(state, 'player_0', -100);
-      state.pendingDebt = { creditor: 'bank', amount: 100, reason: 'tax' };
+      setDebt(state, 'player_0', 'bank', 100, 'tax');
       setPhase(state, 'paying_debt');
 
       const result = engine.applyAction(state, { action: 'declare_bankruptcy' });
@@ -711,7 +1677,7 @@ describe('GameEngine', () => {
       const engine = createTestEngine();
       const state = createTestState(); // 2 players
       setBalance(state, 'player_0', -100);
-      state.pendingDebt = { creditor: 'bank', amount: 100, reason: 'tax' };
+      setDebt(state, 'player_0', 'bank', 100, 'tax');
       setPhase(state, 'paying_debt');
 
       const result = engine.applyAction(state, { action: 'declare_bankruptcy' });
@@ -721,6 +1687,287 @@ describe('GameEngine', () => {
       const gameOverEvent = result.events.find(e => e.type === 'game_over');
       expect(gameOverEvent).toBeDefined();
     });
+
+    it('has each player short of a birthday payment raise it in turn, off-turn', () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      state.communityChestDeck = [8, ...state.communityChestDeck.filter(id => id !== 8)];
+      setPosition(state, 'player_0', 17);
+      setBalance(state, 'player_1', 4);
+      giveProperty(state, 'player_1', 5);
+      setBalance(state, 'player_2', 0);
+      setPhase(state, 'post_roll_land');
+
+      const landed = engine.autoResolveLanding(state).newState;
+      expect(landed.turnPhase).toBe('paying_debt');
+      expect(landed.pendingDebts!.queue.map(d => [d.debtorId, d.creditor, d.amount])).toEqual([
+        ['player_1', 'player_0', 6],
+        ['player_2', 'player_0', 10],
+      ]);
+      expect(getPlayer(landed, 'player_0').balance).toBe(1504);
+      expect(engine.getDebtor(landed)).toBe('player_1');
+      expect(engine.getAvailableActions(landed).map(a => a.action)).toEqual(['mortgage_property', 'trade_offer', 'declare_bankruptcy']);
+
+      const mortgaged = engine.applyAction(landed, { action: 'mortgage_property', propertyPosition: 5 });
+      expect(mortgaged.events).toContainEqual({ type: 'debt_paid', debtorId: 'player_1', creditor: 'player_0', amount: 6, reason: 'Card payment' });
+      expect(getPlayer(mortgaged.newState, 'player_0').balance).toBe(1510);
+      expect(engine.getDebtor(mortgaged.newState)).toBe('player_2');
+
+      const bankrupt = engine.applyAction(mortgaged.newState, { action: 'declare_bankruptcy' });
+      expect(getPlayer(bankrupt.newState, 'player_2').isBankrupt).toBe(true);
+      expect(bankrupt.newState.pendingDebts).toBeNull();
+      expect(bankrupt.newState.turnPhase).toBe('post_action');
+      expect(bankrupt.newState.currentPlayerIndex).toBe(0);
+    });
+
+    it("pays a bankrupt player's cash to creditors in order and the estate to those left unpaid", () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      state.chanceDeck = [14, ...state.chanceDeck.filter(id => id !== 14)];
+      setPosition(state, 'player_0', 7);
+      setBalance(state, 'player_0', 30);
+      giveProperty(state, 'player_0', 1);
+      giveProperty(state, 'player_0', 39);
+      setPhase(state, 'post_roll_land');
+
+      // $50 each: player_1 gets the $30 on hand and is owed $20, player_2 is owed all $50
+      const landed = engine.autoResolveLanding(state).newState;
+      expect(landed.pendingDebts!.queue.map(d => [d.creditor, d.amount])).toEqual([['player_1', 20], ['player_2', 50]]);
+      expect(getPlayer(landed, 'player_1').balance).toBe(1530);
+
+      const mortgaged = engine.applyAction(landed, { action: 'mortgage_property', propertyPosition: 1 }).newState;
+      const result = engine.applyAction(mortgaged, { action: 'declare_bankruptcy' });
+      expect(getPlayer(result.newState, 'player_1').balance).toBe(1550);
+      expect(getPlayer(result.newState, 'player_2').balance).toBe(1510);
+      expect(result.events).toContainEqual({ type: 'bankruptcy', playerId: 'player_0', creditor: 'player_2' });
+      expect(getPlayer(result.newState, 'player_2').properties.has(39)).toBe(true);
+    });
+
+    it('shares the estate among every creditor left unpaid, in proportion to what each is owed', () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      giveProperty(state, 'player_0', 39);
+      giveProperty(state, 'player_0', 1);
+      giveProperty(state, 'player_0', 3);
+      giveJailCard(state, 'player_0', 'chance');
+      setBalance(state, 'player_0', -300);
+      setDebt(state, 'player_0', 'player_1', 100, 'rent');
+      state.pendingDebts!.queue.push({ debtorId: 'player_0', creditor: 'player_2', amount: 200, reason: 'rent' });
+      setPhase(state, 'paying_debt');
+
+      const result = engine.applyAction(state, { action: 'declare_bankruptcy' });
+      expect(result.events.filter(e => e.type === 'bankruptcy')).toEqual([
+        { type: 'bankruptcy', playerId: 'player_0', creditor: 'player_1' },
+        { type: 'bankruptcy', playerId: 'player_0', creditor: 'player_2' },
+      ]);
+      // $400 of Boardwalk to the $200 debt, $170 of the rest to the $100 one
+      expect([...getPlayer(result.newState, 'player_2').properties.keys()]).toEqual([39]);
+      expect([...getPlayer(result.newState, 'player_1').properties.keys()].sort()).toEqual([1, 3]);
+      expect(getPlayer(result.newState, 'player_1').jailCards).toHaveLength(1);
+    });
+
+    it('has other debtors settle before the next player starts when the current player goes under', () => {
+      const engine = createTestEngine();
+      const state = createTestState(3);
+      giveProperty(state, 'player_2', 5);
+      setBalance(state, 'player_0', -100);
+      setBalance(state, 'player_2', -50);
+      setDebt(state, 'player_0', 'player_1', 100, 'Card payment');
+      state.pendingDebts!.queue.push({ debtorId: 'player_2', creditor: 'player_1', amount: 50, reason: 'Card payment' });
+      setPhase(state, 'paying_debt');
+
+      const bankrupt = engine.applyAction(state, { action: 'declare_bankruptcy' }).newState;
+      expect(bankrupt.currentPlayerIndex).toBe(1);
+      expect(bankrupt.turnPhase).toBe('paying_debt');
+      expect(engine.getDebtor(bankrupt)).toBe('player_2');
+
+      const paid = engine.applyAction(bankrupt, { action: 'mortgage_property', propertyPosition: 5 });
+      expect(paid.events).toContainEqual({ type: 'debt_paid', debtorId: 'player_2', creditor: 'player_1', amount: 50, reason: 'Card payment' });
+      expect(paid.newState.pendingDebts).toBeNull();
+      expect(paid.newState.turnPhase).toBe('pre_roll');
+      expect(paid.newState.currentPlayerIndex).toBe(1);
+    });
+  });
+
+  // ────────────────────────────
+  //  HOUSE RULES
+  // ────────────────────────────
+
+  describe('house rules', () => {
+    function engineWith(rules: Partial<RuleSet>, rng: () => number = testRng()): GameEngine {
+      return new GameEngine(rng, DEFAULT_AUCTION_RULES, false, { ...DEFAULT_RULES, ...rules });
+    }
+
+    it('pays taxes into a Free Parking jackpot that the next player to land there collects', () => {
+      const engine = engineWith({ freeParkingJackpot: true });
+      const state = createTestState();
+      setPosition(state, 'player_0', 4); // Income Tax
+      setPhase(state, 'post_roll_land');
+
+      const taxed = engine.autoResolveLanding(state).newState;
+      expect(taxed.freeParkingPot).toBe(200);
+
+      setPosition(taxed, 'player_0', 20);
+      setPhase(taxed, 'post_roll_land');
+      const result = engine.autoResolveLanding(taxed);
+      expect(result.events).toContainEqual({ type: 'collect', playerId: 'player_0', amount: 200, reason: 'Free Parking jackpot' });
+      expect(getPlayer(result.newState, 'player_0').balance).toBe(1500);
+      expect(result.newState.freeParkingPot).toBe(0);
+    });
+
+    it('pays double salary for landing exactly on Go, and the set salary for passing it', () => {
+      const engine = engineWith({ doubleGoSalary: true, salary: 100 }, () => 0.1); // double 1s
+      const state = createTestState();
+      setPosition(state, 'player_0', 38);
+      setPhase(state, 'awaiting_roll');
+
+      const landed = engine.applyAction(state, { action: 'roll_dice' });
+      expect(landed.events).toContainEqual({ type: 'pass_go', playerId: 'player_0', collected: 200 });
+
+      setPosition(state, 'player_0', 39);
+      const passed = engine.applyAction(state, { action: 'roll_dice' });
+      expect(passed.events).toContainEqual({ type: 'pass_go', playerId: 'player_0', collected: 100 });
+    });
+
+    it('charges no rent to an owner sitting in jail', () => {
+      const engine = engineWith({ noRentInJail: true });
+      const state = createTestState();
+      giveProperty(state, 'player_1', 39);
+      putInJail(state, 'player_1');
+      setPosition(state, 'player_0', 39);
+      setPhase(state, 'post_roll_land');
+
+      const result = engine.autoResolveLanding(state);
+      expect(result.events).toContainEqual({ type: 'rent_waived_in_jail', payerId: 'player_0', ownerId: 'player_1', property: 'Boardwalk' });
+      expect(getPlayer(result.newState, 'player_0').balance).toBe(1500);
+    });
+
+    it('leaves a declined property unowned when auctions are optional', () => {
+      const engine = engineWith({ mandatoryAuctions: false });
+      const state = createTestState();
+      setPosition(state, 'player_0', 39);
+      setPhase(state, 'purchase_decision');
+
+      const result = engine.applyAction(state, { action: 'auction_property' });
+      expect(result.events).toEqual([{ type: 'property_declined', playerId: 'player_0', property: 'Boardwalk' }]);
+      expect(result.newState.auction).toBeNull();
+      expect(result.newState.turnPhase).toBe('post_action');
+    });
+
+    it('lets houses go up unevenly without the even-build rule', () => {
+      const engine = engineWith({ evenBuild: false });
+      const state = createTestState();
+      giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+      getPlayer(state, 'player_0').properties.get(1)!.houses = 1;
+      setPhase(state, 'post_action');
+
+      const build = engine.getAvailableActions(state).find(a => a.action === 'build_house')!;
+      expect(build.parameters!.property_position.enum).toEqual([1, 3]);
+      const result = engine.applyAction(state, { action: 'build_house', propertyPosition: 1 });
+      expect(getPlayer(result.newState, 'player_0').properties.get(1)!.houses).toBe(2);
+    });
+
+    it('forces the fine after the set number of failed rolls in jail', () => {
+      let call = 0;
+      const engine = engineWith({ maxJailTurns: 1 }, () => (++call % 2 === 1 ? 0.1 : 0.5));
+      const state = createTestState();
+      putInJail(state, 'player_0');
+      setPhase(state, 'awaiting_roll');
+
+      const result = engine.applyAction(state, { action: 'roll_dice' });
+      expect(result.events).toContainEqual({ type: 'get_out_of_jail', playerId: 'player_0', method: 'paid $50 (1st turn)' });
+      expect(getPlayer(result.newState, 'player_0').inJail).toBe(false);
+    });
+
+    describe('speed die', () => {
+      // White dice 2 and 3, then the speed die face drawn from `face`
+      function speedRoll(face: number): () => number {
+        const draws = [0.2, 0.4, face];
+        let call = 0;
+        return () => draws[call++ % draws.length];
+      }
+
+      it('adds a numbered face to the white dice', () => {
+        const engine = engineWith({ speedDie: true }, speedRoll(0.4)); // 3
+        const state = createTestState();
+        setPhase(state, 'awaiting_roll');
+
+        const result = engine.applyAction(state, { action: 'roll_dice' });
+        expect(result.events[0]).toEqual({ type: 'roll_dice', playerId: 'player_0', dice: [2, 3], doubles: false, speedDie: 3 });
+        expect(getPlayer(result.newState, 'player_0').position).toBe(8);
+        expect(result.newState.lastSpeedDie).toBe(3);
+      });
+
+      it('lets the bus move by either white die or both', () => {
+        const engine = engineWith({ speedDie: true }, speedRoll(0.9)); // bus
+        const state = createTestState();
+        setPhase(state, 'awaiting_roll');
+
+        const rolled = engine.applyAction(state, { action: 'roll_dice' }).newState;
+        expect(rolled.turnPhase).toBe('bus_choice');
+        const bus = engine.getAvailableActions(rolled).find(a => a.action === 'take_bus')!;
+        expect(bus.parameters!.spaces.enum).toEqual([2, 3, 5]);
+
+        const wrong = engine.applyAction(rolled, { action: 'take_bus', spaces: 4 });
+        expect(wrong.error).toBe('The bus goes 2, 3, 5 spaces, not 4');
+
+        const result = engine.applyAction(rolled, { action: 'take_bus', spaces: 3 });
+        expect(getPlayer(result.newState, 'player_0').position).toBe(3);
+        expect(result.newState.turnPhase).toBe('post_roll_land');
+      });
+
+      it('sends Mr. Monopoly on to the next unowned property once the first landing is done', () => {
+        const engine = engineWith({ speedDie: true }, speedRoll(0.6)); // Mr. Monopoly
+        const state = createTestState();
+        giveProperty(state, 'player_1', 6);
+        setPhase(state, 'awaiting_roll');
+
+        const rolled = engine.applyAction(state, { action: 'roll_dice' }).newState;
+        expect(getPlayer(rolled, 'player_0').position).toBe(5);
+        expect(engine.hasMrMonopolyMove(rolled)).toBe(false);
+
+        setPhase(rolled, 'post_action');
+        expect(engine.hasMrMonopolyMove(rolled)).toBe(true);
+        const result = engine.moveMrMonopoly(rolled);
+        expect(result.events[0]).toEqual({ type: 'mr_monopoly', playerId: 'player_0', property: 'Vermont Avenue' });
+        expect(getPlayer(result.newState, 'player_0').position).toBe(8);
+        expect(result.newState.turnPhase).toBe('post_roll_land');
+        expect(engine.hasMrMonopolyMove(result.newState)).toBe(false);
+      });
+
+      it('sends Mr. Monopoly to the next rent owed once everything is owned', () => {
+        const engine = engineWith({ speedDie: true });
+        const state = createTestState();
+        for (const pos of [1, 3, 5, 6, 8, 9, 11, 12, 13, 14, 15, 16, 18, 19, 21, 23, 24, 25, 26, 27, 28, 29, 31, 32, 34, 35, 39]) {
+          giveProperty(state, 'player_0', pos);
+        }
+        giveProperty(state, 'player_1', 37);
+        state.mrMonopolyPending = true;
+        setPosition(state, 'player_0', 20);
+        setPhase(state, 'post_action');
+
+        const result = engine.moveMrMonopoly(state);
+        expect(result.events[0]).toEqual({ type: 'mr_monopoly', playerId: 'player_0', property: 'Park Place' });
+        expect(getPlayer(result.newState, 'player_0').position).toBe(37);
+      });
+
+      it('passes over a property where a rent waiver spares the mover', () => {
+        const engine = engineWith({ speedDie: true });
+        const state = createTestState();
+        for (const pos of [1, 3, 5, 6, 8, 9, 11, 12, 13, 14, 15, 16, 18, 19, 21, 23, 24, 25, 26, 27, 28, 29, 31, 32, 35, 39]) {
+          giveProperty(state, 'player_0', pos);
+        }
+        giveProperty(state, 'player_1', 34);
+        giveProperty(state, 'player_1', 37);
+        state.rentImmunities = [{ position: 34, grantorId: 'player_1', beneficiaryId: 'player_0', limit: 'landings', remaining: 1 }];
+        state.mrMonopolyPending = true;
+        setPosition(state, 'player_0', 20);
+        setPhase(state, 'post_action');
+
+        const result = engine.moveMrMonopoly(state);
+        expect(result.events[0]).toEqual({ type: 'mr_monopoly', playerId: 'player_0', property: 'Park Place' });
+      });
+    });
   });
 
   // ────────────────────────────
@@ -797,8 +2044,12 @@ describe('GameEngine', () => {
       expect(result.success).toBe(true);
 
       expect(result.newState.turnPhase).toBe('paying_debt');
-      expect(result.newState.pendingDebt).not.toBeNull();
-      expect(result.newState.pendingDebt!.creditor).toBe('player_1');
+      expect(result.newState.pendingDebts!.queue).toEqual([
+        { debtorId: 'player_0', creditor: 'player_1', amount: 500, reason: 'Rent on Boardwalk' },
+      ]);
+      // The owner is paid what the tenant had; the rest waits on the debt
+      expect(getPlayer(result.newState, 'player_1').balance).toBe(3000);
+      expect(getPlayer(result.newState, 'player_0').balance).toBe(-500);
     });
 
     it('does nothing on Free Parking', () => {
@@ -896,7 +2147,7 @@ describe('GameEngine', () => {
       const engine = createTestEngine();
       const state = createTestState();
       putInJail(state, 'player_0');
-      getPlayer(state, 'player_0').getOutOfJailCards = 1;
+      giveJailCard(state, 'player_0');
       setPhase(state, 'awaiting_roll');
 
       const actions = engine.getAvailableActions(state);
@@ -908,7 +2159,7 @@ describe('GameEngine', () => {
     it('paying_debt includes declare_bankruptcy', () => {
       const engine = createTestEngine();
       const state = createTestState();
-      state.pendingDebt = { creditor: 'bank', amount: 100, reason: 'tax' };
+      setDebt(state, 'player_0', 'bank', 100, 'tax');
       setPhase(state, 'paying_debt');
 
       const actions = engine.getAvailableActions(state);
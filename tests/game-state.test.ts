@@ -136,6 +136,18 @@ describe('game-state', () => {
       expect(state.players[0].position).toBe(10);
     });
 
+    it('deals Get Out of Jail Free cards out of the decks', () => {
+      const state = makeState();
+      applyScenario(state, { players: [{ getOutOfJailCards: 2 }, {}] });
+      expect(state.players[0].jailCards).toEqual([
+        { deck: 'chance', cardId: 8 },
+        { deck: 'community_chest', cardId: 4 },
+      ]);
+      expect(state.chanceDeck).not.toContain(8);
+      expect(state.communityChestDeck).not.toContain(4);
+      expect(() => applyScenario(state, { players: [{}, { getOutOfJailCards: 1 }] })).toThrow('No Get Out of Jail Free card left');
+    });
+
     it('throws for non-ownable positions', () => {
       const state = makeState();
       const scenario: ScenarioConfig = {
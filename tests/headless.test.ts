@@ -0,0 +1,60 @@
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dir = mkdtempSync(join(tmpdir(), 'monopoly-headless-'));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/** Run the CLI headless with two scripted seats; stdout comes back as parsed JSON lines */
+function runHeadless(...args: string[]) {
+  const result = Bun.spawnSync([
+    process.execPath, 'src/index.ts', '--headless',
+    '--players', '2', '--player-type', 'greedy,random', '--seed', '3',
+    '--autosave', '0', '--save-file', join(dir, 'save.json'),
+    ...args,
+  ], { cwd: join(import.meta.dir, '..') });
+  const lines = result.stdout.toString().trim().split('\n').filter(Boolean);
+  return { exitCode: result.exitCode, records: lines.map(line => JSON.parse(line)) };
+}
+
+describe('headless mode', () => {
+  it('streams the game as JSON lines and exits 2 when the turn limit ends it', () => {
+    const { exitCode, records } = runHeadless('--max-turns', '3');
+
+    expect(exitCode).toBe(2);
+    expect(records[0]).toMatchObject({ type: 'game_start', players: [{ id: 'player_0', balance: 1500 }, { id: 'player_1' }] });
+    expect(records.some(r => r.type === 'turn_start' && r.turn === 1 && r.playerId === 'player_0')).toBe(true);
+    expect(records.some(r => r.type === 'event' && r.event.type === 'roll_dice')).toBe(true);
+    expect(records.some(r => r.type === 'action' && r.action === 'roll_dice')).toBe(true);
+    expect(records[records.length - 1]).toMatchObject({ type: 'game_over', winnerId: null, reason: 'turn_limit' });
+  });
+
+  it('exits 0 when a player wins', () => {
+    // Alice owns the whole board; Bob goes under at the first rent or tax
+    const owned = [1, 3, 5, 6, 8, 9, 11, 12, 13, 14, 15, 16, 18, 19, 21, 23, 24, 25, 26, 27, 28, 29, 31, 32, 34, 35, 37, 39];
+    const scenario = join(dir, 'scenario.json');
+    writeFileSync(scenario, JSON.stringify({
+      players: [
+        { name: 'Alice', properties: owned.map(position => ({ position })) },
+        { name: 'Bob', balance: 1 },
+      ],
+    }));
+
+    const { exitCode, records } = runHeadless('--max-turns', '100', '--scenario-file', scenario);
+
+    expect(exitCode).toBe(0);
+    expect(records[records.length - 1]).toMatchObject({ type: 'game_over', winnerId: 'player_0', winner: 'Alice', reason: 'winner' });
+  });
+
+  it('reports a fatal error as a last JSON line, saves the game and exits 1', () => {
+    const { exitCode, records } = runHeadless('--max-turns', '2', '--log-file', join(dir, 'missing', 'game.json'));
+
+    expect(exitCode).toBe(1);
+    expect(records[records.length - 1]).toMatchObject({ type: 'fatal', error: expect.stringContaining('ENOENT') });
+    expect(existsSync(join(dir, 'save.json'))).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { GameState, PlayerState, PropertyState } from '../src/engine/types';
-import { createInitialState } from '../src/engine/game-state';
+import { createInitialState, dealJailCard } from '../src/engine/game-state';
 import { createRng } from '../src/engine/dice';
 import { GameEngine } from '../src/engine/game-engine';
 import { cloneState } from '../src/engine/bank';
@@ -73,3 +73,13 @@ export function giveColorGroup(
     giveProperty(state, playerId, pos);
   }
 }
+
+/** Helper: hand a player a Get Out of Jail Free card from the given deck */
+export function giveJailCard(state: GameState, playerId: string, deck: 'chance' | 'community_chest' = 'chance'): void {
+  dealJailCard(state, state.players.find(p => p.id === playerId)!, deck);
+}
+
+/** Helper: leave a player owing a single debt, to be raised before play resumes in post_action */
+export function setDebt(state: GameState, playerId: string, creditor: string, amount: number, reason: string): void {
+  state.pendingDebts = { queue: [{ debtorId: playerId, creditor, amount, reason }], resumePhase: 'post_action' };
+}
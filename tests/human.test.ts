@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'bun:test';
+import { GameLoop } from '../src/game-loop';
+import { resolveSeats } from '../src/config';
+import { ObserverBus } from '../src/display/observer';
+import { createAdapter } from '../src/llm/adapter-factory';
+import { HumanAdapter, HumanChoice, HumanPrompter } from '../src/llm/human-adapter';
+import { DecisionContext } from '../src/llm/types';
+import { nextParamPrompt, withAnswer, describeDecision } from '../src/display/action-menu';
+import { DEFAULT_RULES } from '../src/engine/game-engine';
+import { createTestEngine, createTestState, giveProperty, giveJailCard } from './helpers';
+
+/** Stands in for the person at the menu: rolls, passes on auctions, turns down trades, ends turns */
+class CautiousHuman implements HumanPrompter {
+  seen: DecisionContext[] = [];
+
+  async promptHuman(_name: string, context: DecisionContext): Promise<HumanChoice> {
+    this.seen.push(context);
+    const names = context.actions.map(a => a.action);
+    if (context.kind === 'auction') return { name: 'submit_bid', args: { amount: 0 } };
+    for (const name of ['roll_dice', 'reject_trade', 'buy_property', 'end_turn']) {
+      if (names.includes(name)) return { name, args: {} };
+    }
+    return { name: names[0], args: {} };
+  }
+}
+
+describe('human seats', () => {
+  it('answers with the tool call the prompter composed', async () => {
+    const context: DecisionContext = {
+      kind: 'turn',
+      playerId: 'player_0',
+      state: createTestState(),
+      actions: [],
+    };
+    const adapter = new HumanAdapter('Alice', {
+      promptHuman: async () => ({ name: 'build_house', args: { property_position: 39 } }),
+    });
+
+    const response = await adapter.chat('', [], [], context);
+    expect(response.toolCalls).toHaveLength(1);
+    expect(response.toolCalls[0]).toMatchObject({ name: 'build_house', arguments: { property_position: 39 } });
+    expect(adapter.providerId).toBe('human');
+  });
+
+  it('needs a UI to play through', () => {
+    const [seat] = resolveSeats(1, { type: ['human'] }, []);
+    expect(() => createAdapter(seat, 0)).toThrow('needs the interactive UI');
+  });
+
+  it('plays a game against a scripted seat through the prompter', async () => {
+    const human = new CautiousHuman();
+    const loop = new GameLoop(
+      {
+        players: 2,
+        seats: resolveSeats(2, { type: ['human', 'greedy'] }, []),
+        maxTurns: 12,
+        turnDelay: 0,
+        logFile: null,
+        seed: 4,
+        verbose: false,
+        scenarioFile: null,
+        headless: true,
+        sinks: [],
+        autosaveEvery: 0,
+        saveFile: '',
+        resumeFile: null,
+        auction: { mode: 'ascending', minIncrement: 10, bankruptcySales: 'auction' },
+        tradeWindow: false,
+        rules: { ...DEFAULT_RULES },
+      },
+      (seat, index) => createAdapter(seat, index, 4, human),
+      new ObserverBus(),
+    );
+
+    const final = await loop.run();
+    expect(final.turnNumber).toBeGreaterThan(12);
+    expect(human.seen.length).toBeGreaterThan(0);
+    expect(human.seen.every(c => c.playerId === 'player_0' && c.actions.length > 0)).toBe(true);
+  });
+});
+
+describe('action menu', () => {
+  it('walks a trade offer one parameter at a time, offering the partner\'s properties', () => {
+    const state = createTestState();
+    giveProperty(state, 'player_0', 1);
+    giveProperty(state, 'player_1', 39);
+    state.turnPhase = 'post_action';
+    const trade = createTestEngine().getAvailableActions(state).find(a => a.action === 'trade_offer')!;
+
+    const target = nextParamPrompt(trade, {}, state);
+    expect(target).toMatchObject({ kind: 'select', name: 'target_player_id', options: [{ label: 'Player1', value: 'player_1' }] });
+
+    const offered = nextParamPrompt(trade, { target_player_id: 'player_1' }, state);
+    expect(offered).toMatchObject({ kind: 'multiselect', options: [{ value: 1 }] });
+    expect(offered!.kind === 'multiselect' && offered!.options[0].label).toBe('Mediterranean Avenue (1)');
+
+    const money = nextParamPrompt(trade, { target_player_id: 'player_1', offered_properties: [1] }, state);
+    expect(money).toMatchObject({ kind: 'number', name: 'offered_money' });
+
+    const requested = nextParamPrompt(trade, { target_player_id: 'player_1', offered_properties: [1], offered_money: 0 }, state);
+    expect(requested).toMatchObject({ kind: 'multiselect', name: 'requested_properties', options: [{ value: 39 }] });
+
+    const terms = nextParamPrompt(trade, {
+      target_player_id: 'player_1', offered_properties: [1], offered_money: 0,
+      requested_properties: [39], requested_money: 100,
+    }, state);
+    expect(terms).toMatchObject({ kind: 'count', name: 'rent_immunities' });
+
+    const done = nextParamPrompt(trade, {
+      target_player_id: 'player_1', offered_properties: [1], offered_money: 0,
+      requested_properties: [39], requested_money: 100, rent_immunities: [],
+    }, state);
+    expect(done).toBeNull();
+  });
+
+  it('offers Get Out of Jail Free cards and rent waivers once the required terms are in', () => {
+    const state = createTestState();
+    giveProperty(state, 'player_0', 1);
+    giveProperty(state, 'player_1', 39);
+    giveJailCard(state, 'player_0', 'chance');
+    state.turnPhase = 'post_action';
+    const trade = createTestEngine().getAvailableActions(state).find(a => a.action === 'trade_offer')!;
+    const answer = (args: Record<string, unknown>, value: unknown) => withAnswer(args, nextParamPrompt(trade, args, state)!, value);
+
+    let args: Record<string, unknown> = {
+      target_player_id: 'player_1', offered_properties: [], offered_money: 0,
+      requested_properties: [39], requested_money: 0,
+    };
+    expect(nextParamPrompt(trade, args, state)).toMatchObject({
+      kind: 'select', name: 'offered_jail_cards', options: [{ label: 'None', value: 0 }, { label: '1 card', value: 1 }],
+    });
+    // Player1 has no card to ask for, so requested_jail_cards is never offered
+    args = answer(args, 1);
+    expect(nextParamPrompt(trade, args, state)).toMatchObject({ kind: 'count', name: 'rent_immunities' });
+
+    args = answer(args, 1);
+    const property = nextParamPrompt(trade, args, state);
+    expect(property).toMatchObject({ kind: 'select', name: 'rent_immunities.0.property_position', label: 'Rent waiver 1: Board position of the property' });
+    expect(property!.kind === 'select' && property!.options.map(o => o.label)).toEqual(['Mediterranean Avenue (1)', 'Boardwalk (39)']);
+    for (const value of [39, 'them', 'landings', 3]) args = answer(args, value);
+
+    expect(nextParamPrompt(trade, args, state)).toBeNull();
+    expect(args).toMatchObject({
+      offered_jail_cards: 1,
+      rent_immunities: [{ property_position: 39, beneficiary: 'them', limit: 'landings', count: 3 }],
+    });
+  });
+
+  it('builds a multi-party deal side by side, in place of the two-way terms', () => {
+    const state = createTestState(3);
+    giveProperty(state, 'player_0', 3);
+    giveProperty(state, 'player_1', 1);
+    giveProperty(state, 'player_2', 39);
+    state.turnPhase = 'post_action';
+    const trade = createTestEngine().getAvailableActions(state).find(a => a.action === 'trade_offer')!;
+    const answer = (args: Record<string, unknown>, value: unknown) => withAnswer(args, nextParamPrompt(trade, args, state)!, value);
+
+    expect(nextParamPrompt(trade, {}, state)).toMatchObject({ kind: 'count', name: 'participants' });
+    expect(nextParamPrompt(trade, { participants: [] }, state)).toMatchObject({ name: 'target_player_id' });
+
+    let args = answer({}, 3);
+    const side = nextParamPrompt(trade, args, state);
+    expect(side).toMatchObject({ kind: 'select', name: 'participants.0.player_id', label: 'One participant 1: Participant' });
+    expect(side!.kind === 'select' && side!.options.map(o => o.label)).toEqual(['Player0', 'Player1', 'Player2']);
+
+    for (const value of [
+      'player_0', [], 200, [1], 0,
+      'player_1', [1], 0, [], 100,
+      'player_2', [], 0, [], 100,
+    ]) {
+      args = answer(args, value);
+    }
+    expect(nextParamPrompt(trade, args, state)).toBeNull();
+    expect((args.participants as unknown[])[1]).toEqual({
+      player_id: 'player_1', gives_properties: [1], gives_money: 0, receives_properties: [], receives_money: 100,
+    });
+  });
+
+  it('offers the bus distances as numbers of spaces', () => {
+    const state = createTestState();
+    state.turnPhase = 'bus_choice';
+    state.lastDiceRoll = [2, 5];
+    const bus = createTestEngine().getAvailableActions(state).find(a => a.action === 'take_bus')!;
+
+    const prompt = nextParamPrompt(bus, {}, state);
+    expect(prompt!.kind === 'select' && prompt!.options).toEqual([
+      { label: '2 spaces', value: 2 },
+      { label: '5 spaces', value: 5 },
+      { label: '7 spaces', value: 7 },
+    ]);
+  });
+
+  it('describes a pending trade to the player it was offered to', () => {
+    const state = createTestState();
+    state.activeTrade = {
+      fromPlayerId: 'player_0',
+      toPlayerId: 'player_1',
+      offeredProperties: [1],
+      offeredMoney: 50,
+      requestedProperties: [39],
+      requestedMoney: 0,
+    };
+    const text = describeDecision('Player1', { kind: 'trade_response', playerId: 'player_1', state, actions: [] });
+    expect(text).toBe('Player1, Player0 offers Mediterranean Avenue, $50 for Boardwalk');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'bun:test';
+import { GameObserver, ObserverBus } from '../src/display/observer';
+import { JsonlRenderer } from '../src/display/jsonl-renderer';
+import { WebSocketSink } from '../src/display/websocket-sink';
+import { parseSinkSpec } from '../src/display/sinks';
+import { createTestState } from './helpers';
+
+describe('ObserverBus', () => {
+  it('fans every hook out to each attached observer', () => {
+    const seen: string[][] = [[], []];
+    const observers: GameObserver[] = seen.map(log => ({
+      renderAction: (player, action) => log.push(`${player}:${action}`),
+      renderBid: (player, amount) => log.push(`${player} bids ${amount}`),
+    }));
+    const bus = new ObserverBus(observers);
+
+    bus.renderAction('Alice', 'roll_dice');
+    bus.renderBid('Bob', 120);
+    bus.renderGameOver(createTestState()); // no observer implements it
+
+    expect(seen[0]).toEqual(['Alice:roll_dice', 'Bob bids 120']);
+    expect(seen[1]).toEqual(seen[0]);
+  });
+
+  it('detaches an observer that throws and keeps the others running', () => {
+    const lines: string[] = [];
+    const broken: GameObserver = {
+      renderActionError: () => { throw new Error('disk full'); },
+    };
+    const bus = new ObserverBus([broken, new JsonlRenderer(line => lines.push(line))]);
+
+    const realError = console.error;
+    console.error = () => {};
+    try {
+      bus.renderActionError('first');
+      bus.renderActionError('second');
+    } finally {
+      console.error = realError;
+    }
+
+    expect(bus.size).toBe(1);
+    expect(lines.map(l => JSON.parse(l).text)).toEqual(['first', 'second']);
+  });
+
+  it('stops sending to an observer once its detach handle is called', () => {
+    const calls: string[] = [];
+    const bus = new ObserverBus();
+    const detach = bus.attach({ renderLLMThinking: name => calls.push(name) });
+
+    bus.renderLLMThinking('Alice');
+    detach();
+    bus.renderLLMThinking('Bob');
+    expect(calls).toEqual(['Alice']);
+  });
+});
+
+describe('sinks', () => {
+  it('parses sink specs', () => {
+    expect(parseSinkSpec('console')).toEqual({ kind: 'console' });
+    expect(parseSinkSpec('jsonl')).toEqual({ kind: 'jsonl', path: null });
+    expect(parseSinkSpec('jsonl:/tmp/game.jsonl')).toEqual({ kind: 'jsonl', path: '/tmp/game.jsonl' });
+    expect(parseSinkSpec('ws:8080')).toEqual({ kind: 'ws', port: 8080 });
+    expect(() => parseSinkSpec('ws:abc')).toThrow('Invalid WebSocket port');
+    expect(() => parseSinkSpec('carrier-pigeon')).toThrow('Unknown sink');
+  });
+
+  it('streams records over a WebSocket, replaying earlier ones to late joiners', async () => {
+    const sink = new WebSocketSink(0);
+    try {
+      sink.renderGameStart(createTestState());
+
+      const socket = new WebSocket(`ws://localhost:${sink.port}`);
+      const received: any[] = [];
+      const gotTwo = new Promise<void>(resolve => {
+        socket.onmessage = msg => {
+          received.push(JSON.parse(String(msg.data)));
+          if (received.length === 2) resolve();
+        };
+      });
+      await new Promise(resolve => { socket.onopen = resolve; });
+
+      sink.renderBid('Alice', 50);
+      await gotTwo;
+      socket.close();
+
+      expect(received.map(r => r.type)).toEqual(['game_start', 'bid']);
+      expect(received[1]).toMatchObject({ player: 'Alice', amount: 50 });
+    } finally {
+      sink.close();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { OpenAIAdapter } from '../src/llm/openai-adapter';
+import { STATIC_TOOLS } from '../src/llm/tool-translator';
+import { ChatMessage } from '../src/llm/types';
+
+const realFetch = globalThis.fetch;
+
+/** Replace fetch with a stub that records the request body and returns `reply` */
+function stubFetch(reply: unknown, status = 200): { body: any; url: string } {
+  const captured = { body: null as any, url: '' };
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    captured.url = url;
+    captured.body = JSON.parse(init.body as string);
+    return new Response(JSON.stringify(reply), { status });
+  }) as unknown as typeof fetch;
+  return captured;
+}
+
+const TOOL_REPLY = {
+  choices: [{
+    message: {
+      role: 'assistant',
+      content: 'Buying it.',
+      tool_calls: [{
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'build_house', arguments: '{"property_position":1}' },
+      }],
+    },
+  }],
+  usage: { prompt_tokens: 1200, completion_tokens: 30, prompt_tokens_details: { cached_tokens: 1000 } },
+};
+
+describe('OpenAIAdapter', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('sends tools as functions to the configured base URL', async () => {
+    const captured = stubFetch(TOOL_REPLY);
+    const adapter = new OpenAIAdapter({ model: 'local-model', baseUrl: 'http://localhost:8080/v1/' });
+
+    await adapter.chat('system prompt', [{ role: 'user', content: 'Your turn' }], STATIC_TOOLS);
+
+    expect(captured.url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(captured.body.model).toBe('local-model');
+    expect(captured.body.tool_choice).toBe('required');
+    expect(captured.body.tools).toHaveLength(STATIC_TOOLS.length);
+    expect(captured.body.tools[0]).toEqual({
+      type: 'function',
+      function: {
+        name: STATIC_TOOLS[0].name,
+        description: STATIC_TOOLS[0].description,
+        parameters: STATIC_TOOLS[0].input_schema,
+      },
+    });
+    expect(captured.body.messages[0]).toEqual({ role: 'system', content: 'system prompt' });
+  });
+
+  test('translates tool_use and tool_result blocks into tool_calls and tool messages', async () => {
+    const captured = stubFetch(TOOL_REPLY);
+    const adapter = new OpenAIAdapter({ model: 'm' });
+
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'Your turn' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Rolling.' },
+          { type: 'tool_use', id: 'tool_1', name: 'roll_dice', input: {} },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'tool_1', content: 'Rolled 7' },
+          { type: 'text', text: 'Choose again.' },
+        ],
+      },
+    ];
+    await adapter.chat('sys', history, STATIC_TOOLS);
+
+    expect(captured.body.messages.slice(1)).toEqual([
+      { role: 'user', content: 'Your turn' },
+      {
+        role: 'assistant',
+        content: 'Rolling.',
+        tool_calls: [{ id: 'tool_1', type: 'function', function: { name: 'roll_dice', arguments: '{}' } }],
+      },
+      { role: 'tool', tool_call_id: 'tool_1', content: 'Rolled 7' },
+      { role: 'user', content: 'Choose again.' },
+    ]);
+  });
+
+  test('parses tool calls and splits cached tokens out of usage', async () => {
+    stubFetch(TOOL_REPLY);
+    const adapter = new OpenAIAdapter({ model: 'm' });
+
+    const response = await adapter.chat('sys', [{ role: 'user', content: 'go' }], STATIC_TOOLS);
+
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'build_house', arguments: { property_position: 1 } }]);
+    expect(response.textContent).toBe('Buying it.');
+    expect(response.rawMessage.content).toEqual([
+      { type: 'text', text: 'Buying it.' },
+      { type: 'tool_use', id: 'call_1', name: 'build_house', input: { property_position: 1 } },
+    ]);
+    expect(response.usage).toEqual({
+      inputTokens: 200,
+      outputTokens: 30,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 1000,
+    });
+  });
+
+  test('treats malformed tool arguments as empty', async () => {
+    stubFetch({
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'c', type: 'function', function: { name: 'end_turn', arguments: '{not json' } }],
+        },
+      }],
+    });
+    const adapter = new OpenAIAdapter({ model: 'm' });
+
+    const response = await adapter.chat('sys', [{ role: 'user', content: 'go' }], STATIC_TOOLS);
+    expect(response.toolCalls[0].arguments).toEqual({});
+    expect(response.usage).toBeUndefined();
+  });
+
+  test('throws with the HTTP status on API errors', async () => {
+    stubFetch({ error: { message: 'bad model' } }, 404);
+    const adapter = new OpenAIAdapter({ model: 'm' });
+
+    await expect(adapter.chat('sys', [{ role: 'user', content: 'go' }], STATIC_TOOLS)).rejects.toThrow('404');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'bun:test';
+import { buildTurnMessage, buildSystemPrompt } from '../src/llm/prompt-builder';
+import { DEFAULT_RULES } from '../src/engine/game-engine';
+import { PlayerMessage } from '../src/engine/types';
+import { COLOR_GROUP_MEMBERS } from '../src/engine/board-data';
+import { createTestState, createTestEngine, giveProperty, giveColorGroup, putInJail } from './helpers';
+
+describe('buildTurnMessage', () => {
+  it('delivers table talk from the inbox and keeps private messages out of recent events', () => {
+    const state = createTestState(3);
+    const whisper: PlayerMessage = { type: 'player_message', fromPlayerId: 'player_1', toPlayerId: 'player_2', text: 'Let us gang up on Player0' };
+    const shout: PlayerMessage = { type: 'player_message', fromPlayerId: 'player_1', toPlayerId: null, text: 'Nice weather' };
+    state.gameLog.push(whisper, shout);
+
+    const forPlayer2 = buildTurnMessage(state, 'player_2', [whisper, shout]);
+    expect(forPlayer2).toContain('MESSAGES FOR YOU:');
+    expect(forPlayer2).toContain('Player1 (to you): "Let us gang up on Player0"');
+    expect(forPlayer2).toContain('Player1 (to everyone): "Nice weather"');
+
+    const forPlayer0 = buildTurnMessage(state, 'player_0');
+    expect(forPlayer0).not.toContain('gang up');
+    expect(forPlayer0).not.toContain('MESSAGES FOR YOU');
+  });
+
+  it('shows the negotiation thread behind a counter-offer', () => {
+    const engine = createTestEngine();
+    let state = createTestState();
+    giveProperty(state, 'player_0', 1);
+    giveProperty(state, 'player_1', 3);
+    state.turnPhase = 'post_action';
+    state = engine.applyAction(state, {
+      action: 'trade_offer',
+      offer: {
+        fromPlayerId: 'player_0', toPlayerId: 'player_1',
+        offeredProperties: [1], offeredMoney: 0, requestedProperties: [3], requestedMoney: 0,
+      },
+    }).newState;
+    state = engine.applyAction(state, {
+      action: 'counter_offer',
+      offer: {
+        fromPlayerId: 'player_1', toPlayerId: 'player_0',
+        offeredProperties: [3], offeredMoney: 0, requestedProperties: [1], requestedMoney: 40,
+      },
+    }).newState;
+
+    const message = buildTurnMessage(state, 'player_0');
+    expect(message).toContain('Opening offer from Player0: Mediterranean Avenue for Baltic Avenue');
+    expect(message).toContain('TRADE OFFER (counter-offer 1 of at most 3):');
+    expect(message).toContain('Requesting: Mediterranean Avenue + $40');
+  });
+
+  it("shows the bank's building supply and any shortage auction", () => {
+    const engine = createTestEngine();
+    const state = createTestState();
+    giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+    giveColorGroup(state, 'player_1', COLOR_GROUP_MEMBERS.dark_blue);
+    state.bankHouses = 1;
+    state.turnPhase = 'post_action';
+    expect(buildTurnMessage(state, 'player_0')).toContain('BANK SUPPLY: 1 houses, 12 hotels');
+
+    const auction = engine.applyAction(state, { action: 'build_house', propertyPosition: 1 }).newState;
+    expect(buildTurnMessage(auction, 'player_1')).toContain('Housing shortage auction for a house: high bid $50 by Player0');
+  });
+
+  it('counts jail turns against the house limit', () => {
+    const state = createTestState();
+    putInJail(state, 'player_0');
+    expect(buildTurnMessage(state, 'player_0')).toContain('IN JAIL (turn 1 of 3)');
+    expect(buildTurnMessage(state, 'player_0', [], { ...DEFAULT_RULES, maxJailTurns: 2 })).toContain('IN JAIL (turn 1 of 2)');
+  });
+});
+
+describe('buildSystemPrompt', () => {
+  it('states the house rules in play', () => {
+    const official = buildSystemPrompt('Alice');
+    expect(official).toContain('You collect $200 each time you pass or land on Go.');
+    expect(official).toContain('Houses must be built evenly');
+
+    const house = buildSystemPrompt('Alice', 'aggressive', {
+      ...DEFAULT_RULES, freeParkingJackpot: true, doubleGoSalary: true, mandatoryAuctions: false, evenBuild: false, maxJailTurns: 2,
+    });
+    expect(house).toContain('$400 for landing exactly on it');
+    expect(house).toContain('whoever lands on Free Parking collects it');
+    expect(house).toContain('leave it unowned');
+    expect(house).toContain('need not be built evenly');
+    expect(house).toContain('After 2 failed rolls you must pay $50');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameLoop } from '../src/game-loop';
+import { GameConfig, resolveSeats } from '../src/config';
+import { ObserverBus } from '../src/display/observer';
+import { DEFAULT_RULES } from '../src/engine/game-engine';
+import { ScriptedAdapter, ScriptedStrategyName } from '../src/llm/scripted-adapter';
+import { loadGameLog, replayGame, ReplayableLog } from '../src/replay/replayer';
+import { buildTimeline, nextTurnFrame, prevTurnFrame, frameForTurn, ReplayFrame } from '../src/replay/timeline';
+
+const dir = mkdtempSync(join(tmpdir(), 'monopoly-replay-'));
+const logFile = join(dir, 'game.json');
+let log: ReplayableLog;
+
+/** Play a three-seat scripted game to completion, logging it to `file` */
+async function playScriptedGame(file: string, overrides: Partial<GameConfig> = {}): Promise<void> {
+  const config: GameConfig = {
+    players: 3,
+    seats: resolveSeats(3, { type: ['greedy', 'random', 'conservative'] }, []),
+    maxTurns: 80,
+    turnDelay: 0,
+    logFile: file,
+    seed: 5,
+    verbose: false,
+    scenarioFile: null,
+    headless: true,
+    sinks: [],
+    autosaveEvery: 0,
+    saveFile: join(dir, 'save.json'),
+    resumeFile: null,
+    auction: { mode: 'ascending', minIncrement: 10, bankruptcySales: 'auction' },
+    tradeWindow: false,
+    rules: { ...DEFAULT_RULES },
+    ...overrides,
+  };
+  // Headless games announce the log file on stderr
+  const realError = console.error;
+  console.error = () => {};
+  try {
+    const loop = new GameLoop(
+      config,
+      (seat, i) => new ScriptedAdapter({ strategy: seat.type as ScriptedStrategyName, seed: 5 + i }),
+      new ObserverBus(),
+    );
+    await loop.run();
+  } finally {
+    console.error = realError;
+  }
+}
+
+beforeAll(async () => {
+  await playScriptedGame(logFile);
+  log = loadGameLog(logFile);
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function tampered(edit: (log: ReplayableLog) => void): ReplayableLog {
+  const copy: ReplayableLog = JSON.parse(JSON.stringify(log));
+  edit(copy);
+  return copy;
+}
+
+describe('replay', () => {
+  it('regenerates every logged event and the final state', () => {
+    const result = replayGame(log);
+    expect(result.divergence).toBeNull();
+    expect(result.entriesReplayed).toBe(log.entries.length);
+  });
+
+  it('reports the first entry whose events differ', () => {
+    const index = log.entries.findIndex(e => e.action === 'roll_dice');
+    const result = replayGame(tampered(l => {
+      (l.entries[index].events[0] as any).dice = [7, 7];
+    }));
+
+    expect(result.divergence).toMatchObject({ entryIndex: index, action: 'roll_dice', message: 'events differ' });
+    expect(result.entriesReplayed).toBe(index + 1);
+  });
+
+  it('feeds recorded auction bids back to the engine', () => {
+    const index = log.entries.findIndex(e => e.action === 'submit_bid' && e.params?.action === 'submit_bid' && e.params.amount > 0);
+    expect(index).toBeGreaterThanOrEqual(0);
+
+    const result = replayGame(tampered(l => {
+      (l.entries[index].params as any).amount = 0;
+    }));
+    expect(result.divergence).toMatchObject({ entryIndex: index, message: 'events differ' });
+  });
+
+  it('reports a log that stops mid-game', () => {
+    const result = replayGame(tampered(l => {
+      l.entries = l.entries.slice(0, 10);
+    }));
+    expect(result.divergence?.message).toContain('log ends');
+    expect(result.divergence?.entryIndex).toBe(10);
+  });
+
+  it('follows trade windows between turns', async () => {
+    const windowLog = join(dir, 'trade-window.json');
+    await playScriptedGame(windowLog, { maxTurns: 20, tradeWindow: true });
+
+    const loaded = loadGameLog(windowLog);
+    expect(loaded.tradeWindow).toBe(true);
+    expect(loaded.entries.some(e => e.action === 'skip_trade')).toBe(true);
+    expect(replayGame(loaded).divergence).toBeNull();
+  });
+
+  it('refuses logs without replay data', () => {
+    const old = join(dir, 'old.json');
+    writeFileSync(old, JSON.stringify({ players: [], entries: [], finalState: null, totalTurns: 0 }));
+    expect(() => loadGameLog(old)).toThrow('no replay data');
+  });
+});
+
+describe('replay timeline', () => {
+  it('has a frame per entry after the starting position', () => {
+    const timeline = buildTimeline(log);
+    expect(timeline.divergence).toBeNull();
+    expect(timeline.frames).toHaveLength(log.entries.length + 1);
+    expect(timeline.frames[0].entryIndex).toBe(-1);
+
+    const last = timeline.frames[timeline.frames.length - 1];
+    expect(last.entryIndex).toBe(log.entries.length - 1);
+    expect(last.logLength).toBe(timeline.eventLog.length);
+  });
+
+  it('keeps each frame\'s state as it was at that point', () => {
+    const { frames } = buildTimeline(log);
+    const firstBuy = frames.findIndex(f => f.action === 'buy_property');
+    const buyer = frames[firstBuy].state.players.find(p => p.name === frames[firstBuy].playerName)!;
+    const before = frames[firstBuy - 1].state.players.find(p => p.id === buyer.id)!;
+    expect(buyer.properties.size).toBe(before.properties.size + 1);
+  });
+
+  it('carries recorded reasoning', () => {
+    const index = log.entries.findIndex(e => e.action === 'roll_dice');
+    const withReasoning = tampered(l => { l.entries[index].reasoning = 'Nothing to build yet.'; });
+    expect(buildTimeline(withReasoning).frames[index + 1].reasoning).toEqual(['Nothing to build yet.']);
+  });
+
+  it('navigates by turn', () => {
+    const frames = [1, 1, 1, 2, 2, 3].map(turnNumber => ({ turnNumber }) as ReplayFrame);
+    expect(nextTurnFrame(frames, 0)).toBe(3);
+    expect(nextTurnFrame(frames, 5)).toBe(5);
+    expect(prevTurnFrame(frames, 4)).toBe(3);
+    expect(prevTurnFrame(frames, 3)).toBe(0);
+    expect(prevTurnFrame(frames, 0)).toBe(0);
+    expect(frameForTurn(frames, 2)).toBe(3);
+    expect(frameForTurn(frames, 99)).toBe(5);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'bun:test';
+import { ScriptedAdapter, parseTurnView } from '../src/llm/scripted-adapter';
+import { buildTurnMessage, buildAuctionMessage } from '../src/llm/prompt-builder';
+import { formatAvailableActions, STATIC_TOOLS } from '../src/llm/tool-translator';
+import { COLOR_GROUP_MEMBERS } from '../src/engine/board-data';
+import { GameState } from '../src/engine/types';
+import {
+  createTestState, createTestEngine, giveProperty, giveColorGroup,
+  setPosition, setBalance, getPlayer, setDebt,
+} from './helpers';
+
+function turnPrompt(state: GameState, playerId = 'player_0'): string {
+  const actions = createTestEngine().getAvailableActions(state);
+  return `${buildTurnMessage(state, playerId)}\n\n${formatAvailableActions(actions)}`;
+}
+
+async function decide(adapter: ScriptedAdapter, prompt: string) {
+  const response = await adapter.chat('', [{ role: 'user', content: prompt }], STATIC_TOOLS);
+  return response.toolCalls[0];
+}
+
+describe('ScriptedAdapter', () => {
+  describe('parseTurnView', () => {
+    it('reads balance, position, owned houses and available actions', () => {
+      const state = createTestState();
+      giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+      getPlayer(state, 'player_0').properties.get(1)!.houses = 2;
+      getPlayer(state, 'player_0').properties.get(3)!.houses = 2;
+      giveProperty(state, 'player_0', 5, 0, true);
+      setPosition(state, 'player_0', 11);
+      state.turnPhase = 'post_action';
+
+      const view = parseTurnView(turnPrompt(state));
+      expect(view.kind).toBe('turn');
+      expect(view.balance).toBe(1500);
+      expect(view.position).toBe(11);
+      expect(view.properties.get(1)).toEqual({ houses: 2, mortgaged: false });
+      expect(view.properties.get(5)).toEqual({ houses: 0, mortgaged: true });
+
+      const build = view.actions.find(a => a.name === 'build_house');
+      expect(build?.params.property_position).toEqual([1, 3]);
+      expect(view.actions.some(a => a.name === 'end_turn')).toBe(true);
+    });
+
+    it('recognises an auction prompt', () => {
+      const state = createTestState();
+      const view = parseTurnView(buildAuctionMessage(state, 'player_1', 39));
+      expect(view.kind).toBe('auction');
+      expect(view.auction).toEqual({ position: 39, listPrice: 400, minBid: null });
+      expect(view.balance).toBe(1500);
+    });
+  });
+
+  describe('strategies', () => {
+    it('greedy buys what it lands on', async () => {
+      const state = createTestState();
+      setPosition(state, 'player_0', 39);
+      state.turnPhase = 'purchase_decision';
+
+      const call = await decide(new ScriptedAdapter({ strategy: 'greedy' }), turnPrompt(state));
+      expect(call.name).toBe('buy_property');
+    });
+
+    it('conservative declines a purchase that would break its cash reserve', async () => {
+      const state = createTestState();
+      setPosition(state, 'player_0', 39);
+      setBalance(state, 'player_0', 700);
+      state.turnPhase = 'purchase_decision';
+
+      const call = await decide(new ScriptedAdapter({ strategy: 'conservative' }), turnPrompt(state));
+      expect(call.name).toBe('auction_property');
+    });
+
+    it('build-three stops developing at three houses', async () => {
+      const state = createTestState();
+      giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+      getPlayer(state, 'player_0').properties.get(1)!.houses = 3;
+      getPlayer(state, 'player_0').properties.get(3)!.houses = 3;
+      state.turnPhase = 'post_action';
+
+      const call = await decide(new ScriptedAdapter({ strategy: 'build-three' }), turnPrompt(state));
+      expect(call.name).toBe('end_turn');
+    });
+
+    it('liquidates before declaring bankruptcy', async () => {
+      const state = createTestState();
+      giveProperty(state, 'player_0', 5);
+      setBalance(state, 'player_0', -50);
+      setDebt(state, 'player_0', 'bank', 50, 'Income Tax');
+      state.turnPhase = 'paying_debt';
+
+      const call = await decide(new ScriptedAdapter({ strategy: 'greedy' }), turnPrompt(state));
+      expect(call.name).toBe('mortgage_property');
+      expect(call.arguments.property_position).toBe(5);
+    });
+
+    it('random only picks listed actions and is reproducible with a seed', async () => {
+      const state = createTestState();
+      giveColorGroup(state, 'player_0', COLOR_GROUP_MEMBERS.brown);
+      state.turnPhase = 'post_action';
+      const prompt = turnPrompt(state);
+      const legal = parseTurnView(prompt).actions.map(a => a.name);
+
+      const a = new ScriptedAdapter({ strategy: 'random', seed: 3 });
+      const b = new ScriptedAdapter({ strategy: 'random', seed: 3 });
+      for (let i = 0; i < 10; i++) {
+        const callA = await decide(a, prompt);
+        const callB = await decide(b, prompt);
+        expect(legal).toContain(callA.name);
+        expect(callA).toEqual(callB);
+      }
+    });
+
+    it('bids within its balance in auctions', async () => {
+      const state = createTestState();
+      setBalance(state, 'player_1', 120);
+      const call = await decide(
+        new ScriptedAdapter({ strategy: 'greedy' }),
+        buildAuctionMessage(state, 'player_1', 39),
+      );
+      expect(call.name).toBe('submit_bid');
+      expect(call.arguments.amount).toBe(120);
+    });
+
+    it('raises by the minimum in ascending auctions until the price passes its limit', async () => {
+      const engine = createTestEngine();
+      let state = createTestState();
+      setPosition(state, 'player_0', 39);
+      state.turnPhase = 'purchase_decision';
+      state = engine.applyAction(state, { action: 'auction_property' }).newState;
+      state = engine.applyAction(state, { action: 'submit_bid', amount: 390 }).newState;
+
+      const conservative = new ScriptedAdapter({ strategy: 'conservative' });
+      const greedy = new ScriptedAdapter({ strategy: 'greedy' });
+      const prompt = buildAuctionMessage(state, 'player_1', 39);
+      expect((await decide(greedy, prompt)).arguments.amount).toBe(400);
+      expect((await decide(conservative, prompt)).arguments.amount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameLoop } from '../src/game-loop';
+import { GameConfig, resolveSeats } from '../src/config';
+import { ObserverBus } from '../src/display/observer';
+import { ScriptedAdapter, ScriptedStrategyName } from '../src/llm/scripted-adapter';
+import { createAdapter } from '../src/llm/adapter-factory';
+import { serializeState } from '../src/engine/game-state';
+import { DEFAULT_RULES } from '../src/engine/game-engine';
+import { GameRng } from '../src/engine/dice';
+import { readSnapshot, writeSnapshot, createSnapshot } from '../src/snapshot';
+import { createTestState, giveProperty } from './helpers';
+
+const dir = mkdtempSync(join(tmpdir(), 'monopoly-snapshot-'));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function scriptedConfig(overrides: Partial<GameConfig>): GameConfig {
+  return {
+    players: 2,
+    seats: resolveSeats(2, { type: ['greedy', 'build-three'] }, []),
+    maxTurns: 40,
+    turnDelay: 0,
+    logFile: null,
+    seed: 11,
+    verbose: false,
+    scenarioFile: null,
+    headless: true,
+    sinks: [],
+    autosaveEvery: 0,
+    saveFile: join(dir, 'save.json'),
+    resumeFile: null,
+    auction: { mode: 'ascending', minIncrement: 10, bankruptcySales: 'auction' },
+    tradeWindow: false,
+    rules: { ...DEFAULT_RULES },
+    ...overrides,
+  };
+}
+
+function runGame(config: GameConfig) {
+  const loop = new GameLoop(
+    config,
+    seat => new ScriptedAdapter({ strategy: seat.type as ScriptedStrategyName }),
+    new ObserverBus(),
+  );
+  return loop.run();
+}
+
+describe('snapshot', () => {
+  it('round-trips game state, including Maps', () => {
+    const state = createTestState();
+    giveProperty(state, 'player_0', 39, 2);
+    const path = join(dir, 'roundtrip.json');
+
+    writeSnapshot(path, createSnapshot({
+      seed: 1,
+      rng: new GameRng(1).getState(),
+      seats: resolveSeats(2, {}, []),
+      auction: { mode: 'sealed', minIncrement: 10, bankruptcySales: 'auction' },
+      tradeWindow: true,
+      rules: { ...DEFAULT_RULES, startingCash: 2000 },
+      state,
+      histories: { player_0: [{ role: 'user', content: 'hi' }] },
+      inboxes: {},
+      adapterRng: { player_1: 12345 },
+      usage: { inputTokens: 1, outputTokens: 2, cacheCreation: 3, cacheRead: 4, apiCalls: 5 },
+      logEntries: [],
+      logStart: null,
+    }));
+
+    const loaded = readSnapshot(path);
+    expect(loaded.rng).toEqual(new GameRng(1).getState());
+    expect(loaded.state.players[0].properties).toBeInstanceOf(Map);
+    expect(loaded.state.players[0].properties.get(39)).toEqual({ houses: 2, mortgaged: false });
+    expect(loaded.histories.player_0[0].content).toBe('hi');
+    expect(loaded.auction.mode).toBe('sealed');
+    expect(loaded.tradeWindow).toBe(true);
+    expect(loaded.rules.startingCash).toBe(2000);
+    expect(loaded.adapterRng).toEqual({ player_1: 12345 });
+    expect(existsSync(`${path}.tmp`)).toBe(false);
+  });
+
+  it('resumes an autosaved game to exactly the same result as an uninterrupted one', async () => {
+    const uninterrupted = await runGame(scriptedConfig({}));
+
+    const saveFile = join(dir, 'resume.json');
+    await runGame(scriptedConfig({ maxTurns: 20, autosaveEvery: 20, saveFile }));
+    expect(readSnapshot(saveFile).state.turnNumber).toBe(21);
+
+    const resumed = await runGame(scriptedConfig({ resumeFile: saveFile, saveFile }));
+    expect(serializeState(resumed)).toBe(serializeState(uninterrupted));
+  });
+
+  it('seeds random players from the game seed and picks their RNG up where the save left off', async () => {
+    const seats = resolveSeats(2, { type: ['random', 'random'] }, []);
+    const seeds: number[] = [];
+    const runRandom = (config: GameConfig) => new GameLoop(
+      config,
+      (seat, index, seed) => {
+        seeds.push(seed);
+        return createAdapter(seat, index, seed);
+      },
+      new ObserverBus(),
+    ).run();
+
+    const saveFile = join(dir, 'random.json');
+    await runRandom(scriptedConfig({ seats, seed: undefined, maxTurns: 20, autosaveEvery: 20, saveFile }));
+    const snapshot = readSnapshot(saveFile);
+    expect(seeds).toEqual([snapshot.seed, snapshot.seed]);
+    expect(Object.keys(snapshot.adapterRng)).toEqual(['player_0', 'player_1']);
+
+    const uninterrupted = await runRandom(scriptedConfig({ seats, seed: snapshot.seed }));
+    const resumed = await runRandom(scriptedConfig({ seats, seed: undefined, resumeFile: saveFile, saveFile }));
+    expect(serializeState(resumed)).toBe(serializeState(uninterrupted));
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'bun:test';
+import { updateElo, updateTrueSkill, DEFAULT_TRUESKILL } from '../src/tournament/ratings';
+import { scheduleRoundRobin, scheduleSwissRound, rotateSeats } from '../src/tournament/scheduler';
+import { scoreGame, recordGame, GameResult, RatingsTable } from '../src/tournament/runner';
+import { resolveTournamentConfig } from '../src/tournament/config';
+import { createTestState } from './helpers';
+
+describe('tournament', () => {
+  describe('ratings', () => {
+    it('moves Elo symmetrically in a head-to-head game', () => {
+      expect(updateElo([1500, 1500], [1, 2])).toEqual([1516, 1484]);
+      expect(updateElo([1500, 1500], [1, 1])).toEqual([1500, 1500]);
+    });
+
+    it('matches the reference TrueSkill update for a win and a draw', () => {
+      const [winner, loser] = updateTrueSkill([DEFAULT_TRUESKILL, DEFAULT_TRUESKILL], [1, 2]);
+      expect(winner.mu).toBeCloseTo(29.396, 2);
+      expect(winner.sigma).toBeCloseTo(7.171, 2);
+      expect(loser.mu).toBeCloseTo(20.604, 2);
+
+      const [a, b] = updateTrueSkill([DEFAULT_TRUESKILL, DEFAULT_TRUESKILL], [1, 1]);
+      expect(a.mu).toBeCloseTo(25, 5);
+      expect(b.sigma).toBeCloseTo(6.458, 2);
+    });
+
+    it('ranks every seat of a four-player game', () => {
+      const after = updateTrueSkill(Array(4).fill(DEFAULT_TRUESKILL), [1, 2, 3, 4]);
+      const mus = after.map(r => r.mu);
+      expect([...mus].sort((x, y) => y - x)).toEqual(mus);
+      expect(after.every(r => r.sigma < DEFAULT_TRUESKILL.sigma)).toBe(true);
+    });
+  });
+
+  describe('scheduler', () => {
+    it('plays every pairing through a full seat rotation with a shared seed', () => {
+      const games = scheduleRoundRobin(['A', 'B', 'C'], 2, 2, 100);
+      expect(games.map(g => g.seats)).toEqual([
+        ['A', 'B'], ['B', 'A'],
+        ['A', 'C'], ['C', 'A'],
+        ['B', 'C'], ['C', 'B'],
+      ]);
+      expect(games.map(g => g.seed)).toEqual([100, 100, 101, 101, 102, 102]);
+    });
+
+    it('moves to a new seed for each extra rotation', () => {
+      const games = scheduleRoundRobin(['A', 'B', 'C'], 3, 6, 0);
+      expect(games).toHaveLength(6);
+      expect(games.map(g => g.seed)).toEqual([0, 0, 0, 1, 1, 1]);
+      expect(new Set(games.slice(0, 3).map(g => g.seats[0]))).toEqual(new Set(['A', 'B', 'C']));
+    });
+
+    it('pairs Swiss neighbours, avoids rematches and gives the bye to the bottom', () => {
+      const standings = [
+        { name: 'A', points: 2, rating: 1500 },
+        { name: 'B', points: 2, rating: 1500 },
+        { name: 'C', points: 1, rating: 1500 },
+        { name: 'D', points: 0, rating: 1500 },
+        { name: 'E', points: 0, rating: 1400 },
+      ];
+      const opponents = new Map([['A', new Set(['B'])], ['B', new Set(['A'])]]);
+      const round = scheduleSwissRound(standings, 2, 3, 10, 0, opponents, new Set());
+
+      expect(round.byes).toEqual(['E']);
+      expect(round.games.map(g => [...g.seats].sort())).toEqual([['A', 'C'], ['B', 'D']]);
+      expect(round.games.map(g => g.index)).toEqual([10, 11]);
+    });
+
+    it('rotates seats cyclically', () => {
+      expect(rotateSeats(['A', 'B', 'C'], 1)).toEqual(['B', 'C', 'A']);
+      expect(rotateSeats(['A', 'B', 'C'], 4)).toEqual(['B', 'C', 'A']);
+    });
+  });
+
+  describe('results', () => {
+    it('ranks bankrupt players by how long they lasted and survivors of a timeout together', () => {
+      const state = createTestState(4);
+      state.players[0].isBankrupt = true;
+      state.players[2].isBankrupt = true;
+      state.gameLog.push(
+        { type: 'bankruptcy', playerId: 'player_2', creditor: 'bank' },
+        { type: 'bankruptcy', playerId: 'player_0', creditor: 'player_1' },
+      );
+
+      expect(scoreGame(state)).toEqual({ outcome: 'timeout', ranks: [3, 1, 4, 1] });
+    });
+
+    it('counts wins, draws and timeouts and leaves ratings alone for crashed games', () => {
+      const records: RatingsTable = {};
+      const base = { index: 0, round: 1, seed: 1, seats: ['A', 'B'], turns: 10 };
+      recordGame(records, { ...base, outcome: 'win', winner: 'A', ranks: [1, 2] } as GameResult);
+      recordGame(records, { ...base, outcome: 'timeout', winner: null, ranks: [1, 1] } as GameResult);
+      recordGame(records, { ...base, outcome: 'error', winner: null, ranks: [0, 0], error: 'boom' } as GameResult);
+
+      expect(records.A).toMatchObject({ games: 3, wins: 1, draws: 1, losses: 0, timeouts: 1, errors: 1 });
+      expect(records.B).toMatchObject({ games: 3, wins: 0, draws: 1, losses: 1, timeouts: 1, errors: 1 });
+      expect(records.A.elo).toBeGreaterThan(1500);
+    });
+  });
+
+  describe('config', () => {
+    it('defaults to one seat rotation per matchup and rejects duplicate names', () => {
+      const config = resolveTournamentConfig({ agents: [{ type: 'greedy' }, { type: 'random' }], playersPerGame: 2, seed: 1 });
+      expect(config.gamesPerMatchup).toBe(2);
+      expect(config.agents.map(a => a.name)).toEqual(['Alice', 'Bob']);
+
+      expect(() => resolveTournamentConfig({ agents: [{ name: 'X' }, { name: 'X' }] })).toThrow('Duplicate agent name');
+    });
+  });
+});